@@ -16,11 +16,16 @@ namespace MomentumAPI.Controllers
     public class CheckinController : ControllerBase
     {
         private readonly ICheckinService _checkinService;
+        private readonly ICustomMetricService _customMetricService;
         private readonly ILogger<CheckinController> _logger;
 
-        public CheckinController(ICheckinService checkinService, ILogger<CheckinController> logger)
+        public CheckinController(
+            ICheckinService checkinService,
+            ICustomMetricService customMetricService,
+            ILogger<CheckinController> logger)
         {
             _checkinService = checkinService;
+            _customMetricService = customMetricService;
             _logger = logger;
         }
 
@@ -49,6 +54,12 @@ namespace MomentumAPI.Controllers
                 }
 
                 var userId = GetUserIdFromClaims();
+                if (!await ValidateCustomValuesAsync(userId, request))
+                {
+                    _logger.LogWarning("Check-in request from user {UserId} has invalid custom values", userId);
+                    return BadRequest(ModelState);
+                }
+
                 _logger.LogInformation("Creating check-in for user {UserId} on date {Date}", userId, request.Date);
 
                 // Create new check-in (allows multiple per day)
@@ -236,6 +247,85 @@ namespace MomentumAPI.Controllers
             }
         }
 
+        /// <summary>
+        /// Get check-ins within a date range for the authenticated user
+        /// </summary>
+        /// <param name="startDate">First date of the range in YYYY-MM-DD format</param>
+        /// <param name="endDate">Last date of the range in YYYY-MM-DD format (inclusive, max 366 days after start)</param>
+        /// <returns>List of check-ins ordered by date descending</returns>
+        /// <response code="200">Check-ins returned (may be empty list)</response>
+        /// <response code="400">Invalid date format or range</response>
+        /// <response code="401">Unauthorized - invalid or missing JWT token</response>
+        /// <response code="500">Internal server error</response>
+        [HttpGet("range")]
+        [ProducesResponseType(typeof(List<CheckinResponse>), StatusCodes.Status200OK)]
+        [ProducesResponseType(StatusCodes.Status400BadRequest)]
+        [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+        [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+        public async Task<ActionResult<List<CheckinResponse>>> GetCheckinsByDateRange([FromQuery] string startDate, [FromQuery] string endDate)
+        {
+            try
+            {
+                if (!DateOnly.TryParse(startDate, out DateOnly parsedStartDate) || !DateOnly.TryParse(endDate, out DateOnly parsedEndDate))
+                {
+                    _logger.LogWarning("Invalid date range provided: {StartDate} to {EndDate}", startDate, endDate);
+                    return BadRequest(new { message = "Invalid date format. Use YYYY-MM-DD format." });
+                }
+
+                var userId = GetUserIdFromClaims();
+                _logger.LogInformation("Retrieving check-ins for user {UserId} from {StartDate} to {EndDate}", userId, parsedStartDate, parsedEndDate);
+
+                var checkins = await _checkinService.GetCheckinsByDateRangeAsync(userId, parsedStartDate, parsedEndDate);
+
+                _logger.LogInformation("Retrieved {Count} check-ins for user {UserId} in range", checkins.Count, userId);
+                return Ok(checkins);
+            }
+            catch (ArgumentException ex)
+            {
+                _logger.LogWarning(ex, "Invalid argument in date range request");
+                return BadRequest(new { message = ex.Message });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving check-ins for range {StartDate} to {EndDate}", startDate, endDate);
+                return StatusCode(500, new { message = "An error occurred while retrieving the check-ins" });
+            }
+        }
+
+        /// <summary>
+        /// Get the earliest check-in for the authenticated user
+        /// </summary>
+        /// <returns>Check-in with the earliest date</returns>
+        /// <response code="200">Check-in found and returned</response>
+        /// <response code="401">Unauthorized - invalid or missing JWT token</response>
+        /// <response code="404">User has no check-ins</response>
+        /// <response code="500">Internal server error</response>
+        [HttpGet("first")]
+        [ProducesResponseType(typeof(CheckinResponse), StatusCodes.Status200OK)]
+        [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+        [ProducesResponseType(StatusCodes.Status404NotFound)]
+        [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+        public async Task<ActionResult<CheckinResponse>> GetFirstCheckin()
+        {
+            try
+            {
+                var userId = GetUserIdFromClaims();
+                var checkin = await _checkinService.GetFirstCheckinAsync(userId);
+
+                if (checkin == null)
+                {
+                    return NotFound(new { message = "No check-ins found" });
+                }
+
+                return Ok(checkin);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving first check-in");
+                return StatusCode(500, new { message = "An error occurred while retrieving the check-in" });
+            }
+        }
+
         /// <summary>
         /// Update an existing check-in
         /// </summary>
@@ -264,6 +354,12 @@ namespace MomentumAPI.Controllers
                 }
 
                 var userId = GetUserIdFromClaims();
+                if (!await ValidateCustomValuesAsync(userId, request))
+                {
+                    _logger.LogWarning("Check-in update {CheckinId} has invalid custom values", id);
+                    return BadRequest(ModelState);
+                }
+
                 _logger.LogInformation("Updating check-in {CheckinId} for user {UserId}", id, userId);
 
                 var updatedCheckin = await _checkinService.UpdateCheckinAsync(userId, id, request);
@@ -328,6 +424,22 @@ namespace MomentumAPI.Controllers
             }
         }
 
+        /// <summary>
+        /// Checks custom values against the user's metric definitions, adding an error per invalid value to the model state
+        /// </summary>
+        /// <param name="userId">ID of the user who owns the metrics</param>
+        /// <param name="request">Check-in request whose custom values to check</param>
+        /// <returns>True when every value fits its metric</returns>
+        private async Task<bool> ValidateCustomValuesAsync(int userId, CheckinRequest request)
+        {
+            var errors = await _customMetricService.ValidateCustomValuesAsync(userId, request.CustomValues);
+            foreach (var (metricId, message) in errors)
+            {
+                ModelState.AddModelError($"{nameof(CheckinRequest.CustomValues)}.{metricId}", message);
+            }
+            return errors.Count == 0;
+        }
+
         /// <summary>
         /// Extracts the user ID from JWT claims
         /// </summary>
@@ -0,0 +1,192 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using MomentumAPI.Models.DTOs;
+using MomentumAPI.Services;
+using System.Security.Claims;
+
+namespace MomentumAPI.Controllers
+{
+    /// <summary>
+    /// Controller for managing the user's custom check-in metrics
+    /// </summary>
+    [ApiController]
+    [Route("api/[controller]")]
+    [Authorize]
+    [Produces("application/json")]
+    public class CustomMetricController : ControllerBase
+    {
+        private readonly ICustomMetricService _customMetricService;
+        private readonly ILogger<CustomMetricController> _logger;
+
+        public CustomMetricController(ICustomMetricService customMetricService, ILogger<CustomMetricController> logger)
+        {
+            _customMetricService = customMetricService;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Get all custom metrics of the authenticated user
+        /// </summary>
+        /// <returns>List of custom metrics ordered by creation time</returns>
+        /// <response code="200">Custom metrics returned (may be empty list)</response>
+        /// <response code="401">Unauthorized - invalid or missing JWT token</response>
+        /// <response code="500">Internal server error</response>
+        [HttpGet]
+        [ProducesResponseType(typeof(List<CustomMetricResponse>), StatusCodes.Status200OK)]
+        [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+        [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+        public async Task<ActionResult<List<CustomMetricResponse>>> GetMetrics()
+        {
+            try
+            {
+                var userId = GetUserIdFromClaims();
+                return Ok(await _customMetricService.GetMetricsAsync(userId));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving custom metrics");
+                return StatusCode(500, new { message = "An error occurred while retrieving your custom metrics" });
+            }
+        }
+
+        /// <summary>
+        /// Create a custom metric
+        /// </summary>
+        /// <param name="request">Metric definition: name, type and the settings of that type</param>
+        /// <returns>Created custom metric</returns>
+        /// <response code="201">Custom metric created successfully</response>
+        /// <response code="400">Invalid definition, or the name or id is already taken</response>
+        /// <response code="401">Unauthorized - invalid or missing JWT token</response>
+        /// <response code="500">Internal server error</response>
+        [HttpPost]
+        [ProducesResponseType(typeof(CustomMetricResponse), StatusCodes.Status201Created)]
+        [ProducesResponseType(StatusCodes.Status400BadRequest)]
+        [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+        [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+        public async Task<ActionResult<CustomMetricResponse>> CreateMetric([FromBody] CustomMetricRequest request)
+        {
+            try
+            {
+                if (!ModelState.IsValid)
+                {
+                    _logger.LogWarning("Invalid custom metric request received from user");
+                    return BadRequest(ModelState);
+                }
+
+                var userId = GetUserIdFromClaims();
+                var response = await _customMetricService.CreateMetricAsync(userId, request);
+                return StatusCode(StatusCodes.Status201Created, response);
+            }
+            catch (ArgumentException ex)
+            {
+                _logger.LogWarning(ex, "Invalid argument in custom metric creation request");
+                return BadRequest(new { message = ex.Message });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error creating custom metric");
+                return StatusCode(500, new { message = "An error occurred while creating the custom metric" });
+            }
+        }
+
+        /// <summary>
+        /// Update a custom metric; its id, and so the values saved on check-ins, stay the same
+        /// </summary>
+        /// <param name="id">ID of the metric to update</param>
+        /// <param name="request">Updated metric definition</param>
+        /// <returns>Updated custom metric</returns>
+        /// <response code="200">Custom metric updated successfully</response>
+        /// <response code="400">Invalid definition or the name is already taken</response>
+        /// <response code="401">Unauthorized - invalid or missing JWT token</response>
+        /// <response code="404">Custom metric not found or user doesn't own it</response>
+        /// <response code="500">Internal server error</response>
+        [HttpPut("{id}")]
+        [ProducesResponseType(typeof(CustomMetricResponse), StatusCodes.Status200OK)]
+        [ProducesResponseType(StatusCodes.Status400BadRequest)]
+        [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+        [ProducesResponseType(StatusCodes.Status404NotFound)]
+        [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+        public async Task<ActionResult<CustomMetricResponse>> UpdateMetric(string id, [FromBody] CustomMetricRequest request)
+        {
+            try
+            {
+                if (!ModelState.IsValid)
+                {
+                    _logger.LogWarning("Invalid custom metric update request received for metric {MetricId}", id);
+                    return BadRequest(ModelState);
+                }
+
+                var userId = GetUserIdFromClaims();
+                var updated = await _customMetricService.UpdateMetricAsync(userId, id, request);
+
+                if (updated == null)
+                {
+                    return NotFound(new { message = "Custom metric not found or you don't have permission to update it" });
+                }
+
+                return Ok(updated);
+            }
+            catch (ArgumentException ex)
+            {
+                _logger.LogWarning(ex, "Invalid argument in custom metric update request for ID {MetricId}", id);
+                return BadRequest(new { message = ex.Message });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error updating custom metric {MetricId}", id);
+                return StatusCode(500, new { message = "An error occurred while updating the custom metric" });
+            }
+        }
+
+        /// <summary>
+        /// Delete a custom metric; values already saved on check-ins are kept
+        /// </summary>
+        /// <param name="id">ID of the metric to delete</param>
+        /// <returns>No content on successful deletion</returns>
+        /// <response code="204">Custom metric deleted successfully</response>
+        /// <response code="401">Unauthorized - invalid or missing JWT token</response>
+        /// <response code="404">Custom metric not found or user doesn't own it</response>
+        /// <response code="500">Internal server error</response>
+        [HttpDelete("{id}")]
+        [ProducesResponseType(StatusCodes.Status204NoContent)]
+        [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+        [ProducesResponseType(StatusCodes.Status404NotFound)]
+        [ProducesResponseType(StatusCodes.Status500InternalServerError)]
+        public async Task<IActionResult> DeleteMetric(string id)
+        {
+            try
+            {
+                var userId = GetUserIdFromClaims();
+                var deleted = await _customMetricService.DeleteMetricAsync(userId, id);
+
+                if (!deleted)
+                {
+                    return NotFound(new { message = "Custom metric not found or you don't have permission to delete it" });
+                }
+
+                return NoContent();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error deleting custom metric {MetricId}", id);
+                return StatusCode(500, new { message = "An error occurred while deleting the custom metric" });
+            }
+        }
+
+        /// <summary>
+        /// Extracts the user ID from JWT claims
+        /// </summary>
+        /// <returns>User ID from the authenticated JWT token</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when user ID claim is not found or invalid</exception>
+        private int GetUserIdFromClaims()
+        {
+            var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out int userId))
+            {
+                _logger.LogError("Invalid or missing user ID claim in JWT token");
+                throw new UnauthorizedAccessException("Invalid authentication token");
+            }
+            return userId;
+        }
+    }
+}
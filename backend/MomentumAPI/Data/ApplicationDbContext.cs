@@ -13,6 +13,7 @@ namespace MomentumAPI.Data
         public DbSet<User> Users { get; set; }
         public DbSet<ManualCheckin> ManualCheckins { get; set; }
         public DbSet<RawHealthData> RawHealthData { get; set; }
+        public DbSet<CustomMetric> CustomMetrics { get; set; }
 
         protected override void OnModelCreating(ModelBuilder modelBuilder)
         {
@@ -42,7 +43,20 @@ namespace MomentumAPI.Data
                     .OnDelete(DeleteBehavior.Cascade);
             });
 
-            // RawHealthData configuration
+            // CustomMetric configuration
+            modelBuilder.Entity<CustomMetric>(entity =>
+            {
+                entity.ToTable("custom_metrics");
+                // Ids come from the client, so they are only unique per user
+                entity.HasKey(e => new { e.UserId, e.Id });
+
+                entity.HasOne(m => m.User)
+                    .WithMany(u => u.CustomMetrics)
+                    .HasForeignKey(m => m.UserId)
+                    .OnDelete(DeleteBehavior.Cascade);
+            });
+
+                        // RawHealthData configuration
             modelBuilder.Entity<RawHealthData>(entity =>
             {
                 entity.ToTable("raw_health_data");
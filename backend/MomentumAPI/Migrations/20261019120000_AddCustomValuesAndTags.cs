@@ -0,0 +1,40 @@
+﻿using System.Collections.Generic;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MomentumAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCustomValuesAndTags : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "custom_values",
+                table: "manual_checkins",
+                type: "jsonb",
+                nullable: true);
+
+            migrationBuilder.AddColumn<List<string>>(
+                name: "tags",
+                table: "manual_checkins",
+                type: "text[]",
+                nullable: false,
+                defaultValueSql: "'{}'");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "custom_values",
+                table: "manual_checkins");
+
+            migrationBuilder.DropColumn(
+                name: "tags",
+                table: "manual_checkins");
+        }
+    }
+}
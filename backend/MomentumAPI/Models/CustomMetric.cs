@@ -0,0 +1,52 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace MomentumAPI.Models
+{
+    [Table("custom_metrics")]
+    public class CustomMetric
+    {
+        // Check-ins store custom values keyed by this id, so it is kept when a metric is edited
+        [Required]
+        [MaxLength(50)]
+        [Column("id")]
+        public string Id { get; set; } = string.Empty;
+
+        [Required]
+        [Column("user_id")]
+        public int UserId { get; set; }
+
+        [Required]
+        [MaxLength(50)]
+        [Column("name")]
+        public string Name { get; set; } = string.Empty;
+
+        // number, scale, boolean or select
+        [Required]
+        [MaxLength(20)]
+        [Column("type")]
+        public string Type { get; set; } = string.Empty;
+
+        [MaxLength(30)]
+        [Column("unit")]
+        public string? Unit { get; set; }
+
+        [Column("min")]
+        public decimal? Min { get; set; }
+
+        [Column("max")]
+        public decimal? Max { get; set; }
+
+        [Column("options")]
+        public List<string> Options { get; set; } = new();
+
+        [Column("created_at")]
+        public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+        [Column("updated_at")]
+        public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+        // Navigation property
+        public User User { get; set; } = null!;
+    }
+}
@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using System.Text.Json;
 
 namespace MomentumAPI.Models.DTOs
 {
@@ -120,6 +121,20 @@ namespace MomentumAPI.Models.DTOs
         /// </summary>
         [StringLength(1000, ErrorMessage = "Notes cannot exceed 1000 characters")]
         public string? Notes { get; set; }
+
+        /// <summary>
+        /// Values of the user's custom metrics keyed by metric id (number, boolean or string)
+        /// </summary>
+        [MaxLength(50, ErrorMessage = "A check-in cannot have more than 50 custom values")]
+        [CustomValues]
+        public Dictionary<string, JsonElement>? CustomValues { get; set; }
+
+        /// <summary>
+        /// Freeform tags for the day
+        /// </summary>
+        [MaxLength(20, ErrorMessage = "A check-in cannot have more than 20 tags")]
+        [Tags]
+        public List<string>? Tags { get; set; }
     }
 
     /// <summary>
@@ -139,4 +154,55 @@ namespace MomentumAPI.Models.DTOs
             return false;
         }
     }
-}
\ No newline at end of file
+
+    /// <summary>
+    /// Custom validation attribute to ensure custom values are numbers, booleans or short strings
+    /// </summary>
+    public class CustomValuesAttribute : ValidationAttribute
+    {
+        public override bool IsValid(object? value)
+        {
+            if (value == null) return true;
+
+            if (value is Dictionary<string, JsonElement> values)
+            {
+                return values.All(entry =>
+                    entry.Key.Length <= 50 &&
+                    (entry.Value.ValueKind == JsonValueKind.Number ||
+                     entry.Value.ValueKind == JsonValueKind.True ||
+                     entry.Value.ValueKind == JsonValueKind.False ||
+                     (entry.Value.ValueKind == JsonValueKind.String && entry.Value.GetString()!.Length <= 100)));
+            }
+
+            return false;
+        }
+
+        public override string FormatErrorMessage(string name)
+        {
+            return "Custom values must be numbers, yes/no or text up to 100 characters";
+        }
+    }
+
+    /// <summary>
+    /// Custom validation attribute to ensure tags are non-empty and at most 30 characters
+    /// </summary>
+    public class TagsAttribute : ValidationAttribute
+    {
+        public override bool IsValid(object? value)
+        {
+            if (value == null) return true;
+
+            if (value is List<string> tags)
+            {
+                return tags.All(tag => !string.IsNullOrWhiteSpace(tag) && tag.Length <= 30);
+            }
+
+            return false;
+        }
+
+        public override string FormatErrorMessage(string name)
+        {
+            return "Tags must be between 1 and 30 characters";
+        }
+    }
+}
@@ -1,3 +1,5 @@
+using System.Text.Json;
+
 namespace MomentumAPI.Models.DTOs
 {
     /// <summary>
@@ -110,6 +112,16 @@ namespace MomentumAPI.Models.DTOs
         /// </summary>
         public string? Notes { get; set; }
 
+        /// <summary>
+        /// Values of the user's custom metrics keyed by metric id
+        /// </summary>
+        public Dictionary<string, JsonElement> CustomValues { get; set; } = new();
+
+        /// <summary>
+        /// Freeform tags for the day
+        /// </summary>
+        public List<string> Tags { get; set; } = new();
+
         /// <summary>
         /// When this check-in was first created (UTC)
         /// </summary>
@@ -0,0 +1,54 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace MomentumAPI.Models.DTOs
+{
+    /// <summary>
+    /// Data transfer object for creating or updating a user-defined check-in metric
+    /// </summary>
+    public class CustomMetricRequest
+    {
+        /// <summary>
+        /// Id to create the metric with, so definitions made before they were stored on the server
+        /// keep matching the values already saved on check-ins (generated when omitted)
+        /// </summary>
+        [StringLength(50, ErrorMessage = "Metric id cannot exceed 50 characters")]
+        [RegularExpression(@"^[A-Za-z0-9_-]+$", ErrorMessage = "Metric id may only contain letters, numbers, - and _")]
+        public string? Id { get; set; }
+
+        /// <summary>
+        /// Display name, unique per user (e.g. "Meditation")
+        /// </summary>
+        [Required(ErrorMessage = "Name is required")]
+        [StringLength(50, ErrorMessage = "Names cannot exceed 50 characters")]
+        public string Name { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Kind of value recorded: number, scale (1-10), boolean or select
+        /// </summary>
+        [Required(ErrorMessage = "Type is required")]
+        [RegularExpression("^(number|scale|boolean|select)$", ErrorMessage = "Type must be number, scale, boolean or select")]
+        public string Type { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Unit shown next to the value (number only, e.g. "min")
+        /// </summary>
+        [StringLength(30, ErrorMessage = "Units cannot exceed 30 characters")]
+        public string? Unit { get; set; }
+
+        /// <summary>
+        /// Smallest accepted value (number only)
+        /// </summary>
+        public decimal? Min { get; set; }
+
+        /// <summary>
+        /// Largest accepted value (number only)
+        /// </summary>
+        public decimal? Max { get; set; }
+
+        /// <summary>
+        /// Choices to pick from (select only, at least two)
+        /// </summary>
+        [MaxLength(50, ErrorMessage = "A metric cannot have more than 50 choices")]
+        public List<string>? Options { get; set; }
+    }
+}
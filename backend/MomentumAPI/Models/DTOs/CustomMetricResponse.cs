@@ -0,0 +1,55 @@
+using System.Text.Json.Serialization;
+
+namespace MomentumAPI.Models.DTOs
+{
+    /// <summary>
+    /// Data transfer object for returning a user-defined check-in metric.
+    /// Settings that don't apply to the metric's type are left out rather than sent as null.
+    /// </summary>
+    public class CustomMetricResponse
+    {
+        /// <summary>
+        /// Metric id, the key of its values in a check-in's custom values
+        /// </summary>
+        public string Id { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Display name
+        /// </summary>
+        public string Name { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Kind of value recorded: number, scale, boolean or select
+        /// </summary>
+        public string Type { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Unit shown next to the value (number only)
+        /// </summary>
+        [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+        public string? Unit { get; set; }
+
+        /// <summary>
+        /// Smallest accepted value (number only)
+        /// </summary>
+        [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+        public decimal? Min { get; set; }
+
+        /// <summary>
+        /// Largest accepted value (number only)
+        /// </summary>
+        [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+        public decimal? Max { get; set; }
+
+        /// <summary>
+        /// Choices to pick from (select only)
+        /// </summary>
+        [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+        public List<string>? Options { get; set; }
+
+        /// <summary>
+        /// When this metric was created (UTC)
+        /// </summary>
+        public DateTime CreatedAt { get; set; }
+    }
+}
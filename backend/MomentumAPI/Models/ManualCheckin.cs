@@ -88,6 +88,13 @@ namespace MomentumAPI.Models
         [Column("notes")]
         public string? Notes { get; set; }
 
+        // User-defined metrics keyed by metric id, stored as a JSON object
+        [Column("custom_values", TypeName = "jsonb")]
+        public string? CustomValues { get; set; }
+
+        [Column("tags")]
+        public List<string> Tags { get; set; } = new();
+
         [Column("created_at")]
         public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
 
@@ -42,5 +42,6 @@ namespace MomentumAPI.Models
 
         // Navigation properties
         public ICollection<ManualCheckin> ManualCheckins { get; set; } = new List<ManualCheckin>();
+        public ICollection<CustomMetric> CustomMetrics { get; set; } = new List<CustomMetric>();
     }
 }
\ No newline at end of file
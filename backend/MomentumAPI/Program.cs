@@ -1,209 +1,210 @@
-using Microsoft.AspNetCore.Authentication.JwtBearer;
-using Microsoft.EntityFrameworkCore;
-using Microsoft.IdentityModel.Tokens;
-using Microsoft.OpenApi.Models;
-using MomentumAPI.Data;
-using MomentumAPI.Middleware;
-using MomentumAPI.Services;
-using Serilog;
-using System.Text;
-
-var builder = WebApplication.CreateBuilder(args);
-
-// Configure port for Azure App Service
-var port = Environment.GetEnvironmentVariable("PORT") ?? "8080";
-builder.WebHost.UseUrls($"http://*:{port}");
-
-// Configure Serilog
-Log.Logger = new LoggerConfiguration()
-    .ReadFrom.Configuration(builder.Configuration)
-    .WriteTo.Console()
-    .CreateLogger();
-
-builder.Host.UseSerilog();
-
-// Add services to the container
-builder.Services.AddControllers();
-builder.Services.AddEndpointsApiExplorer();
-
-// Configure Swagger with JWT support
-builder.Services.AddSwaggerGen(options =>
-{
-    options.SwaggerDoc("v1", new OpenApiInfo 
-    { 
-        Title = "Momentum Analytics API",
-        Version = "v1",
-        Description = "API for the Momentum health optimization platform",
-        Contact = new OpenApiContact
-        {
-            Name = "Momentum Team",
-            Email = "support@momentum.com"
-        }
-    });
-
-    // Add JWT Authentication to Swagger
-    options.AddSecurityDefinition("Bearer", new OpenApiSecurityScheme
-    {
-        Description = "JWT Authorization header using the Bearer scheme. Example: \"Authorization: Bearer {token}\"",
-        Name = "Authorization",
-        In = ParameterLocation.Header,
-        Type = SecuritySchemeType.ApiKey,
-        Scheme = "Bearer"
-    });
-
-    options.AddSecurityRequirement(new OpenApiSecurityRequirement
-    {
-        {
-            new OpenApiSecurityScheme
-            {
-                Reference = new OpenApiReference
-                {
-                    Type = ReferenceType.SecurityScheme,
-                    Id = "Bearer"
-                }
-            },
-            new string[] { }
-        }
-    });
-
-    // Include XML comments if available
-    var xmlFile = $"{System.Reflection.Assembly.GetExecutingAssembly().GetName().Name}.xml";
-    var xmlPath = Path.Combine(AppContext.BaseDirectory, xmlFile);
-    if (File.Exists(xmlPath))
-    {
-        options.IncludeXmlComments(xmlPath);
-    }
-});
-
-// Configure Database
-builder.Services.AddDbContext<ApplicationDbContext>(options =>
-    options.UseNpgsql(builder.Configuration.GetConnectionString("DefaultConnection")));
-
-// Configure JWT Authentication
-var jwtSettings = builder.Configuration.GetSection("JwtSettings");
-var secretKey = jwtSettings["SecretKey"];
-
-if (string.IsNullOrEmpty(secretKey))
-{
-    throw new InvalidOperationException("JWT SecretKey is not configured in appsettings.json");
-}
-
-builder.Services.AddAuthentication(options =>
-{
-    options.DefaultAuthenticateScheme = JwtBearerDefaults.AuthenticationScheme;
-    options.DefaultChallengeScheme = JwtBearerDefaults.AuthenticationScheme;
-    options.DefaultScheme = JwtBearerDefaults.AuthenticationScheme;
-})
-.AddJwtBearer(options =>
-{
-    options.TokenValidationParameters = new TokenValidationParameters
-    {
-        ValidateIssuerSigningKey = true,
-        IssuerSigningKey = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(secretKey)),
-        ValidateIssuer = true,
-        ValidIssuer = jwtSettings["Issuer"],
-        ValidateAudience = true,
-        ValidAudience = jwtSettings["Audience"],
-        ValidateLifetime = true,
-        ClockSkew = TimeSpan.Zero
-    };
-});
-
-builder.Services.AddAuthorization();
-
-// Configure CORS
-var corsOrigins = builder.Configuration.GetSection("Cors:AllowedOrigins").Get<string[]>() 
-    ?? new[] { "http://localhost:5173", "http://localhost:3000" };
-
-builder.Services.AddCors(options =>
-{
-    options.AddPolicy("AllowFrontend", policy =>
-    {
-        policy.WithOrigins(corsOrigins)
-              .AllowAnyMethod()
-              .AllowAnyHeader()
-              .AllowCredentials();
-    });
-});
-
-// Register application services
-builder.Services.AddScoped<ITokenService, TokenService>();
-builder.Services.AddScoped<IAuthService, AuthService>();
-builder.Services.AddScoped<ICheckinService, CheckinService>();
-
-// Add health checks
-builder.Services.AddHealthChecks()
-    .AddNpgSql(builder.Configuration.GetConnectionString("DefaultConnection")!);
-
-var app = builder.Build();
-
-// Run database migrations on startup
-try 
-{
-    using var scope = app.Services.CreateScope();
-    var context = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();
-    
-    // Test database connection first
-    app.Logger.LogInformation("Testing database connection...");
-    await context.Database.CanConnectAsync();
-    app.Logger.LogInformation("Database connection successful");
-    
-    // Run migrations
-    app.Logger.LogInformation("Running database migrations...");
-    await context.Database.MigrateAsync();
-    app.Logger.LogInformation("Database migrations completed successfully");
-}
-catch (Exception ex)
-{
-    app.Logger.LogError(ex, "Database setup failed: {Message}", ex.Message);
-    // Don't throw in production - let app start without DB for debugging
-    if (app.Environment.IsDevelopment())
-    {
-        throw;
-    }
-}
-
-// Configure the HTTP request pipeline
-
-// Global error handling middleware (should be first)
-app.UseMiddleware<ErrorHandlingMiddleware>();
-
-// Enable Swagger in all environments for now
-app.UseSwagger();
-app.UseSwaggerUI(options =>
-{
-    options.SwaggerEndpoint("/swagger/v1/swagger.json", "Momentum Analytics API v1");
-    options.RoutePrefix = "swagger"; // Serve Swagger at /swagger
-    options.DocumentTitle = "Momentum Analytics API";
-});
-
-// HTTPS redirection
-app.UseHttpsRedirection();
-
-// CORS must come before authentication and authorization
-app.UseCors("AllowFrontend");
-
-// Authentication and Authorization
-app.UseAuthentication();
-app.UseAuthorization();
-
-// Health checks endpoint
-app.MapHealthChecks("/health");
-
-// Map controllers
-app.MapControllers();
-
-// Log startup information
-app.Logger.LogInformation("Momentum Analytics API starting up...");
-app.Logger.LogInformation("Environment: {Environment}", app.Environment.EnvironmentName);
-app.Logger.LogInformation("CORS Origins: {Origins}", string.Join(", ", corsOrigins));
-
-try
-{
-    app.Run();
-}
-catch (Exception ex)
-{
-    app.Logger.LogCritical(ex, "Application terminated unexpectedly");
-    throw;
+using Microsoft.AspNetCore.Authentication.JwtBearer;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.IdentityModel.Tokens;
+using Microsoft.OpenApi.Models;
+using MomentumAPI.Data;
+using MomentumAPI.Middleware;
+using MomentumAPI.Services;
+using Serilog;
+using System.Text;
+
+var builder = WebApplication.CreateBuilder(args);
+
+// Configure port for Azure App Service
+var port = Environment.GetEnvironmentVariable("PORT") ?? "8080";
+builder.WebHost.UseUrls($"http://*:{port}");
+
+// Configure Serilog
+Log.Logger = new LoggerConfiguration()
+    .ReadFrom.Configuration(builder.Configuration)
+    .WriteTo.Console()
+    .CreateLogger();
+
+builder.Host.UseSerilog();
+
+// Add services to the container
+builder.Services.AddControllers();
+builder.Services.AddEndpointsApiExplorer();
+
+// Configure Swagger with JWT support
+builder.Services.AddSwaggerGen(options =>
+{
+    options.SwaggerDoc("v1", new OpenApiInfo 
+    { 
+        Title = "Momentum Analytics API",
+        Version = "v1",
+        Description = "API for the Momentum health optimization platform",
+        Contact = new OpenApiContact
+        {
+            Name = "Momentum Team",
+            Email = "support@momentum.com"
+        }
+    });
+
+    // Add JWT Authentication to Swagger
+    options.AddSecurityDefinition("Bearer", new OpenApiSecurityScheme
+    {
+        Description = "JWT Authorization header using the Bearer scheme. Example: \"Authorization: Bearer {token}\"",
+        Name = "Authorization",
+        In = ParameterLocation.Header,
+        Type = SecuritySchemeType.ApiKey,
+        Scheme = "Bearer"
+    });
+
+    options.AddSecurityRequirement(new OpenApiSecurityRequirement
+    {
+        {
+            new OpenApiSecurityScheme
+            {
+                Reference = new OpenApiReference
+                {
+                    Type = ReferenceType.SecurityScheme,
+                    Id = "Bearer"
+                }
+            },
+            new string[] { }
+        }
+    });
+
+    // Include XML comments if available
+    var xmlFile = $"{System.Reflection.Assembly.GetExecutingAssembly().GetName().Name}.xml";
+    var xmlPath = Path.Combine(AppContext.BaseDirectory, xmlFile);
+    if (File.Exists(xmlPath))
+    {
+        options.IncludeXmlComments(xmlPath);
+    }
+});
+
+// Configure Database
+builder.Services.AddDbContext<ApplicationDbContext>(options =>
+    options.UseNpgsql(builder.Configuration.GetConnectionString("DefaultConnection")));
+
+// Configure JWT Authentication
+var jwtSettings = builder.Configuration.GetSection("JwtSettings");
+var secretKey = jwtSettings["SecretKey"];
+
+if (string.IsNullOrEmpty(secretKey))
+{
+    throw new InvalidOperationException("JWT SecretKey is not configured in appsettings.json");
+}
+
+builder.Services.AddAuthentication(options =>
+{
+    options.DefaultAuthenticateScheme = JwtBearerDefaults.AuthenticationScheme;
+    options.DefaultChallengeScheme = JwtBearerDefaults.AuthenticationScheme;
+    options.DefaultScheme = JwtBearerDefaults.AuthenticationScheme;
+})
+.AddJwtBearer(options =>
+{
+    options.TokenValidationParameters = new TokenValidationParameters
+    {
+        ValidateIssuerSigningKey = true,
+        IssuerSigningKey = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(secretKey)),
+        ValidateIssuer = true,
+        ValidIssuer = jwtSettings["Issuer"],
+        ValidateAudience = true,
+        ValidAudience = jwtSettings["Audience"],
+        ValidateLifetime = true,
+        ClockSkew = TimeSpan.Zero
+    };
+});
+
+builder.Services.AddAuthorization();
+
+// Configure CORS
+var corsOrigins = builder.Configuration.GetSection("Cors:AllowedOrigins").Get<string[]>() 
+    ?? new[] { "http://localhost:5173", "http://localhost:3000" };
+
+builder.Services.AddCors(options =>
+{
+    options.AddPolicy("AllowFrontend", policy =>
+    {
+        policy.WithOrigins(corsOrigins)
+              .AllowAnyMethod()
+              .AllowAnyHeader()
+              .AllowCredentials();
+    });
+});
+
+// Register application services
+builder.Services.AddScoped<ITokenService, TokenService>();
+builder.Services.AddScoped<IAuthService, AuthService>();
+builder.Services.AddScoped<ICheckinService, CheckinService>();
+builder.Services.AddScoped<ICustomMetricService, CustomMetricService>();
+
+// Add health checks
+builder.Services.AddHealthChecks()
+    .AddNpgSql(builder.Configuration.GetConnectionString("DefaultConnection")!);
+
+var app = builder.Build();
+
+// Run database migrations on startup
+try 
+{
+    using var scope = app.Services.CreateScope();
+    var context = scope.ServiceProvider.GetRequiredService<ApplicationDbContext>();
+    
+    // Test database connection first
+    app.Logger.LogInformation("Testing database connection...");
+    await context.Database.CanConnectAsync();
+    app.Logger.LogInformation("Database connection successful");
+    
+    // Run migrations
+    app.Logger.LogInformation("Running database migrations...");
+    await context.Database.MigrateAsync();
+    app.Logger.LogInformation("Database migrations completed successfully");
+}
+catch (Exception ex)
+{
+    app.Logger.LogError(ex, "Database setup failed: {Message}", ex.Message);
+    // Don't throw in production - let app start without DB for debugging
+    if (app.Environment.IsDevelopment())
+    {
+        throw;
+    }
+}
+
+// Configure the HTTP request pipeline
+
+// Global error handling middleware (should be first)
+app.UseMiddleware<ErrorHandlingMiddleware>();
+
+// Enable Swagger in all environments for now
+app.UseSwagger();
+app.UseSwaggerUI(options =>
+{
+    options.SwaggerEndpoint("/swagger/v1/swagger.json", "Momentum Analytics API v1");
+    options.RoutePrefix = "swagger"; // Serve Swagger at /swagger
+    options.DocumentTitle = "Momentum Analytics API";
+});
+
+// HTTPS redirection
+app.UseHttpsRedirection();
+
+// CORS must come before authentication and authorization
+app.UseCors("AllowFrontend");
+
+// Authentication and Authorization
+app.UseAuthentication();
+app.UseAuthorization();
+
+// Health checks endpoint
+app.MapHealthChecks("/health");
+
+// Map controllers
+app.MapControllers();
+
+// Log startup information
+app.Logger.LogInformation("Momentum Analytics API starting up...");
+app.Logger.LogInformation("Environment: {Environment}", app.Environment.EnvironmentName);
+app.Logger.LogInformation("CORS Origins: {Origins}", string.Join(", ", corsOrigins));
+
+try
+{
+    app.Run();
+}
+catch (Exception ex)
+{
+    app.Logger.LogCritical(ex, "Application terminated unexpectedly");
+    throw;
 }
\ No newline at end of file
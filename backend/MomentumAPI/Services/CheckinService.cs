@@ -1,4 +1,5 @@
 using Microsoft.EntityFrameworkCore;
+using System.Text.Json;
 using MomentumAPI.Data;
 using MomentumAPI.Models;
 using MomentumAPI.Models.DTOs;
@@ -242,6 +243,81 @@ namespace MomentumAPI.Services
             }
         }
 
+        /// <summary>
+        /// Retrieves check-ins for a user between two dates (inclusive)
+        /// </summary>
+        /// <param name="userId">ID of the user whose check-ins to retrieve</param>
+        /// <param name="startDate">First date of the range</param>
+        /// <param name="endDate">Last date of the range</param>
+        /// <returns>List of check-in responses ordered by date descending</returns>
+        public async Task<List<CheckinResponse>> GetCheckinsByDateRangeAsync(int userId, DateOnly startDate, DateOnly endDate)
+        {
+            try
+            {
+                // Validate range parameters
+                if (startDate > endDate)
+                {
+                    throw new ArgumentException("Start date must be on or before end date", nameof(startDate));
+                }
+
+                if (endDate.DayNumber - startDate.DayNumber > 366)
+                {
+                    throw new ArgumentException("Date range cannot exceed 366 days", nameof(endDate));
+                }
+
+                _logger.LogInformation("Retrieving check-ins for user {UserId} from {StartDate} to {EndDate}", userId, startDate, endDate);
+
+                var checkins = await _context.ManualCheckins
+                    .AsNoTracking()
+                    .Where(c => c.UserId == userId && c.Date >= startDate && c.Date <= endDate)
+                    .OrderByDescending(c => c.Date)
+                    .ThenByDescending(c => c.CreatedAt)
+                    .ToListAsync();
+
+                _logger.LogInformation("Found {Count} check-ins for user {UserId} from {StartDate} to {EndDate}", checkins.Count, userId, startDate, endDate);
+
+                return checkins.Select(MapToResponse).ToList();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving check-ins for user {UserId} from {StartDate} to {EndDate}", userId, startDate, endDate);
+                throw;
+            }
+        }
+
+        /// <summary>
+        /// Retrieves the user's earliest check-in, the lower bound when walking their full history
+        /// </summary>
+        /// <param name="userId">ID of the user whose check-in to retrieve</param>
+        /// <returns>Check-in response with the earliest date if the user has any, null otherwise</returns>
+        public async Task<CheckinResponse?> GetFirstCheckinAsync(int userId)
+        {
+            try
+            {
+                _logger.LogInformation("Retrieving first check-in for user {UserId}", userId);
+
+                var checkin = await _context.ManualCheckins
+                    .AsNoTracking()
+                    .Where(c => c.UserId == userId)
+                    .OrderBy(c => c.Date)
+                    .ThenBy(c => c.CreatedAt)
+                    .FirstOrDefaultAsync();
+
+                if (checkin == null)
+                {
+                    _logger.LogInformation("No check-ins found for user {UserId}", userId);
+                    return null;
+                }
+
+                return MapToResponse(checkin);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving first check-in for user {UserId}", userId);
+                throw;
+            }
+        }
+
         /// <summary>
         /// Updates an existing check-in with new data
         /// </summary>
@@ -340,6 +416,13 @@ namespace MomentumAPI.Services
             checkin.DeepWorkHours = request.DeepWorkHours;
             checkin.ProductivityRating = request.ProductivityRating;
             checkin.Notes = request.Notes;
+            checkin.CustomValues = request.CustomValues is { Count: > 0 }
+                ? JsonSerializer.Serialize(request.CustomValues)
+                : null;
+            checkin.Tags = request.Tags?
+                .Select(tag => tag.Trim().ToLowerInvariant())
+                .Distinct()
+                .ToList() ?? new List<string>();
         }
 
         /// <summary>
@@ -372,6 +455,10 @@ namespace MomentumAPI.Services
                 DeepWorkHours = checkin.DeepWorkHours,
                 ProductivityRating = checkin.ProductivityRating,
                 Notes = checkin.Notes,
+                CustomValues = string.IsNullOrEmpty(checkin.CustomValues)
+                    ? new Dictionary<string, JsonElement>()
+                    : JsonSerializer.Deserialize<Dictionary<string, JsonElement>>(checkin.CustomValues) ?? new(),
+                Tags = checkin.Tags,
                 CreatedAt = checkin.CreatedAt,
                 UpdatedAt = checkin.UpdatedAt
             };
@@ -0,0 +1,299 @@
+using Microsoft.EntityFrameworkCore;
+using System.Text.Json;
+using MomentumAPI.Data;
+using MomentumAPI.Models;
+using MomentumAPI.Models.DTOs;
+
+namespace MomentumAPI.Services
+{
+    /// <summary>
+    /// Service for user-defined check-in metrics, the definitions every device validates and labels custom values with
+    /// </summary>
+    public class CustomMetricService : ICustomMetricService
+    {
+        private const int ScaleMin = 1;
+        private const int ScaleMax = 10;
+        private const int MaxOptionLength = 100;
+
+        private readonly ApplicationDbContext _context;
+        private readonly ILogger<CustomMetricService> _logger;
+
+        public CustomMetricService(ApplicationDbContext context, ILogger<CustomMetricService> logger)
+        {
+            _context = context;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Retrieves all custom metrics of a user
+        /// </summary>
+        /// <param name="userId">ID of the user whose metrics to retrieve</param>
+        /// <returns>List of custom metrics ordered by creation time</returns>
+        public async Task<List<CustomMetricResponse>> GetMetricsAsync(int userId)
+        {
+            try
+            {
+                var metrics = await _context.CustomMetrics
+                    .AsNoTracking()
+                    .Where(m => m.UserId == userId)
+                    .OrderBy(m => m.CreatedAt)
+                    .ToListAsync();
+
+                return metrics.Select(MapToResponse).ToList();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving custom metrics for user {UserId}", userId);
+                throw;
+            }
+        }
+
+        /// <summary>
+        /// Creates a custom metric
+        /// </summary>
+        /// <param name="userId">ID of the user creating the metric</param>
+        /// <param name="request">Metric definition to create</param>
+        /// <returns>The created metric response</returns>
+        public async Task<CustomMetricResponse> CreateMetricAsync(int userId, CustomMetricRequest request)
+        {
+            try
+            {
+                var id = string.IsNullOrEmpty(request.Id) ? Guid.NewGuid().ToString("N") : request.Id;
+                if (await _context.CustomMetrics.AnyAsync(m => m.UserId == userId && m.Id == id))
+                {
+                    throw new ArgumentException($"A metric with id {id} already exists", nameof(request));
+                }
+
+                await EnsureNameIsFreeAsync(userId, request.Name, null);
+
+                var metric = new CustomMetric
+                {
+                    Id = id,
+                    UserId = userId,
+                    CreatedAt = DateTime.UtcNow,
+                    UpdatedAt = DateTime.UtcNow
+                };
+                UpdateMetricFromRequest(metric, request);
+
+                _context.CustomMetrics.Add(metric);
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("Created custom metric {MetricId} for user {UserId}", metric.Id, userId);
+                return MapToResponse(metric);
+            }
+            catch (Exception ex) when (ex is not ArgumentException)
+            {
+                _logger.LogError(ex, "Error creating custom metric for user {UserId}", userId);
+                throw;
+            }
+        }
+
+        /// <summary>
+        /// Updates a custom metric, keeping its id so values on check-ins still match it
+        /// </summary>
+        /// <param name="userId">ID of the user who owns the metric (security check)</param>
+        /// <param name="id">ID of the metric to update</param>
+        /// <param name="request">Updated metric definition</param>
+        /// <returns>Updated metric response if found and user owns it, null otherwise</returns>
+        public async Task<CustomMetricResponse?> UpdateMetricAsync(int userId, string id, CustomMetricRequest request)
+        {
+            try
+            {
+                var metric = await _context.CustomMetrics
+                    .FirstOrDefaultAsync(m => m.UserId == userId && m.Id == id);
+
+                if (metric == null)
+                {
+                    _logger.LogWarning("Custom metric {MetricId} not found for user {UserId}", id, userId);
+                    return null;
+                }
+
+                // Values already saved on check-ins were recorded for the old type
+                if (request.Type != metric.Type)
+                {
+                    throw new ArgumentException("A metric's type cannot be changed", nameof(request));
+                }
+
+                await EnsureNameIsFreeAsync(userId, request.Name, id);
+                UpdateMetricFromRequest(metric, request);
+                metric.UpdatedAt = DateTime.UtcNow;
+
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("Updated custom metric {MetricId} for user {UserId}", id, userId);
+                return MapToResponse(metric);
+            }
+            catch (Exception ex) when (ex is not ArgumentException)
+            {
+                _logger.LogError(ex, "Error updating custom metric {MetricId} for user {UserId}", id, userId);
+                throw;
+            }
+        }
+
+        /// <summary>
+        /// Deletes a custom metric; values already saved on check-ins are kept
+        /// </summary>
+        /// <param name="userId">ID of the user who owns the metric (security check)</param>
+        /// <param name="id">ID of the metric to delete</param>
+        /// <returns>True if successfully deleted, false if not found or user doesn't own it</returns>
+        public async Task<bool> DeleteMetricAsync(int userId, string id)
+        {
+            try
+            {
+                var metric = await _context.CustomMetrics
+                    .FirstOrDefaultAsync(m => m.UserId == userId && m.Id == id);
+
+                if (metric == null)
+                {
+                    _logger.LogWarning("Custom metric {MetricId} not found for user {UserId}", id, userId);
+                    return false;
+                }
+
+                _context.CustomMetrics.Remove(metric);
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("Deleted custom metric {MetricId} for user {UserId}", id, userId);
+                return true;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error deleting custom metric {MetricId} for user {UserId}", id, userId);
+                throw;
+            }
+        }
+
+        /// <summary>
+        /// Checks custom values against the user's metric definitions; values of deleted metrics are left alone
+        /// </summary>
+        /// <param name="userId">ID of the user who owns the metrics</param>
+        /// <param name="values">Custom values keyed by metric id</param>
+        /// <returns>Error message per metric id whose value does not fit its definition</returns>
+        public async Task<Dictionary<string, string>> ValidateCustomValuesAsync(int userId, Dictionary<string, JsonElement>? values)
+        {
+            var errors = new Dictionary<string, string>();
+            if (values is not { Count: > 0 }) return errors;
+
+            var ids = values.Keys.ToList();
+            var metrics = await _context.CustomMetrics
+                .AsNoTracking()
+                .Where(m => m.UserId == userId && ids.Contains(m.Id))
+                .ToListAsync();
+
+            foreach (var metric in metrics)
+            {
+                var error = ValidateValue(metric, values[metric.Id]);
+                if (error != null) errors[metric.Id] = error;
+            }
+
+            return errors;
+        }
+
+        /// <summary>
+        /// Error message for a value that does not fit its metric, or null when it is valid
+        /// </summary>
+        private static string? ValidateValue(CustomMetric metric, JsonElement value)
+        {
+            switch (metric.Type)
+            {
+                case "number":
+                    if (value.ValueKind != JsonValueKind.Number || !value.TryGetDecimal(out var number))
+                        return $"{metric.Name} must be a number";
+                    if (metric.Min.HasValue && number < metric.Min.Value)
+                        return $"{metric.Name} must be at least {metric.Min.Value}";
+                    if (metric.Max.HasValue && number > metric.Max.Value)
+                        return $"{metric.Name} cannot exceed {metric.Max.Value}";
+                    return null;
+                case "scale":
+                    return value.ValueKind == JsonValueKind.Number && value.TryGetInt32(out var rating) &&
+                           rating >= ScaleMin && rating <= ScaleMax
+                        ? null
+                        : $"{metric.Name} must be between {ScaleMin} and {ScaleMax}";
+                case "boolean":
+                    return value.ValueKind is JsonValueKind.True or JsonValueKind.False
+                        ? null
+                        : $"{metric.Name} must be yes or no";
+                case "select":
+                    return value.ValueKind == JsonValueKind.String && metric.Options.Contains(value.GetString()!)
+                        ? null
+                        : $"{metric.Name} must be one of: {string.Join(", ", metric.Options)}";
+                default:
+                    return null;
+            }
+        }
+
+        /// <summary>
+        /// Throws when another metric of the user already has this name (case-insensitive)
+        /// </summary>
+        private async Task EnsureNameIsFreeAsync(int userId, string name, string? exceptId)
+        {
+            var normalized = name.Trim().ToLower();
+            var taken = await _context.CustomMetrics
+                .AnyAsync(m => m.UserId == userId && m.Id != exceptId && m.Name.ToLower() == normalized);
+
+            if (taken)
+            {
+                throw new ArgumentException($"You already have a metric called {name.Trim()}", nameof(name));
+            }
+        }
+
+        /// <summary>
+        /// Updates a CustomMetric entity from a request, dropping settings that don't apply to its type
+        /// </summary>
+        /// <param name="metric">The metric entity to update</param>
+        /// <param name="request">The request data to update from</param>
+        /// <exception cref="ArgumentException">Thrown when the range or choices are invalid</exception>
+        private static void UpdateMetricFromRequest(CustomMetric metric, CustomMetricRequest request)
+        {
+            var isNumber = request.Type == "number";
+            var options = request.Type == "select"
+                ? (request.Options ?? new List<string>())
+                    .Select(option => option.Trim())
+                    .Where(option => option.Length > 0)
+                    .Distinct()
+                    .ToList()
+                : new List<string>();
+
+            if (isNumber && request.Min.HasValue && request.Max.HasValue && request.Min > request.Max)
+            {
+                throw new ArgumentException("Minimum must not be above maximum", nameof(request));
+            }
+
+            if (request.Type == "select" && options.Count < 2)
+            {
+                throw new ArgumentException("Enter at least two choices", nameof(request));
+            }
+
+            if (options.Any(option => option.Length > MaxOptionLength))
+            {
+                throw new ArgumentException($"Choices cannot exceed {MaxOptionLength} characters", nameof(request));
+            }
+
+            metric.Name = request.Name.Trim();
+            metric.Type = request.Type;
+            metric.Unit = isNumber && !string.IsNullOrWhiteSpace(request.Unit) ? request.Unit.Trim() : null;
+            metric.Min = isNumber ? request.Min : null;
+            metric.Max = isNumber ? request.Max : null;
+            metric.Options = options;
+        }
+
+        /// <summary>
+        /// Maps a CustomMetric entity to a CustomMetricResponse DTO
+        /// </summary>
+        /// <param name="metric">The metric entity to map</param>
+        /// <returns>Mapped CustomMetricResponse DTO</returns>
+        private static CustomMetricResponse MapToResponse(CustomMetric metric)
+        {
+            return new CustomMetricResponse
+            {
+                Id = metric.Id,
+                Name = metric.Name,
+                Type = metric.Type,
+                Unit = metric.Unit,
+                Min = metric.Min,
+                Max = metric.Max,
+                Options = metric.Options.Count > 0 ? metric.Options : null,
+                CreatedAt = metric.CreatedAt
+            };
+        }
+    }
+}
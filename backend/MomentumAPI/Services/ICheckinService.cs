@@ -55,6 +55,22 @@ namespace MomentumAPI.Services
         /// <returns>List of check-in responses ordered by date descending</returns>
         Task<List<CheckinResponse>> GetRecentCheckinsAsync(int userId, int days = 7);
 
+        /// <summary>
+        /// Retrieves check-ins for a user between two dates (inclusive)
+        /// </summary>
+        /// <param name="userId">ID of the user whose check-ins to retrieve</param>
+        /// <param name="startDate">First date of the range</param>
+        /// <param name="endDate">Last date of the range</param>
+        /// <returns>List of check-in responses ordered by date descending</returns>
+        Task<List<CheckinResponse>> GetCheckinsByDateRangeAsync(int userId, DateOnly startDate, DateOnly endDate);
+
+        /// <summary>
+        /// Retrieves the user's earliest check-in, the lower bound when walking their full history
+        /// </summary>
+        /// <param name="userId">ID of the user whose check-in to retrieve</param>
+        /// <returns>Check-in response with the earliest date if the user has any, null otherwise</returns>
+        Task<CheckinResponse?> GetFirstCheckinAsync(int userId);
+
         /// <summary>
         /// Updates an existing check-in with new data
         /// </summary>
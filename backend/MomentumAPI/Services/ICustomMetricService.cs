@@ -0,0 +1,53 @@
+using System.Text.Json;
+using MomentumAPI.Models.DTOs;
+
+namespace MomentumAPI.Services
+{
+    /// <summary>
+    /// Service interface for user-defined check-in metrics and validating their values
+    /// </summary>
+    public interface ICustomMetricService
+    {
+        /// <summary>
+        /// Retrieves all custom metrics of a user
+        /// </summary>
+        /// <param name="userId">ID of the user whose metrics to retrieve</param>
+        /// <returns>List of custom metrics ordered by creation time</returns>
+        Task<List<CustomMetricResponse>> GetMetricsAsync(int userId);
+
+        /// <summary>
+        /// Creates a custom metric
+        /// </summary>
+        /// <param name="userId">ID of the user creating the metric</param>
+        /// <param name="request">Metric definition to create</param>
+        /// <returns>The created metric response</returns>
+        /// <exception cref="ArgumentException">Thrown when the definition is invalid or the name or id is taken</exception>
+        Task<CustomMetricResponse> CreateMetricAsync(int userId, CustomMetricRequest request);
+
+        /// <summary>
+        /// Updates a custom metric, keeping its id so values on check-ins still match it
+        /// </summary>
+        /// <param name="userId">ID of the user who owns the metric (security check)</param>
+        /// <param name="id">ID of the metric to update</param>
+        /// <param name="request">Updated metric definition</param>
+        /// <returns>Updated metric response if found and user owns it, null otherwise</returns>
+        /// <exception cref="ArgumentException">Thrown when the definition is invalid or the name is taken</exception>
+        Task<CustomMetricResponse?> UpdateMetricAsync(int userId, string id, CustomMetricRequest request);
+
+        /// <summary>
+        /// Deletes a custom metric; values already saved on check-ins are kept
+        /// </summary>
+        /// <param name="userId">ID of the user who owns the metric (security check)</param>
+        /// <param name="id">ID of the metric to delete</param>
+        /// <returns>True if successfully deleted, false if not found or user doesn't own it</returns>
+        Task<bool> DeleteMetricAsync(int userId, string id);
+
+        /// <summary>
+        /// Checks custom values against the user's metric definitions; values of deleted metrics are left alone
+        /// </summary>
+        /// <param name="userId">ID of the user who owns the metrics</param>
+        /// <param name="values">Custom values keyed by metric id</param>
+        /// <returns>Error message per metric id whose value does not fit its definition</returns>
+        Task<Dictionary<string, string>> ValidateCustomValuesAsync(int userId, Dictionary<string, JsonElement>? values);
+    }
+}
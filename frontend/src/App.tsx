@@ -1,53 +1,141 @@
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { QueryClientProvider } from "@tanstack/react-query";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
 import Dashboard from "./pages/Dashboard";
 import Analytics from "./pages/Analytics";
+import Correlations from "./pages/Correlations";
+import Compare from "./pages/Compare";
+import Reports from "./pages/Reports";
 import CheckinForm from "./components/CheckinForm";
 import CheckinEditPage from "./components/CheckinEditPage";
+import ImportCheckins from "./pages/ImportCheckins";
+import Goals from "./pages/Goals";
+import CustomMetrics from "./pages/CustomMetrics";
+import History from "./pages/History";
+import Experiments from "./pages/Experiments";
+import ExperimentResults from "./pages/ExperimentResults";
 import { ProtectedRoute } from "./components/layout/ProtectedRoute";
+import { AuthProvider } from "./context/AuthProvider";
+import { queryClient } from "./services/queryClient";
 
 function App() {
   return (
-    <BrowserRouter>
-      <Routes>
-        <Route path="/login" element={<Login />} />
-        <Route path="/register" element={<Register />} />
-        <Route
-          path="/dashboard"
-          element={
-            <ProtectedRoute>
-              <Dashboard />
-            </ProtectedRoute>
-          }
-        />
-        <Route
-          path="/analytics"
-          element={
-            <ProtectedRoute>
-              <Analytics />
-            </ProtectedRoute>
-          }
-        />
-        <Route
-          path="/checkin"
-          element={
-            <ProtectedRoute>
-              <CheckinForm />
-            </ProtectedRoute>
-          }
-        />
-        <Route
-          path="/checkin/:id"
-          element={
-            <ProtectedRoute>
-              <CheckinEditPage />
-            </ProtectedRoute>
-          }
-        />
-        <Route path="/" element={<Navigate to="/login" replace />} />
-      </Routes>
-    </BrowserRouter>
+    <QueryClientProvider client={queryClient}>
+      <AuthProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/login" element={<Login />} />
+            <Route path="/register" element={<Register />} />
+            <Route
+              path="/dashboard"
+              element={
+                <ProtectedRoute>
+                  <Dashboard />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/analytics"
+              element={
+                <ProtectedRoute>
+                  <Analytics />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/analytics/correlations"
+              element={
+                <ProtectedRoute>
+                  <Correlations />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/analytics/compare"
+              element={
+                <ProtectedRoute>
+                  <Compare />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/history"
+              element={
+                <ProtectedRoute>
+                  <History />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/experiments"
+              element={
+                <ProtectedRoute>
+                  <Experiments />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/experiments/:id"
+              element={
+                <ProtectedRoute>
+                  <ExperimentResults />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/goals"
+              element={
+                <ProtectedRoute>
+                  <Goals />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/metrics"
+              element={
+                <ProtectedRoute>
+                  <CustomMetrics />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/checkin"
+              element={
+                <ProtectedRoute>
+                  <CheckinForm />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/reports"
+              element={
+                <ProtectedRoute>
+                  <Reports />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/checkin/import"
+              element={
+                <ProtectedRoute>
+                  <ImportCheckins />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/checkin/:id"
+              element={
+                <ProtectedRoute>
+                  <CheckinEditPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route path="/" element={<Navigate to="/login" replace />} />
+          </Routes>
+        </BrowserRouter>
+      </AuthProvider>
+    </QueryClientProvider>
   );
 }
 
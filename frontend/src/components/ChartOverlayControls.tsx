@@ -0,0 +1,53 @@
+import React from 'react';
+import { ROLLING_WINDOWS } from '../utils/smoothing';
+import type { ChartOverlays, RollingWindow } from '../utils/smoothing';
+
+interface ChartOverlayControlsProps {
+  overlays: ChartOverlays;
+  onChange: (overlays: ChartOverlays) => void;
+}
+
+const ChartOverlayControls: React.FC<ChartOverlayControlsProps> = ({ overlays, onChange }) => {
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg px-6 py-4 flex flex-col md:flex-row md:items-center gap-4">
+      <span className="text-white font-medium">Chart overlays</span>
+
+      <label className="flex items-center gap-2 text-gray-300 text-sm">
+        Rolling average
+        <select
+          value={overlays.rollingWindow}
+          onChange={(e) => onChange({ ...overlays, rollingWindow: parseInt(e.target.value) as RollingWindow })}
+          className="bg-slate-800 border border-slate-600 text-white rounded-md px-2 py-1 text-sm"
+        >
+          {ROLLING_WINDOWS.map(window => (
+            <option key={window.value} value={window.value}>{window.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2 text-gray-300 text-sm">
+        <input
+          type="checkbox"
+          checked={overlays.smoothing}
+          onChange={(e) => onChange({ ...overlays, smoothing: e.target.checked })}
+        />
+        Exponential smoothing
+      </label>
+
+      <label className="flex items-center gap-2 text-gray-300 text-sm">
+        <input
+          type="checkbox"
+          checked={overlays.trendline}
+          onChange={(e) => onChange({ ...overlays, trendline: e.target.checked })}
+        />
+        Trendline
+      </label>
+
+      <span className="text-gray-500 text-xs md:ml-auto">
+        Thick lines: rolling average · dotted: smoothed · dashed: trend
+      </span>
+    </div>
+  );
+};
+
+export default ChartOverlayControls;
@@ -25,7 +25,8 @@ const CheckinEditPage: React.FC = () => {
     );
   }
 
-  return <CheckinForm checkinId={checkinId} />;
+  // Keyed so moving to another check-in starts a fresh form
+  return <CheckinForm key={checkinId} checkinId={checkinId} />;
 };
 
 export default CheckinEditPage;
\ No newline at end of file
@@ -1,8 +1,25 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import CheckinService from '../services/checkinService';
-import type { CheckinRequest, CheckinResponse } from '../types/checkin';
+import SyncService from '../services/syncService';
+import { checkinQueries, useCreateCheckin, useUpdateCheckin } from '../services/checkinQueries';
+import { ApiError, ValidationError } from '../services/apiErrors';
+import type { FieldErrors } from '../services/apiErrors';
+import type { CheckinRequest } from '../types/checkin';
+import type { NumericCheckinField } from '../types/checkin';
 import { MOOD_OPTIONS, EXERCISE_TYPES } from '../types/checkin';
+import type { CustomMetricValue } from '../types/customMetric';
+import type { SyncOrigin } from '../types/sync';
+import { useCustomMetrics } from '../services/customMetricQueries';
+import { draftStorage } from '../utils/draftStorage';
+import { getTagCounts } from '../utils/customMetrics';
+import MetricInput from './MetricInput';
+import CustomMetricInput from './CustomMetricInput';
+import TagInput from './TagInput';
+
+// How far back to look for previously used tags to suggest
+const TAG_SUGGESTION_DAYS = 90;
 
 interface CheckinFormProps {
   checkinId?: number; // Optional: for editing existing check-ins
@@ -12,13 +29,18 @@ interface CheckinFormProps {
 const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
-  const [existingCheckins, setExistingCheckins] = useState<CheckinResponse[]>([]);
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({}); // Server validation, shown next to each input
   const [isEditing, setIsEditing] = useState(!!checkinId);
+  const [baseUpdatedAt, setBaseUpdatedAt] = useState<string | undefined>(); // Server version being edited
+  const customMetrics = useCustomMetrics();
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null); // Set while showing a restored draft
+  const loadedForm = useRef<CheckinRequest | null>(null); // What the form was loaded with, so only real edits are drafted
+  const draftKey = checkinId ? `checkin:${checkinId}` : 'checkin:new';
 
   // Form data state
-  const [formData, setFormData] = useState<CheckinRequest>(
+  const [emptyForm] = useState<CheckinRequest>(() =>
     initialData || {
       date: new Date().toISOString().split('T')[0], // Today's date
       sleepHours: undefined,
@@ -38,57 +60,99 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
       screenTimeBeforeBed: undefined,
       deepWorkHours: undefined,
       productivityRating: undefined,
-      notes: ''
+      notes: '',
+      customValues: {},
+      tags: []
     }
   );
+  const [formData, setFormData] = useState<CheckinRequest>(emptyForm);
+
+  // Today's check-ins give context when creating; the check-in itself is needed when editing
+  const today = new Date().toISOString().split('T')[0];
+  const existingQuery = useQuery({ ...checkinQueries.detail(checkinId ?? 0), enabled: !!checkinId });
+  const todaysQuery = useQuery({ ...checkinQueries.byDate(today), enabled: !checkinId });
+  const existingCheckin = existingQuery.data;
+  const existingCheckins = todaysQuery.data ?? [];
+  const loadError = existingQuery.isError || todaysQuery.isError ? 'Failed to load check-in data' : '';
+
+  // Suggestions only, so a failed lookup is not worth an error message
+  const tagStart = new Date(Date.now() - TAG_SUGGESTION_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const { data: recentCheckins } = useQuery(checkinQueries.range(tagStart, today));
+  const tagSuggestions = useMemo(
+    () => getTagCounts(recentCheckins ?? []).map(({ tag }) => tag),
+    [recentCheckins]
+  );
+
+  const createCheckin = useCreateCheckin();
+  const updateCheckin = useUpdateCheckin();
 
-  // Fetch today's check-ins and existing data for editing
+  // Load the form once, so background refetches don't overwrite what is being typed
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        if (checkinId) {
-          // If editing, fetch the specific check-in
-          const existingCheckin = await CheckinService.getCheckinById(checkinId);
-          setFormData({
-            date: existingCheckin.date,
-            sleepHours: existingCheckin.sleepHours,
-            sleepQuality: existingCheckin.sleepQuality,
-            sleepNotes: existingCheckin.sleepNotes,
-            energyMorning: existingCheckin.energyMorning,
-            energyAfternoon: existingCheckin.energyAfternoon,
-            energyEvening: existingCheckin.energyEvening,
-            mood: existingCheckin.mood,
-            stressLevel: existingCheckin.stressLevel,
-            exerciseType: existingCheckin.exerciseType,
-            exerciseDuration: existingCheckin.exerciseDuration,
-            exerciseIntensity: existingCheckin.exerciseIntensity,
-            caffeineMg: existingCheckin.caffeineMg,
-            waterGlasses: existingCheckin.waterGlasses,
-            ateBreakfast: existingCheckin.ateBreakfast,
-            screenTimeBeforeBed: existingCheckin.screenTimeBeforeBed,
-            deepWorkHours: existingCheckin.deepWorkHours,
-            productivityRating: existingCheckin.productivityRating,
-            notes: existingCheckin.notes
-          });
-        } else {
-          // If creating new, fetch today's existing check-ins for context
-          const today = new Date().toISOString().split('T')[0];
-          const todaysCheckins = await CheckinService.getCheckinsByDate(today);
-          setExistingCheckins(todaysCheckins);
-        }
-      } catch (error) {
-        console.error('Error fetching check-in data:', error);
-        setError('Failed to load check-in data');
-      }
-    };
+    if (loadedForm.current !== null || (checkinId && !existingCheckin)) return;
+
+    const data: CheckinRequest = existingCheckin ? {
+      date: existingCheckin.date,
+      sleepHours: existingCheckin.sleepHours,
+      sleepQuality: existingCheckin.sleepQuality,
+      sleepNotes: existingCheckin.sleepNotes,
+      energyMorning: existingCheckin.energyMorning,
+      energyAfternoon: existingCheckin.energyAfternoon,
+      energyEvening: existingCheckin.energyEvening,
+      mood: existingCheckin.mood,
+      stressLevel: existingCheckin.stressLevel,
+      exerciseType: existingCheckin.exerciseType,
+      exerciseDuration: existingCheckin.exerciseDuration,
+      exerciseIntensity: existingCheckin.exerciseIntensity,
+      caffeineMg: existingCheckin.caffeineMg,
+      waterGlasses: existingCheckin.waterGlasses,
+      ateBreakfast: existingCheckin.ateBreakfast,
+      screenTimeBeforeBed: existingCheckin.screenTimeBeforeBed,
+      deepWorkHours: existingCheckin.deepWorkHours,
+      productivityRating: existingCheckin.productivityRating,
+      notes: existingCheckin.notes,
+      customValues: existingCheckin.customValues || {},
+      tags: existingCheckin.tags || []
+    } : emptyForm;
+    setBaseUpdatedAt(existingCheckin?.updatedAt);
+
+    // A draft left by an expired session or an abandoned edit wins over the loaded data. A new
+    // check-in draft can be days old, so it keeps today's date rather than the one it was started on.
+    const draft = draftStorage.getDraft<CheckinRequest>(draftKey);
+    const restored = draft && !checkinId ? { ...draft.data, date: data.date } : draft?.data;
+    loadedForm.current = data;
+    setFormData(restored ?? data);
+    setDraftSavedAt(draft ? draft.savedAt : null);
+  }, [checkinId, draftKey, emptyForm, existingCheckin]);
+
+  // Keep unsaved changes on this device until they are submitted or discarded
+  useEffect(() => {
+    if (loadedForm.current === null || formData === loadedForm.current) return;
+    draftStorage.saveDraft(draftKey, formData);
+  }, [draftKey, formData]);
+
+  const discardDraft = () => {
+    draftStorage.clearDraft(draftKey);
+    if (loadedForm.current) setFormData(loadedForm.current);
+    setDraftSavedAt(null);
+  };
+
+  const clearFieldError = (field: string) => {
+    setFieldErrors(prev => {
+      if (!prev[field]) return prev;
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+  };
 
-    fetchData();
-  }, [checkinId]);
+  const renderFieldError = (field: string) =>
+    fieldErrors[field] && <p className="mt-2 text-sm text-red-400">{fieldErrors[field][0]}</p>;
 
   const handleInputChange = (field: keyof CheckinRequest) => (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
     const { value, type } = e.target;
+    clearFieldError(field);
     
     setFormData(prev => ({
       ...prev,
@@ -98,14 +162,24 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
     }));
   };
 
-  const handleSliderChange = (field: keyof CheckinRequest) => (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = Number(e.target.value);
+  const handleMetricChange = (field: NumericCheckinField) => (value: number | undefined) => {
+    clearFieldError(field);
     setFormData(prev => ({
       ...prev,
       [field]: value
     }));
   };
 
+  const handleCustomValueChange = (metricId: string) => (value: CustomMetricValue | undefined) => {
+    clearFieldError('customValues');
+    setFormData(prev => {
+      const customValues = { ...prev.customValues };
+      if (value === undefined) delete customValues[metricId];
+      else customValues[metricId] = value;
+      return { ...prev, customValues };
+    });
+  };
+
   // Clean form data - remove undefined/null values and default slider values that weren't set
   const cleanFormData = (data: CheckinRequest): CheckinRequest => {
     const cleaned: any = { date: data.date }; // Always include date
@@ -131,6 +205,10 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
           cleaned[key] = value;
         } else if (typeof value === 'string' && value.trim() !== '') {
           cleaned[key] = value;
+        } else if (Array.isArray(value)) {
+          if (value.length > 0) cleaned[key] = value; // Tags
+        } else if (typeof value === 'object' && Object.keys(value).length > 0) {
+          cleaned[key] = value; // Custom values
         }
       }
     });
@@ -138,11 +216,27 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
     return cleaned as CheckinRequest;
   };
 
+  // Save to the offline sync queue, replayed automatically once back online
+  const queueOfflineCheckin = async (data: CheckinRequest, origin: SyncOrigin) => {
+    if (isEditing && checkinId) {
+      await SyncService.enqueueUpdate(checkinId, data, baseUpdatedAt);
+    } else {
+      await SyncService.enqueueCreate(data, origin);
+    }
+    draftStorage.clearDraft(draftKey);
+    setSuccess("You're offline. Check-in saved on this device and will sync when you reconnect.");
+
+    setTimeout(() => {
+      navigate('/dashboard');
+    }, 2000);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError('');
     setSuccess('');
+    setFieldErrors({});
 
     try {
       // Clean the form data to remove default/empty values
@@ -155,14 +249,27 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
         return;
       }
 
+      if (!navigator.onLine) {
+        await queueOfflineCheckin(cleanedData, 'offline');
+        return;
+      }
+
       // Submit or update the check-in
-      if (isEditing && checkinId) {
-        await CheckinService.updateCheckin(checkinId, cleanedData);
-        setSuccess('Check-in updated successfully!');
-      } else {
-        await CheckinService.createCheckin(cleanedData);
-        setSuccess('Check-in submitted successfully!');
+      try {
+        if (isEditing && checkinId) {
+          await updateCheckin.mutateAsync({ id: checkinId, data: cleanedData });
+          setSuccess('Check-in updated successfully!');
+        } else {
+          await createCheckin.mutateAsync(cleanedData);
+          setSuccess('Check-in submitted successfully!');
+        }
+      } catch (submitError) {
+        // Keep what was typed if the request never reached the server
+        if (!SyncService.isNetworkError(submitError)) throw submitError;
+        await queueOfflineCheckin(cleanedData, 'failedSubmit');
+        return;
       }
+      draftStorage.clearDraft(draftKey);
       
       // Redirect to dashboard after 2 seconds
       setTimeout(() => {
@@ -170,7 +277,16 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
       }, 2000);
     } catch (error) {
       console.error('Error submitting check-in:', error);
-      setError('Failed to submit check-in. Please try again.');
+      if (error instanceof ValidationError && Object.keys(error.fieldErrors).length > 0) {
+        // Fields without an input of their own, like the date, can only go in the banner
+        const unplaced = Object.keys(error.fieldErrors).filter(field => field === 'date' || !(field in emptyForm));
+        setFieldErrors(error.fieldErrors);
+        setError(unplaced.length > 0
+          ? unplaced.map(field => error.fieldErrors[field][0]).join('. ')
+          : 'Some values were not accepted. See the messages below.');
+      } else {
+        setError(error instanceof ApiError ? error.message : 'Failed to submit check-in. Please try again.');
+      }
     } finally {
       setLoading(false);
     }
@@ -229,11 +345,11 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
           </div>
         )}
 
-        {error && (
+        {(error || loadError) && (
           <div className="mb-6 bg-red-900/20 border border-red-700 text-red-300 px-6 py-4 rounded-xl">
             <div className="flex items-center">
               <span className="text-red-400 mr-3">⚠</span>
-              {error}
+              {error || loadError}
             </div>
           </div>
         )}
@@ -247,6 +363,19 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
           </div>
         )}
 
+        {draftSavedAt && (
+          <div className="mb-6 bg-blue-600/20 border border-blue-500/30 text-blue-200 px-6 py-4 rounded-xl flex items-center justify-between gap-4">
+            <span>Restored your unsaved changes from {new Date(draftSavedAt).toLocaleString()}.</span>
+            <button
+              type="button"
+              onClick={discardDraft}
+              className="text-blue-300 hover:text-white text-sm font-medium transition-colors shrink-0"
+            >
+              Discard draft
+            </button>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-8">
           {/* Sleep Section */}
           <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-8">
@@ -255,40 +384,8 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
               Sleep
             </h2>
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Sleep Hours
-                </label>
-                <input
-                  type="number"
-                  step="0.5"
-                  min="0"
-                  max="24"
-                  value={formData.sleepHours || ''}
-                  onChange={handleInputChange('sleepHours')}
-                  className="w-full bg-slate-900/50 border border-slate-600/50 rounded-lg py-3 px-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all"
-                  placeholder="8.0"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Sleep Quality (1-10): <span className="text-blue-400 font-semibold">{formData.sleepQuality || 'Not set'}</span>
-                </label>
-                <div className="space-y-3">
-                  <input
-                    type="range"
-                    min="1"
-                    max="10"
-                    value={formData.sleepQuality || 1}
-                    onChange={handleSliderChange('sleepQuality')}
-                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer slider-blue"
-                  />
-                  <div className="flex justify-between text-xs text-slate-500">
-                    <span>Poor</span>
-                    <span>Excellent</span>
-                  </div>
-                </div>
-              </div>
+              <MetricInput metric="sleepHours" value={formData.sleepHours} onChange={handleMetricChange('sleepHours')} error={fieldErrors.sleepHours?.[0]} />
+              <MetricInput metric="sleepQuality" value={formData.sleepQuality} onChange={handleMetricChange('sleepQuality')} error={fieldErrors.sleepQuality?.[0]} />
               <div className="lg:col-span-2">
                 <label className="block text-sm font-medium text-slate-300 mb-3">
                   Sleep Notes
@@ -301,6 +398,7 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
                   placeholder="Any sleep-related observations..."
                   maxLength={500}
                 />
+                {renderFieldError('sleepNotes')}
               </div>
             </div>
           </div>
@@ -312,63 +410,9 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
               Energy Levels
             </h2>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Morning Energy: <span className="text-blue-400 font-semibold">{formData.energyMorning || 'Not set'}</span>
-                </label>
-                <div className="space-y-2">
-                  <input
-                    type="range"
-                    min="1"
-                    max="10"
-                    value={formData.energyMorning || 5}
-                    onChange={handleSliderChange('energyMorning')}
-                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer slider-blue"
-                  />
-                  <div className="flex justify-between text-xs text-slate-500">
-                    <span>1</span>
-                    <span>10</span>
-                  </div>
-                </div>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Afternoon Energy: <span className="text-blue-400 font-semibold">{formData.energyAfternoon || 'Not set'}</span>
-                </label>
-                <div className="space-y-2">
-                  <input
-                    type="range"
-                    min="1"
-                    max="10"
-                    value={formData.energyAfternoon || 5}
-                    onChange={handleSliderChange('energyAfternoon')}
-                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer slider-blue"
-                  />
-                  <div className="flex justify-between text-xs text-slate-500">
-                    <span>1</span>
-                    <span>10</span>
-                  </div>
-                </div>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Evening Energy: <span className="text-blue-400 font-semibold">{formData.energyEvening || 'Not set'}</span>
-                </label>
-                <div className="space-y-2">
-                  <input
-                    type="range"
-                    min="1"
-                    max="10"
-                    value={formData.energyEvening || 5}
-                    onChange={handleSliderChange('energyEvening')}
-                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer slider-blue"
-                  />
-                  <div className="flex justify-between text-xs text-slate-500">
-                    <span>1</span>
-                    <span>10</span>
-                  </div>
-                </div>
-              </div>
+              <MetricInput metric="energyMorning" value={formData.energyMorning} onChange={handleMetricChange('energyMorning')} error={fieldErrors.energyMorning?.[0]} />
+              <MetricInput metric="energyAfternoon" value={formData.energyAfternoon} onChange={handleMetricChange('energyAfternoon')} error={fieldErrors.energyAfternoon?.[0]} />
+              <MetricInput metric="energyEvening" value={formData.energyEvening} onChange={handleMetricChange('energyEvening')} error={fieldErrors.energyEvening?.[0]} />
             </div>
           </div>
 
@@ -395,26 +439,9 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
                     </option>
                   ))}
                 </select>
+                {renderFieldError('mood')}
               </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Stress Level: <span className="text-blue-400 font-semibold">{formData.stressLevel || 'Not set'}</span>
-                </label>
-                <div className="space-y-3">
-                  <input
-                    type="range"
-                    min="1"
-                    max="10"
-                    value={formData.stressLevel || 5}
-                    onChange={handleSliderChange('stressLevel')}
-                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer slider-blue"
-                  />
-                  <div className="flex justify-between text-xs text-slate-500">
-                    <span>Low</span>
-                    <span>High</span>
-                  </div>
-                </div>
-              </div>
+              <MetricInput metric="stressLevel" value={formData.stressLevel} onChange={handleMetricChange('stressLevel')} error={fieldErrors.stressLevel?.[0]} />
             </div>
           </div>
 
@@ -439,39 +466,10 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
                     <option key={type} value={type} className="bg-slate-800">{type}</option>
                   ))}
                 </select>
+                {renderFieldError('exerciseType')}
               </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Duration (minutes)
-                </label>
-                <input
-                  type="number"
-                  min="0"
-                  value={formData.exerciseDuration || ''}
-                  onChange={handleInputChange('exerciseDuration')}
-                  className="w-full bg-slate-900/50 border border-slate-600/50 rounded-lg py-3 px-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all"
-                  placeholder="30"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Intensity: <span className="text-blue-400 font-semibold">{formData.exerciseIntensity || 'Not set'}</span>
-                </label>
-                <div className="space-y-2">
-                  <input
-                    type="range"
-                    min="1"
-                    max="10"
-                    value={formData.exerciseIntensity || 5}
-                    onChange={handleSliderChange('exerciseIntensity')}
-                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer slider-blue"
-                  />
-                  <div className="flex justify-between text-xs text-slate-500">
-                    <span>1</span>
-                    <span>10</span>
-                  </div>
-                </div>
-              </div>
+              <MetricInput metric="exerciseDuration" value={formData.exerciseDuration} onChange={handleMetricChange('exerciseDuration')} error={fieldErrors.exerciseDuration?.[0]} />
+              <MetricInput metric="exerciseIntensity" value={formData.exerciseIntensity} onChange={handleMetricChange('exerciseIntensity')} error={fieldErrors.exerciseIntensity?.[0]} />
             </div>
           </div>
 
@@ -482,33 +480,9 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
               Nutrition & Habits
             </h2>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Water Glasses
-                </label>
-                <input
-                  type="number"
-                  min="0"
-                  value={formData.waterGlasses || ''}
-                  onChange={handleInputChange('waterGlasses')}
-                  className="w-full bg-slate-900/50 border border-slate-600/50 rounded-lg py-3 px-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all"
-                  placeholder="8"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Caffeine (mg)
-                </label>
-                <input
-                  type="number"
-                  min="0"
-                  value={formData.caffeineMg || ''}
-                  onChange={handleInputChange('caffeineMg')}
-                  className="w-full bg-slate-900/50 border border-slate-600/50 rounded-lg py-3 px-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all"
-                  placeholder="95"
-                />
-              </div>
-              <div className="flex items-center justify-center">
+              <MetricInput metric="waterGlasses" value={formData.waterGlasses} onChange={handleMetricChange('waterGlasses')} error={fieldErrors.waterGlasses?.[0]} />
+              <MetricInput metric="caffeineMg" value={formData.caffeineMg} onChange={handleMetricChange('caffeineMg')} error={fieldErrors.caffeineMg?.[0]} />
+              <div className="flex flex-col items-center justify-center">
                 <label className="flex items-center space-x-3 cursor-pointer">
                   <input
                     type="checkbox"
@@ -520,6 +494,7 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
                     Ate Breakfast
                   </span>
                 </label>
+                {renderFieldError('ateBreakfast')}
               </div>
             </div>
           </div>
@@ -531,54 +506,61 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
               Productivity
             </h2>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Deep Work Hours
-                </label>
-                <input
-                  type="number"
-                  step="0.5"
-                  min="0"
-                  max="24"
-                  value={formData.deepWorkHours || ''}
-                  onChange={handleInputChange('deepWorkHours')}
-                  className="w-full bg-slate-900/50 border border-slate-600/50 rounded-lg py-3 px-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all"
-                  placeholder="4.0"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Productivity Rating: <span className="text-blue-400 font-semibold">{formData.productivityRating || 'Not set'}</span>
-                </label>
-                <div className="space-y-2">
-                  <input
-                    type="range"
-                    min="1"
-                    max="10"
-                    value={formData.productivityRating || 5}
-                    onChange={handleSliderChange('productivityRating')}
-                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer slider-blue"
+              <MetricInput metric="deepWorkHours" value={formData.deepWorkHours} onChange={handleMetricChange('deepWorkHours')} error={fieldErrors.deepWorkHours?.[0]} />
+              <MetricInput metric="productivityRating" value={formData.productivityRating} onChange={handleMetricChange('productivityRating')} error={fieldErrors.productivityRating?.[0]} />
+              <MetricInput metric="screenTimeBeforeBed" value={formData.screenTimeBeforeBed} onChange={handleMetricChange('screenTimeBeforeBed')} error={fieldErrors.screenTimeBeforeBed?.[0]} />
+            </div>
+          </div>
+
+          {/* Custom Metrics Section */}
+          <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-8">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-white flex items-center">
+                <span className="text-2xl mr-3">🧩</span>
+                Custom Metrics
+              </h2>
+              <button
+                type="button"
+                onClick={() => navigate('/metrics')}
+                className="text-blue-400 hover:text-blue-300 text-sm font-medium transition-colors"
+              >
+                Manage
+              </button>
+            </div>
+            {customMetrics.length === 0 ? (
+              <p className="text-sm text-slate-400">
+                Track anything else that matters to you, like meditation minutes or headaches, by adding your own metrics.
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+                {customMetrics.map(metric => (
+                  <CustomMetricInput
+                    key={metric.id}
+                    metric={metric}
+                    value={formData.customValues?.[metric.id]}
+                    onChange={handleCustomValueChange(metric.id)}
                   />
-                  <div className="flex justify-between text-xs text-slate-500">
-                    <span>1</span>
-                    <span>10</span>
-                  </div>
-                </div>
+                ))}
               </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Screen Time Before Bed (minutes)
-                </label>
-                <input
-                  type="number"
-                  min="0"
-                  value={formData.screenTimeBeforeBed || ''}
-                  onChange={handleInputChange('screenTimeBeforeBed')}
-                  className="w-full bg-slate-900/50 border border-slate-600/50 rounded-lg py-3 px-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all"
-                  placeholder="30"
-                />
-              </div>
-            </div>
+            )}
+            {renderFieldError('customValues')}
+          </div>
+
+          {/* Tags Section */}
+          <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-8">
+            <h2 className="text-xl font-bold text-white mb-6 flex items-center">
+              <span className="text-2xl mr-3">🏷️</span>
+              Tags
+            </h2>
+            <TagInput
+              tags={formData.tags || []}
+              suggestions={tagSuggestions}
+              onChange={(tags) => {
+                clearFieldError('tags');
+                setFormData(prev => ({ ...prev, tags }));
+              }}
+            />
+            {renderFieldError('tags')}
           </div>
 
           {/* Notes Section */}
@@ -596,6 +578,7 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
                 placeholder="Any additional observations, thoughts, or notes about your day..."
                 maxLength={1000}
               />
+              {renderFieldError('notes')}
               <p className="text-sm text-slate-400">
                 {(formData.notes?.length || 0)}/1000 characters
               </p>
@@ -606,7 +589,10 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ checkinId, initialData }) =>
           <div className="flex justify-center space-x-4 pt-4">
             <button
               type="button"
-              onClick={() => navigate('/dashboard')}
+              onClick={() => {
+                draftStorage.clearDraft(draftKey);
+                navigate('/dashboard');
+              }}
               className="py-3 px-6 border border-slate-600/50 rounded-lg font-medium text-slate-300 bg-slate-800/40 hover:bg-slate-700/60 hover:text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all"
             >
               Cancel
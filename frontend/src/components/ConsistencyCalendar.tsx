@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { CheckinResponse } from '../types/checkin';
+import CheckinService from '../services/checkinService';
+import { buildCalendarDays, calculateHabitStreaks, getHabit } from '../utils/streaks';
+import type { CalendarDay, HabitKey } from '../utils/streaks';
+
+interface ConsistencyCalendarProps {
+  checkins: CheckinResponse[]; // The last year of check-ins
+}
+
+const WEEKDAY_LABELS = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
+
+const getCellClass = (day: CalendarDay, habitKey: HabitKey): string => {
+  if (!day.inRange) return 'bg-transparent';
+  if (habitKey === 'checkin') {
+    // Shade by how many check-ins were logged that day
+    if (day.checkins.length === 0) return 'bg-slate-700/40';
+    if (day.checkins.length === 1) return 'bg-blue-700';
+    if (day.checkins.length === 2) return 'bg-blue-500';
+    return 'bg-blue-300';
+  }
+  if (day.habitMet) return 'bg-emerald-500';
+  return day.checkins.length > 0 ? 'bg-slate-600' : 'bg-slate-700/40';
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+
+const ConsistencyCalendar: React.FC<ConsistencyCalendarProps> = ({ checkins }) => {
+  const navigate = useNavigate();
+  const [habitKey, setHabitKey] = useState<HabitKey>('checkin');
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  const habitStreaks = useMemo(() => calculateHabitStreaks(checkins), [checkins]);
+  const days = useMemo(() => buildCalendarDays(checkins, getHabit(habitKey)), [checkins, habitKey]);
+  const checkinStreak = habitStreaks.find(streak => streak.habit.key === 'checkin')!;
+  const selectedDay = days.find(day => day.date === selectedDate);
+
+  // Label a column with its month when the week contains the 1st
+  const monthLabels = useMemo(() => {
+    const labels: string[] = [];
+    for (let week = 0; week * 7 < days.length; week++) {
+      const firstOfMonth = days.slice(week * 7, week * 7 + 7).find(day => day.date.endsWith('-01'));
+      labels.push(firstOfMonth
+        ? new Date(`${firstOfMonth.date}T00:00:00`).toLocaleDateString('en-US', { month: 'short' })
+        : '');
+    }
+    return labels;
+  }, [days]);
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-6">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-6 mb-6">
+        <div>
+          <h3 className="text-lg font-bold text-white mb-1">Consistency</h3>
+          <p className="text-slate-400 text-sm">Check-in days over the past year. Click a day to see its check-ins.</p>
+        </div>
+        <div className="flex gap-6">
+          <div className="text-right">
+            <div className="text-2xl font-bold text-white">🔥 {checkinStreak.current}</div>
+            <div className="text-slate-400 text-xs font-medium">Current streak</div>
+          </div>
+          <div className="text-right">
+            <div className="text-2xl font-bold text-white">{checkinStreak.longest}</div>
+            <div className="text-slate-400 text-xs font-medium">Longest streak</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Habit streaks, also used to pick what the heatmap shows */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-6">
+        {habitStreaks.map(streak => (
+          <button
+            key={streak.habit.key}
+            onClick={() => setHabitKey(streak.habit.key)}
+            className={`text-left rounded-lg border px-4 py-3 transition-all duration-200 ${
+              habitKey === streak.habit.key
+                ? 'bg-blue-600/20 border-blue-500/50'
+                : 'bg-slate-900/30 border-slate-700/30 hover:bg-slate-800/60'
+            }`}
+          >
+            <div className="text-sm text-white font-medium mb-1">
+              <span className="mr-2">{streak.habit.icon}</span>
+              {streak.habit.label}
+            </div>
+            <div className="text-xs text-slate-400">
+              {streak.current} day{streak.current !== 1 ? 's' : ''} now · best {streak.longest}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Heatmap */}
+      <div className="overflow-x-auto">
+        <div className="inline-flex gap-2">
+          <div className="grid grid-rows-7 gap-1 pt-5 text-[10px] text-slate-500">
+            {WEEKDAY_LABELS.map((label, index) => (
+              <div key={index} className="h-3 leading-3">{label}</div>
+            ))}
+          </div>
+          <div>
+            <div className="grid grid-flow-col auto-cols-max gap-1 h-4 mb-1 text-[10px] text-slate-500">
+              {monthLabels.map((label, index) => (
+                <div key={index} className="w-3 overflow-visible whitespace-nowrap">{label}</div>
+              ))}
+            </div>
+            <div className="grid grid-rows-7 grid-flow-col gap-1">
+              {days.map(day => (
+                <button
+                  key={day.date}
+                  disabled={!day.inRange}
+                  onClick={() => setSelectedDate(day.date === selectedDate ? null : day.date)}
+                  title={`${formatDay(day.date)}: ${day.checkins.length} check-in${day.checkins.length !== 1 ? 's' : ''}`}
+                  className={`w-3 h-3 rounded-sm ${getCellClass(day, habitKey)} ${
+                    day.date === selectedDate ? 'ring-2 ring-white' : ''
+                  }`}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-1 mt-3 text-[10px] text-slate-500">
+        {habitKey === 'checkin' ? (
+          <>
+            <span className="mr-1">Less</span>
+            <span className="w-3 h-3 rounded-sm bg-slate-700/40" />
+            <span className="w-3 h-3 rounded-sm bg-blue-700" />
+            <span className="w-3 h-3 rounded-sm bg-blue-500" />
+            <span className="w-3 h-3 rounded-sm bg-blue-300" />
+            <span className="ml-1">More</span>
+          </>
+        ) : (
+          <>
+            <span className="w-3 h-3 rounded-sm bg-slate-600" />
+            <span className="mr-2">Checked in</span>
+            <span className="w-3 h-3 rounded-sm bg-emerald-500" />
+            <span>{getHabit(habitKey).label}</span>
+          </>
+        )}
+      </div>
+
+      {/* Selected day */}
+      {selectedDay && (
+        <div className="mt-6 pt-6 border-t border-slate-700/30">
+          <h4 className="text-white font-medium text-sm mb-3">{formatDay(selectedDay.date)}</h4>
+          {selectedDay.checkins.length === 0 ? (
+            <p className="text-slate-400 text-sm">No check-ins on this day.</p>
+          ) : (
+            <div className="space-y-2">
+              {selectedDay.checkins.map(checkin => {
+                const formatted = CheckinService.formatCheckinForDisplay(checkin);
+                return (
+                  <div
+                    key={checkin.id}
+                    className="flex items-center justify-between bg-slate-800/20 border border-slate-700/20 rounded-lg px-4 py-3"
+                  >
+                    <div>
+                      <p className="text-slate-300 text-sm">{formatted.summary}</p>
+                      <p className="text-slate-500 text-xs">
+                        {new Date(checkin.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => navigate(`/checkin/${checkin.id}`)}
+                      className="text-blue-400 hover:text-blue-300 text-xs font-medium transition-colors"
+                    >
+                      View
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConsistencyCalendar;
@@ -0,0 +1,112 @@
+import React from 'react';
+import type { CustomMetric, CustomMetricValue } from '../types/customMetric';
+import { SCALE_RANGE } from '../types/customMetric';
+
+interface CustomMetricInputProps {
+  metric: CustomMetric;
+  value: CustomMetricValue | undefined;
+  onChange: (value: CustomMetricValue | undefined) => void;
+}
+
+const inputClassName = 'w-full bg-slate-900/50 border border-slate-600/50 rounded-lg py-3 px-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all';
+
+/**
+ * Input for a user-defined metric, shaped by its type; clearing it leaves the value unset
+ */
+const CustomMetricInput: React.FC<CustomMetricInputProps> = ({ metric, value, onChange }) => {
+  if (metric.type === 'scale') {
+    return (
+      <div>
+        <label className="block text-sm font-medium text-slate-300 mb-3">
+          {metric.name}: <span className="text-blue-400 font-semibold">{value ?? 'Not set'}</span>
+          {value !== undefined && (
+            <button
+              type="button"
+              onClick={() => onChange(undefined)}
+              className="ml-2 text-xs text-slate-500 hover:text-slate-300 transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </label>
+        <div className="space-y-2">
+          <input
+            type="range"
+            min={SCALE_RANGE.min}
+            max={SCALE_RANGE.max}
+            step={1}
+            value={typeof value === 'number' ? value : Math.round((SCALE_RANGE.min + SCALE_RANGE.max) / 2)}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer slider-blue"
+          />
+          <div className="flex justify-between text-xs text-slate-500">
+            <span>{SCALE_RANGE.min}</span>
+            <span>{SCALE_RANGE.max}</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (metric.type === 'boolean') {
+    return (
+      <div>
+        <label className="block text-sm font-medium text-slate-300 mb-3">{metric.name}</label>
+        <div className="flex gap-2">
+          {[true, false].map(option => (
+            <button
+              key={String(option)}
+              type="button"
+              // Clicking the selected answer again clears it
+              onClick={() => onChange(value === option ? undefined : option)}
+              className={`flex-1 py-3 rounded-lg border text-sm font-medium transition-all ${
+                value === option
+                  ? 'bg-blue-600/30 border-blue-500/50 text-blue-200'
+                  : 'bg-slate-900/50 border-slate-600/50 text-slate-400 hover:text-white'
+              }`}
+            >
+              {option ? 'Yes' : 'No'}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (metric.type === 'select') {
+    return (
+      <div>
+        <label className="block text-sm font-medium text-slate-300 mb-3">{metric.name}</label>
+        <select
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          className={inputClassName}
+        >
+          <option value="">Select...</option>
+          {(metric.options || []).map(option => (
+            <option key={option} value={option} className="bg-slate-800">{option}</option>
+          ))}
+        </select>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-300 mb-3">
+        {metric.name}{metric.unit ? ` (${metric.unit})` : ''}
+      </label>
+      <input
+        type="number"
+        step="any"
+        min={metric.min}
+        max={metric.max}
+        value={typeof value === 'number' ? value : ''}
+        onChange={(e) => onChange(e.target.value ? Number(e.target.value) : undefined)}
+        className={inputClassName}
+      />
+    </div>
+  );
+};
+
+export default CustomMetricInput;
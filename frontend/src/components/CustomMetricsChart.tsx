@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  Line,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import type { CheckinResponse } from '../types/checkin';
+import { SCALE_RANGE } from '../types/customMetric';
+import { useCustomMetrics } from '../services/customMetricQueries';
+import {
+  getCustomMetricKey,
+  getCustomMetricValue,
+  getDailyCustomValues,
+  getTagCounts,
+  getTagKey
+} from '../utils/customMetrics';
+import { round, startOfWeek } from '../utils/statistics';
+
+interface CustomMetricsChartProps {
+  checkins: CheckinResponse[];
+}
+
+const CHART_COLOR = '#8b5cf6';
+
+const TOOLTIP_STYLE = {
+  backgroundColor: '#1f2937',
+  border: '1px solid #374151',
+  borderRadius: '8px',
+  color: '#ffffff'
+};
+
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+/**
+ * Chart of one custom metric or tag: daily values, yes-rate, choice counts or tagged days per week
+ */
+const CustomMetricsChart: React.FC<CustomMetricsChartProps> = ({ checkins }) => {
+  const metrics = useCustomMetrics();
+  const tags = useMemo(() => getTagCounts(checkins).map(({ tag }) => tag), [checkins]);
+  const [selectedKey, setSelectedKey] = useState<string>('');
+
+  const metric = metrics.find(m => getCustomMetricKey(m) === selectedKey) || (selectedKey ? undefined : metrics[0]);
+  const tag = !metric ? tags.find(t => getTagKey(t) === selectedKey) || tags[0] : undefined;
+
+  const chart = useMemo(() => {
+    if (metric?.type === 'select') {
+      const counts = new Map<string, number>((metric.options || []).map(option => [option, 0]));
+      checkins.forEach(checkin => {
+        const value = getCustomMetricValue(checkin, metric.id);
+        if (typeof value === 'string') counts.set(value, (counts.get(value) || 0) + 1);
+      });
+      return {
+        data: Array.from(counts, ([label, value]) => ({ label, value })),
+        kind: 'bar' as const,
+        name: 'Check-ins',
+        caption: `How often each ${metric.name.toLowerCase()} choice was logged`
+      };
+    }
+
+    if (metric) {
+      const daily = getDailyCustomValues(checkins, metric);
+      const data = Array.from(daily)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, value]) => ({
+          label: formatDay(date),
+          value: metric.type === 'boolean' ? value : round(value, 2)
+        }));
+      return metric.type === 'boolean'
+        ? { data, kind: 'bar' as const, name: 'Yes', caption: 'Days answered yes (1) or no (0)' }
+        : {
+            data,
+            kind: 'line' as const,
+            name: metric.unit ? `${metric.name} (${metric.unit})` : metric.name,
+            caption: metric.type === 'scale' ? `Value per day on a ${SCALE_RANGE.min}-${SCALE_RANGE.max} scale` : 'Value per day'
+          };
+    }
+
+    if (tag) {
+      const weeks = new Map<string, Set<string>>();
+      checkins.forEach(checkin => {
+        const date = checkin.date.split('T')[0];
+        const week = startOfWeek(date);
+        if (!weeks.has(week)) weeks.set(week, new Set());
+        if (checkin.tags?.includes(tag)) weeks.get(week)!.add(date);
+      });
+      return {
+        data: Array.from(weeks)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([week, days]) => ({ label: formatDay(week), value: days.size })),
+        kind: 'bar' as const,
+        name: 'Days tagged',
+        caption: `Days tagged #${tag}, per week`
+      };
+    }
+
+    return null;
+  }, [checkins, metric, tag]);
+
+  if (metrics.length === 0 && tags.length === 0) return null;
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-white mb-1">Custom Metrics & Tags</h2>
+          {chart && <p className="text-sm text-gray-400">{chart.caption}</p>}
+        </div>
+        <select
+          value={metric ? getCustomMetricKey(metric) : tag ? getTagKey(tag) : ''}
+          onChange={(e) => setSelectedKey(e.target.value)}
+          className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2 text-sm"
+        >
+          {metrics.length > 0 && (
+            <optgroup label="Custom metrics">
+              {metrics.map(m => (
+                <option key={m.id} value={getCustomMetricKey(m)}>{m.name}</option>
+              ))}
+            </optgroup>
+          )}
+          {tags.length > 0 && (
+            <optgroup label="Tags">
+              {tags.map(t => (
+                <option key={t} value={getTagKey(t)}>#{t}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </div>
+
+      {!chart || chart.data.length === 0 ? (
+        <p className="text-gray-400 text-center py-12">Nothing logged for this in the selected range yet.</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={280}>
+          <ComposedChart data={chart.data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis dataKey="label" stroke="#9ca3af" fontSize={12} />
+            <YAxis stroke="#9ca3af" fontSize={12} allowDecimals={chart.kind === 'line'} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} />
+            {chart.kind === 'line' ? (
+              <Line type="monotone" dataKey="value" stroke={CHART_COLOR} strokeWidth={2} dot={{ r: 3 }} name={chart.name} />
+            ) : (
+              <Bar dataKey="value" fill={CHART_COLOR} name={chart.name} />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+};
+
+export default CustomMetricsChart;
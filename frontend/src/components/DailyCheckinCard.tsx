@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { DailyCheckin } from '../types/checkin';
+import CheckinService from '../services/checkinService';
+
+interface DailyCheckinCardProps {
+  day: DailyCheckin;
+  defaultExpanded?: boolean;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * A day's merged values, with the individual check-ins behind them one click away
+ */
+const DailyCheckinCard: React.FC<DailyCheckinCardProps> = ({ day, defaultExpanded = false }) => {
+  const navigate = useNavigate();
+  const [expanded, setExpanded] = useState(defaultExpanded);
+  const formatted = CheckinService.formatCheckinForDisplay(day);
+  const isMerged = day.entries.length > 1;
+
+  return (
+    <div className="bg-slate-800/20 border border-slate-700/20 rounded-lg p-4 hover:bg-slate-800/30 transition-all duration-200">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h4 className="text-white font-medium text-sm">
+            {new Date(`${day.date.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+          </h4>
+          <p className="text-slate-400 text-xs">{formatted.summary}</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          {isMerged ? (
+            <button
+              onClick={() => setExpanded(!expanded)}
+              className="text-blue-400 hover:text-blue-300 text-xs font-medium transition-colors"
+            >
+              {expanded ? 'Hide entries' : `${day.entries.length} check-ins`}
+            </button>
+          ) : (
+            <>
+              <span className="text-xs text-slate-500">{formatTime(day.createdAt)}</span>
+              <button
+                onClick={() => navigate(`/checkin/${day.id}`)}
+                className="text-blue-400 hover:text-blue-300 text-xs font-medium transition-colors"
+              >
+                Edit
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Compact metrics */}
+      <div className="grid grid-cols-4 gap-3 text-xs">
+        {Object.entries(formatted.details).slice(0, 4).map(([key, value]) => (
+          <div key={key} className="text-center">
+            <div className="text-slate-500">{key}</div>
+            <div className="text-slate-300 font-medium">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      {day.notes && (
+        <div className="mt-3 pt-3 border-t border-slate-700/20">
+          <p className="text-slate-400 text-xs italic whitespace-pre-line">"{day.notes}"</p>
+        </div>
+      )}
+
+      {/* Individual entries behind a merged day */}
+      {isMerged && expanded && (
+        <div className="mt-3 pt-3 border-t border-slate-700/20 space-y-2">
+          {day.entries.map(entry => (
+            <div
+              key={entry.id}
+              className="flex items-center justify-between bg-slate-900/30 border border-slate-700/20 rounded-lg px-3 py-2"
+            >
+              <div>
+                <p className="text-slate-300 text-xs">{CheckinService.formatCheckinForDisplay(entry).summary}</p>
+                <p className="text-slate-500 text-xs">{formatTime(entry.createdAt)}</p>
+              </div>
+              <button
+                onClick={() => navigate(`/checkin/${entry.id}`)}
+                className="text-blue-400 hover:text-blue-300 text-xs font-medium transition-colors"
+              >
+                Edit
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DailyCheckinCard;
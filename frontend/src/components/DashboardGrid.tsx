@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import type { DashboardWidget, WidgetSize } from '../types/widget';
+import { WIDGET_SIZES } from '../types/widget';
+import { getWidgetDefinition, moveWidget, WIDGET_SIZE_CLASSES } from '../utils/dashboardLayout';
+import { STAT_METRICS } from '../utils/statistics';
+import { getMetricLabel } from '../utils/metricRegistry';
+import type { StatMetric } from '../utils/statistics';
+
+interface DashboardGridProps {
+  layout: DashboardWidget[];
+  editing: boolean;
+  renderWidget: (widget: DashboardWidget) => React.ReactNode;
+  onLayoutChange: (layout: DashboardWidget[]) => void;
+  onUpdate: (id: string, changes: { size?: WidgetSize; metric?: StatMetric }) => void;
+  onRemove: (id: string) => void;
+}
+
+const DashboardGrid: React.FC<DashboardGridProps> = ({
+  layout,
+  editing,
+  renderWidget,
+  onLayoutChange,
+  onUpdate,
+  onRemove
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) onLayoutChange(moveWidget(layout, dragIndex, index));
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      {layout.map((widget, index) => {
+        const definition = getWidgetDefinition(widget.type);
+        return (
+          <div
+            key={widget.id}
+            className={`${WIDGET_SIZE_CLASSES[widget.size]} ${
+              editing ? 'relative rounded-xl ring-1 ring-slate-600/60 cursor-move' : ''
+            } ${overIndex === index && dragIndex !== index ? 'ring-2 ring-blue-500' : ''} ${
+              dragIndex === index ? 'opacity-50' : ''
+            }`}
+            draggable={editing}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              setOverIndex(index);
+            }}
+            onDragLeave={() => setOverIndex(null)}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setOverIndex(null);
+            }}
+          >
+            {editing && (
+              <div className="flex flex-wrap items-center gap-2 bg-slate-900/80 border-b border-slate-700/30 rounded-t-xl px-3 py-2 text-xs">
+                <span className="text-slate-300 font-medium mr-auto">
+                  {definition.icon} {definition.label}
+                </span>
+                {definition.hasMetric && (
+                  <select
+                    value={widget.metric}
+                    onChange={(e) => onUpdate(widget.id, { metric: e.target.value as StatMetric })}
+                    className="bg-slate-800 border border-slate-600/40 text-white rounded px-1.5 py-0.5"
+                  >
+                    {STAT_METRICS.map(metric => (
+                      <option key={metric} value={metric}>{getMetricLabel(metric)}</option>
+                    ))}
+                  </select>
+                )}
+                {definition.sizes.length > 1 && (
+                  <select
+                    value={widget.size}
+                    onChange={(e) => onUpdate(widget.id, { size: e.target.value as WidgetSize })}
+                    className="bg-slate-800 border border-slate-600/40 text-white rounded px-1.5 py-0.5"
+                  >
+                    {WIDGET_SIZES.filter(size => definition.sizes.includes(size.value)).map(size => (
+                      <option key={size.value} value={size.value}>{size.label}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => onLayoutChange(moveWidget(layout, index, index - 1))}
+                  disabled={index === 0}
+                  className="text-slate-400 hover:text-white disabled:opacity-30 px-1"
+                  title="Move earlier"
+                >
+                  ←
+                </button>
+                <button
+                  onClick={() => onLayoutChange(moveWidget(layout, index, index + 1))}
+                  disabled={index === layout.length - 1}
+                  className="text-slate-400 hover:text-white disabled:opacity-30 px-1"
+                  title="Move later"
+                >
+                  →
+                </button>
+                <button
+                  onClick={() => onRemove(widget.id)}
+                  className="text-red-400 hover:text-red-300 px-1"
+                  title="Remove widget"
+                >
+                  ✕
+                </button>
+              </div>
+            )}
+            {renderWidget(widget)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DashboardGrid;
@@ -0,0 +1,81 @@
+import React, { useState, useEffect } from 'react';
+import { DATE_RANGE_PRESETS, resolveDateRange } from '../utils/dateRange';
+import type { DateRange, DateRangePreset } from '../utils/dateRange';
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ value, onChange }) => {
+  const [preset, setPreset] = useState<DateRangePreset>(value.preset);
+  const [startDate, setStartDate] = useState(value.startDate || '');
+  const [endDate, setEndDate] = useState(value.endDate || '');
+
+  // Follow the URL when it changes from outside, e.g. back/forward navigation
+  useEffect(() => {
+    setPreset(value.preset);
+    setStartDate(value.startDate || '');
+    setEndDate(value.endDate || '');
+  }, [value.preset, value.startDate, value.endDate]);
+
+  const handlePresetChange = (next: DateRangePreset) => {
+    setPreset(next);
+    if (next !== 'custom') {
+      onChange({ preset: next });
+      return;
+    }
+    // Start the custom range from whatever was being shown
+    const resolved = resolveDateRange(value);
+    setStartDate(resolved.startDate || '');
+    setEndDate(resolved.endDate);
+  };
+
+  const isCustomValid = !!startDate && !!endDate && startDate <= endDate;
+  const isCustomApplied = value.preset === 'custom' && value.startDate === startDate && value.endDate === endDate;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={preset}
+        onChange={(e) => handlePresetChange(e.target.value as DateRangePreset)}
+        className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+      >
+        {DATE_RANGE_PRESETS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+
+      {preset === 'custom' && (
+        <>
+          <input
+            type="date"
+            value={startDate}
+            max={endDate || undefined}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+            aria-label="Start date"
+          />
+          <span className="text-gray-400">to</span>
+          <input
+            type="date"
+            value={endDate}
+            min={startDate || undefined}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+            aria-label="End date"
+          />
+          <button
+            onClick={() => onChange({ preset: 'custom', startDate, endDate })}
+            disabled={!isCustomValid || isCustomApplied}
+            className="bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 disabled:hover:bg-cyan-600 text-white px-3 py-2 rounded-md transition-colors"
+          >
+            Apply
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DateRangePicker;
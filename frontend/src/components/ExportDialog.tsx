@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import CheckinService from '../services/checkinService';
+import { EXPORT_FIELDS, downloadFile } from '../utils/checkinExport';
+import type { ExportField, ExportFormat } from '../utils/checkinExport';
+
+interface ExportDialogProps {
+  onClose: () => void;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ onClose }) => {
+  const today = new Date().toISOString().split('T')[0];
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [allTime, setAllTime] = useState(true);
+  const [startDate, setStartDate] = useState(
+    new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+  );
+  const [endDate, setEndDate] = useState(today);
+  const [fields, setFields] = useState<ExportField[]>(EXPORT_FIELDS.map(f => f.key));
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const toggleField = (field: ExportField) => {
+    setFields(prev =>
+      prev.includes(field) ? prev.filter(f => f !== field) : [...prev, field]
+    );
+  };
+
+  const handleExport = async () => {
+    if (fields.length === 0) {
+      setError('Select at least one field to export');
+      return;
+    }
+    if (!allTime && startDate > endDate) {
+      setError('Start date must be on or before end date');
+      return;
+    }
+
+    try {
+      setExporting(true);
+      setError('');
+
+      // Keep the form's column order regardless of click order
+      const orderedFields = EXPORT_FIELDS.map(f => f.key).filter(key => fields.includes(key));
+      const content = await CheckinService.exportCheckins(
+        format,
+        orderedFields,
+        allTime ? undefined : startDate,
+        endDate
+      );
+
+      const rangeLabel = allTime ? `until-${endDate}` : `${startDate}_to_${endDate}`;
+      downloadFile(
+        content,
+        `momentum-checkins-${rangeLabel}.${format}`,
+        format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json'
+      );
+      onClose();
+    } catch (error) {
+      console.error('Error exporting check-ins:', error);
+      setError('Failed to export check-ins. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold text-white mb-4">Export Check-ins</h2>
+
+        {error && (
+          <div className="mb-4 bg-red-900/20 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-6">
+          {/* Format */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">Format</h3>
+            <div className="flex gap-4 text-sm text-gray-300">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" checked={format === 'csv'} onChange={() => setFormat('csv')} />
+                CSV (spreadsheets)
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" checked={format === 'json'} onChange={() => setFormat('json')} />
+                JSON bundle (notebooks)
+              </label>
+            </div>
+          </div>
+
+          {/* Range */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">Date Range</h3>
+            <label className="flex items-center gap-2 text-sm text-gray-300 mb-3 cursor-pointer">
+              <input type="checkbox" checked={allTime} onChange={(e) => setAllTime(e.target.checked)} />
+              Full history
+            </label>
+            <div className="flex items-center gap-3 text-sm">
+              <input
+                type="date"
+                value={startDate}
+                max={endDate}
+                disabled={allTime}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="bg-slate-900 border border-slate-600 text-white rounded-md px-3 py-2 disabled:opacity-50"
+              />
+              <span className="text-gray-400">to</span>
+              <input
+                type="date"
+                value={endDate}
+                max={today}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="bg-slate-900 border border-slate-600 text-white rounded-md px-3 py-2"
+              />
+            </div>
+          </div>
+
+          {/* Fields */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-300">Fields</h3>
+              <div className="flex gap-3 text-xs">
+                <button
+                  type="button"
+                  onClick={() => setFields(EXPORT_FIELDS.map(f => f.key))}
+                  className="text-cyan-400 hover:text-cyan-300"
+                >
+                  Select all
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setFields([])}
+                  className="text-gray-400 hover:text-gray-300"
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {EXPORT_FIELDS.map(field => (
+                <label key={field.key} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={fields.includes(field.key)}
+                    onChange={() => toggleField(field.key)}
+                  />
+                  {field.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-8">
+          <button
+            type="button"
+            onClick={onClose}
+            className="border border-slate-600 text-white px-4 py-2 rounded-md hover:bg-slate-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={exporting}
+            className="bg-cyan-600 hover:bg-cyan-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50"
+          >
+            {exporting ? 'Exporting...' : 'Download'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { CheckinResponse } from '../types/checkin';
+import type { Goal } from '../types/goal';
+import { describeGoal, evaluateGoal } from '../utils/goals';
+import { getMetricLabel } from '../utils/metricRegistry';
+
+interface GoalProgressRingsProps {
+  goals: Goal[];
+  checkins: CheckinResponse[]; // Needs at least the last few weeks for the hit history
+}
+
+const RING_RADIUS = 28;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+const GoalProgressRings: React.FC<GoalProgressRingsProps> = ({ goals, checkins }) => {
+  const navigate = useNavigate();
+  const progress = useMemo(
+    () => goals.map(goal => evaluateGoal(goal, checkins)),
+    [goals, checkins]
+  );
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-bold text-white mb-1">Weekly Goals</h3>
+          <p className="text-slate-400 text-sm">Days this week you hit each target</p>
+        </div>
+        <button
+          onClick={() => navigate('/goals')}
+          className="text-blue-400 hover:text-blue-300 text-sm font-medium transition-colors"
+        >
+          {goals.length ? 'Manage goals →' : 'Set a goal →'}
+        </button>
+      </div>
+
+      {goals.length === 0 ? (
+        <p className="text-slate-400 text-sm">
+          No goals yet. Set targets like "sleep at least 7.5 hours on 5 days a week" to track them here.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+          {progress.map(({ goal, daysMet, progress: ratio, history, hitRate }) => (
+            <div key={goal.id} className="flex flex-col items-center text-center" title={describeGoal(goal)}>
+              <div className="relative w-20 h-20">
+                <svg viewBox="0 0 64 64" className="w-20 h-20 -rotate-90">
+                  <circle cx="32" cy="32" r={RING_RADIUS} fill="none" stroke="#334155" strokeWidth="6" />
+                  <circle
+                    cx="32"
+                    cy="32"
+                    r={RING_RADIUS}
+                    fill="none"
+                    stroke={ratio >= 1 ? '#10b981' : '#3b82f6'}
+                    strokeWidth="6"
+                    strokeLinecap="round"
+                    strokeDasharray={RING_CIRCUMFERENCE}
+                    strokeDashoffset={RING_CIRCUMFERENCE * (1 - ratio)}
+                    className="transition-all duration-500"
+                  />
+                </svg>
+                <div className="absolute inset-0 flex items-center justify-center text-white text-sm font-bold">
+                  {daysMet}/{goal.daysPerWeek}
+                </div>
+              </div>
+              <div className="text-white text-sm font-medium mt-2">{getMetricLabel(goal.metric)}</div>
+              {/* Hit or miss for recent completed weeks */}
+              <div className="flex gap-1 mt-2">
+                {history.slice(0, -1).map(week => (
+                  <span
+                    key={week.weekStart}
+                    title={`Week of ${week.weekStart}: ${week.daysMet}/${goal.daysPerWeek}`}
+                    className={`w-2 h-2 rounded-full ${
+                      week.daysLogged === 0 ? 'bg-slate-700' : week.hit ? 'bg-emerald-500' : 'bg-slate-500'
+                    }`}
+                  />
+                ))}
+              </div>
+              <div className="text-slate-500 text-xs mt-1">
+                {hitRate !== null ? `${Math.round(hitRate * 100)}% of weeks` : 'No history yet'}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GoalProgressRings;
@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { CheckinResponse } from '../types/checkin';
+import type { Goal } from '../types/goal';
+import { generateInsights } from '../utils/insights';
+import type { InsightPriority, InsightSentiment } from '../utils/insights';
+import { insightStorage, INSIGHT_SNOOZE_DAYS, isInsightHidden } from '../utils/insightStorage';
+import { fromDayNumber, toDayNumber } from '../utils/statistics';
+
+interface InsightsPanelProps {
+  checkins: CheckinResponse[];
+  goals: Goal[];
+}
+
+const VISIBLE_INSIGHTS = 5;
+
+const PRIORITY_STYLES: Record<InsightPriority, { label: string; className: string }> = {
+  high: { label: 'High priority', className: 'bg-red-900/30 text-red-300 border-red-700' },
+  medium: { label: 'Medium priority', className: 'bg-amber-900/30 text-amber-300 border-amber-700' },
+  low: { label: 'Low priority', className: 'bg-slate-700/40 text-gray-400 border-slate-600' }
+};
+
+const SENTIMENT_ICONS: Record<InsightSentiment, string> = {
+  better: '📈',
+  worse: '⚠️',
+  neutral: '💡'
+};
+
+/**
+ * Ranked findings from the insight rules, each dismissible or snoozable
+ */
+const InsightsPanel: React.FC<InsightsPanelProps> = ({ checkins, goals }) => {
+  const navigate = useNavigate();
+  const [feedback, setFeedback] = useState(() => insightStorage.getFeedback());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [showHidden, setShowHidden] = useState(false);
+
+  const insights = useMemo(() => generateInsights(checkins, goals), [checkins, goals]);
+  const open = insights.filter(insight => !isInsightHidden(feedback[insight.id]));
+  const hidden = insights.filter(insight => isInsightHidden(feedback[insight.id]));
+  const visible = showHidden ? hidden : showAll ? open : open.slice(0, VISIBLE_INSIGHTS);
+
+  const handleSnooze = (id: string) => {
+    const today = new Date().toISOString().split('T')[0];
+    insightStorage.snooze(id, fromDayNumber(toDayNumber(today) + INSIGHT_SNOOZE_DAYS));
+    setFeedback(insightStorage.getFeedback());
+  };
+
+  const handleDismiss = (id: string) => {
+    insightStorage.dismiss(id);
+    setFeedback(insightStorage.getFeedback());
+  };
+
+  const handleRestore = (id: string) => {
+    insightStorage.restore(id);
+    setFeedback(insightStorage.getFeedback());
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-white mb-1">Insights & Recommendations</h2>
+          <p className="text-gray-400 text-sm">
+            Ranked findings from your {checkins.length} check-in{checkins.length !== 1 ? 's' : ''} in the selected period
+          </p>
+        </div>
+        {hidden.length > 0 && (
+          <button
+            onClick={() => setShowHidden(!showHidden)}
+            className="text-cyan-400 hover:text-cyan-300 text-sm transition-colors"
+          >
+            {showHidden ? 'Back to insights' : `Show hidden (${hidden.length})`}
+          </button>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-gray-400 text-sm">
+          {insights.length === 0
+            ? 'No clear patterns yet. Keep tracking consistently for better insights!'
+            : "You're all caught up. Hidden insights come back when snoozes run out."}
+        </p>
+      ) : (
+        <ol className="space-y-3">
+          {visible.map(insight => {
+            const priority = PRIORITY_STYLES[insight.priority];
+            const state = feedback[insight.id];
+            return (
+              <li key={insight.id} className="bg-slate-900/40 border border-slate-700 rounded-lg px-4 py-3">
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                  <div className="flex gap-3">
+                    <span>{SENTIMENT_ICONS[insight.sentiment]}</span>
+                    <div>
+                      <div className="text-white text-sm font-medium">{insight.title}</div>
+                      <p className="text-gray-400 text-sm">{insight.detail}</p>
+                    </div>
+                  </div>
+                  <span className={`self-start whitespace-nowrap border rounded-full px-2 py-0.5 text-xs ${priority.className}`}>
+                    {priority.label}
+                  </span>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mt-3 ml-8">
+                  {insight.evidence.map(item => (
+                    <span key={item.label} className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-xs text-gray-300">
+                      {item.label}: <strong className="text-white">{item.value}</strong>
+                    </span>
+                  ))}
+                </div>
+
+                {expandedId === insight.id && (
+                  <p className="text-gray-400 text-xs mt-3 ml-8 border-l-2 border-slate-600 pl-3">{insight.explanation}</p>
+                )}
+
+                <div className="flex flex-wrap gap-4 mt-3 ml-8 text-xs">
+                  <button
+                    onClick={() => setExpandedId(expandedId === insight.id ? null : insight.id)}
+                    className="text-cyan-400 hover:text-cyan-300 transition-colors"
+                  >
+                    {expandedId === insight.id ? 'Hide explanation' : 'Why am I seeing this?'}
+                  </button>
+                  {showHidden ? (
+                    <>
+                      <span className="text-gray-500">
+                        {state?.status === 'snoozed' ? `Snoozed until ${state.until}` : 'Dismissed'}
+                      </span>
+                      <button
+                        onClick={() => handleRestore(insight.id)}
+                        className="text-cyan-400 hover:text-cyan-300 transition-colors"
+                      >
+                        Restore
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleSnooze(insight.id)}
+                        className="text-gray-400 hover:text-gray-300 transition-colors"
+                      >
+                        Snooze {INSIGHT_SNOOZE_DAYS} days
+                      </button>
+                      <button
+                        onClick={() => handleDismiss(insight.id)}
+                        className="text-red-400 hover:text-red-300 transition-colors"
+                      >
+                        Dismiss
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <div className="flex flex-wrap gap-4 mt-4 text-sm">
+        {!showHidden && open.length > VISIBLE_INSIGHTS && (
+          <button
+            onClick={() => setShowAll(!showAll)}
+            className="text-cyan-400 hover:text-cyan-300 transition-colors"
+          >
+            {showAll ? 'Show fewer' : `Show all ${open.length} insights`}
+          </button>
+        )}
+        {goals.length === 0 && (
+          <p className="text-gray-400">
+            <button
+              onClick={() => navigate('/goals')}
+              className="text-cyan-400 hover:text-cyan-300 transition-colors"
+            >
+              Set goals
+            </button>{' '}
+            to get recommendations tailored to your targets
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InsightsPanel;
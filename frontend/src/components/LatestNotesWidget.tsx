@@ -0,0 +1,45 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { CheckinResponse } from '../types/checkin';
+import { sortChronologically } from '../utils/statistics';
+
+interface LatestNotesWidgetProps {
+  checkins: CheckinResponse[];
+  limit?: number;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const LatestNotesWidget: React.FC<LatestNotesWidgetProps> = ({ checkins, limit = 3 }) => {
+  const navigate = useNavigate();
+  const withNotes = sortChronologically(checkins)
+    .reverse()
+    .filter(checkin => checkin.notes || checkin.sleepNotes)
+    .slice(0, limit);
+
+  return (
+    <div className="h-full bg-slate-800/40 border border-slate-700/30 rounded-xl p-6">
+      <h3 className="text-lg font-bold text-white mb-4">Latest Notes</h3>
+      {withNotes.length === 0 ? (
+        <p className="text-slate-400 text-sm">No notes in your recent check-ins.</p>
+      ) : (
+        <div className="space-y-3">
+          {withNotes.map(checkin => (
+            <button
+              key={checkin.id}
+              onClick={() => navigate(`/checkin/${checkin.id}`)}
+              className="block w-full text-left bg-slate-800/20 border border-slate-700/20 rounded-lg p-3 hover:bg-slate-800/30 transition-all duration-200"
+            >
+              <div className="text-slate-500 text-xs mb-1">{formatDate(checkin.date)}</div>
+              {checkin.notes && <p className="text-slate-300 text-sm italic">"{checkin.notes}"</p>}
+              {checkin.sleepNotes && <p className="text-slate-400 text-xs mt-1">😴 {checkin.sleepNotes}</p>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LatestNotesWidget;
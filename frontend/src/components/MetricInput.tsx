@@ -0,0 +1,66 @@
+import React from 'react';
+import type { NumericCheckinField } from '../types/checkin';
+import { getMetric } from '../utils/metricRegistry';
+
+interface MetricInputProps {
+  metric: NumericCheckinField;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  error?: string; // Shown under the input, e.g. a server validation message
+}
+
+/**
+ * Number box or 1-10 slider for a check-in field, labelled and bounded by the metric registry
+ */
+const MetricInput: React.FC<MetricInputProps> = ({ metric, value, onChange, error }) => {
+  const definition = getMetric(metric);
+  const { min, max } = definition.range;
+
+  if (definition.input === 'slider' && max !== undefined) {
+    const [lowLabel, highLabel] = definition.scaleLabels || [String(min), String(max)];
+    return (
+      <div>
+        <label className="block text-sm font-medium text-slate-300 mb-3">
+          {definition.label}: <span className="text-blue-400 font-semibold">{value || 'Not set'}</span>
+        </label>
+        <div className="space-y-2">
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={definition.step}
+            value={value || Math.round((min + max) / 2)}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer slider-blue"
+          />
+          <div className="flex justify-between text-xs text-slate-500">
+            <span>{lowLabel}</span>
+            <span>{highLabel}</span>
+          </div>
+        </div>
+        {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-300 mb-3">
+        {definition.label}{definition.unitName ? ` (${definition.unitName})` : ''}
+      </label>
+      <input
+        type="number"
+        step={definition.step}
+        min={min}
+        max={max}
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value ? Number(e.target.value) : undefined)}
+        className="w-full bg-slate-900/50 border border-slate-600/50 rounded-lg py-3 px-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all"
+        placeholder={definition.placeholder}
+      />
+      {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default MetricInput;
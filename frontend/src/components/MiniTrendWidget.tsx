@@ -1,12 +1,17 @@
 import React from 'react';
 import { LineChart, Line, ResponsiveContainer } from 'recharts';
 import type { CheckinResponse } from '../types/checkin';
+import { getMetricValue, round, sortChronologically } from '../utils/statistics';
+import type { StatMetric } from '../utils/statistics';
+import { smoothedSlope } from '../utils/smoothing';
+import { rollupCheckins } from '../utils/dailyRollup';
+import { formatMetricValue, getChangeSentiment, getMetric } from '../utils/metricRegistry';
 
 interface MiniTrendWidgetProps {
   checkins: CheckinResponse[];
-  metricKey: keyof CheckinResponse;
-  title: string;
-  color: string;
+  metricKey: StatMetric;
+  title?: string; // Defaults to the metric's label
+  color?: string; // Defaults to the metric's color
 }
 
 const MiniTrendWidget: React.FC<MiniTrendWidgetProps> = ({ 
@@ -15,48 +20,37 @@ const MiniTrendWidget: React.FC<MiniTrendWidgetProps> = ({
   title, 
   color 
 }) => {
-  // Process last 7 checkins for mini chart
-  const chartData = checkins
+  // Last 7 days (oldest first) for mini chart, skipping days that did not record the metric
+  const chartData = sortChronologically(rollupCheckins(checkins))
     .slice(-7)
-    .map((checkin, index) => {
-      let value: number = 0;
-      
-      // Handle different metric types
-      if (metricKey === 'sleepHours' || metricKey === 'sleepQuality' || 
-          metricKey === 'productivityRating' || metricKey === 'stressLevel') {
-        value = (checkin[metricKey] as number) || 0;
-      } else if (metricKey === 'energyMorning') {
-        // For energy, calculate average of all energy levels
-        value = ((checkin.energyMorning || 0) + 
-                (checkin.energyAfternoon || 0) + 
-                (checkin.energyEvening || 0)) / 3;
-      }
-
-      return {
-        day: index + 1,
-        value: Math.round(value * 10) / 10
-      };
-    });
+    .map(checkin => getMetricValue(checkin, metricKey))
+    .filter((value): value is number => value !== undefined)
+    .map((value, index) => ({
+      day: index + 1,
+      value: round(value) ?? 0
+    }));
 
   const currentValue = chartData.length > 0 ? chartData[chartData.length - 1].value : 0;
-  const previousValue = chartData.length > 1 ? chartData[chartData.length - 2].value : currentValue;
-  const trend = currentValue > previousValue ? 'up' : currentValue < previousValue ? 'down' : 'stable';
+  // Change across the window along the smoothed slope, so a single odd day does not flip the arrow
+  const slope = smoothedSlope(chartData.map(point => point.value)) ?? 0;
+  const change = round(slope * (chartData.length - 1)) ?? 0;
+  const trend = change > 0 ? 'up' : change < 0 ? 'down' : 'stable';
+  // Stress going up is a decline, sleep going up an improvement
+  const sentiment = getChangeSentiment(metricKey, change);
+  const trendColor = sentiment === 'better' ? 'text-blue-400' : sentiment === 'worse' ? 'text-orange-400' : 'text-slate-400';
+  const definition = getMetric(metricKey);
 
   return (
     <div className="p-5 rounded-xl bg-slate-800/40 border border-slate-700/30 hover:bg-slate-800/60 transition-all duration-300">
       <div className="flex items-center justify-between mb-3">
-        <h3 className="text-sm font-medium text-white">{title}</h3>
+        <h3 className="text-sm font-medium text-white">{title || definition.label}</h3>
         <div className="flex items-center space-x-1">
-          {trend === 'up' && <span className="text-blue-400 text-sm">↗</span>}
-          {trend === 'down' && <span className="text-blue-300 text-sm">↘</span>}
+          {trend === 'up' && <span className={`${trendColor} text-sm`}>↗</span>}
+          {trend === 'down' && <span className={`${trendColor} text-sm`}>↘</span>}
           {trend === 'stable' && <span className="text-slate-400 text-sm">→</span>}
-          <span className={`text-xs font-medium ${
-            trend === 'up' ? 'text-blue-400' : 
-            trend === 'down' ? 'text-blue-300' : 
-            'text-slate-400'
-          }`}>
-            {trend === 'up' ? '+' : trend === 'down' ? '' : ''}
-            {Math.round((currentValue - previousValue) * 10) / 10}
+          <span className={`text-xs font-medium ${trendColor}`}>
+            {trend === 'up' ? '+' : ''}
+            {change}
           </span>
         </div>
       </div>
@@ -64,10 +58,7 @@ const MiniTrendWidget: React.FC<MiniTrendWidgetProps> = ({
       <div className="flex items-end justify-between">
         <div>
           <div className="text-xl font-bold text-white mb-1">
-            {currentValue}
-            {metricKey === 'sleepHours' && 'h'}
-            {(metricKey === 'sleepQuality' || metricKey === 'productivityRating' || 
-              metricKey === 'stressLevel' || metricKey === 'energyMorning') && '/10'}
+            {chartData.length > 0 ? formatMetricValue(metricKey, currentValue) : '—'}
           </div>
           <div className="text-xs text-slate-500 font-medium">Latest</div>
         </div>
@@ -78,7 +69,7 @@ const MiniTrendWidget: React.FC<MiniTrendWidgetProps> = ({
               <Line 
                 type="monotone" 
                 dataKey="value" 
-                stroke={color} 
+                stroke={color || definition.color} 
                 strokeWidth={2}
                 dot={false}
               />
@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  RadarChart,
+  Radar,
+  PolarGrid,
+  PolarAngleAxis,
+  PolarRadiusAxis,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import type { CheckinResponse } from '../types/checkin';
+import {
+  buildEnergyCurves,
+  buildWeekdayRadar,
+  compareWeekdaysToWeekends,
+  WEEKDAY_LABELS,
+  WEEKDAY_NAMES
+} from '../utils/patterns';
+import { describeSignificance } from '../utils/periodComparison';
+import { formatMetricValue, getMetricLabel } from '../utils/metricRegistry';
+
+interface PatternsPanelProps {
+  checkins: CheckinResponse[];
+}
+
+const WEEKDAY_COLORS = ['#3b82f6', '#06b6d4', '#10b981', '#84cc16', '#f59e0b', '#ef4444', '#8b5cf6'];
+
+const TOOLTIP_STYLE = {
+  backgroundColor: '#1f2937',
+  border: '1px solid #374151',
+  borderRadius: '8px',
+  color: '#ffffff'
+};
+
+const PatternsPanel: React.FC<PatternsPanelProps> = ({ checkins }) => {
+  const [radarDays, setRadarDays] = useState<[number, number]>([0, 4]); // Monday vs Friday
+
+  const energyCurves = useMemo(() => buildEnergyCurves(checkins), [checkins]);
+  const weekendComparison = useMemo(() => compareWeekdaysToWeekends(checkins), [checkins]);
+  const radarData = useMemo(
+    () => buildWeekdayRadar(checkins, radarDays[0], radarDays[1]),
+    [checkins, radarDays]
+  );
+
+  const renderWeekdaySelect = (index: 0 | 1) => (
+    <select
+      value={radarDays[index]}
+      onChange={(e) => {
+        const next: [number, number] = [...radarDays];
+        next[index] = parseInt(e.target.value);
+        setRadarDays(next);
+      }}
+      className="bg-slate-800 border border-slate-600 text-white rounded-md px-2 py-1 text-sm"
+    >
+      {WEEKDAY_NAMES.map((name, weekday) => (
+        <option key={name} value={weekday}>{name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+      <h2 className="text-xl font-semibold text-white mb-1">Weekly Patterns</h2>
+      <p className="text-gray-400 text-sm mb-6">How your days typically unfold, by day of the week.</p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Energy through the day */}
+        <div>
+          <h3 className="text-cyan-400 font-medium mb-2">⚡ Energy Through the Day</h3>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={energyCurves}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="timeOfDay" stroke="#9ca3af" fontSize={12} />
+              <YAxis stroke="#9ca3af" fontSize={12} domain={[0, 10]} />
+              <Tooltip
+                contentStyle={TOOLTIP_STYLE}
+                formatter={(value) => (typeof value === 'number' ? value.toFixed(1) : '—')}
+              />
+              <Legend />
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <Line
+                  key={label}
+                  type="monotone"
+                  dataKey={label}
+                  stroke={WEEKDAY_COLORS[weekday]}
+                  strokeWidth={1.5}
+                  dot={{ r: 2 }}
+                  connectNulls
+                />
+              ))}
+              <Line
+                type="monotone"
+                dataKey="all"
+                stroke="#ffffff"
+                strokeWidth={3}
+                strokeDasharray="6 4"
+                name="All days"
+                connectNulls
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Typical day radar */}
+        <div>
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <h3 className="text-violet-400 font-medium mr-2">📅 Typical</h3>
+            {renderWeekdaySelect(0)}
+            <span className="text-gray-400 text-sm">vs</span>
+            {renderWeekdaySelect(1)}
+          </div>
+          <ResponsiveContainer width="100%" height={300}>
+            <RadarChart data={radarData} outerRadius="75%">
+              <PolarGrid stroke="#374151" />
+              <PolarAngleAxis dataKey="metric" stroke="#9ca3af" fontSize={11} />
+              <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+              <Tooltip
+                contentStyle={TOOLTIP_STYLE}
+                formatter={(_value, _name, item) => {
+                  const raw = item.dataKey === 'a' ? item.payload.rawA : item.payload.rawB;
+                  return typeof raw === 'number' ? raw.toFixed(1) : 'No data';
+                }}
+              />
+              <Legend />
+              <Radar
+                dataKey="a"
+                name={WEEKDAY_NAMES[radarDays[0]]}
+                stroke="#3b82f6"
+                fill="#3b82f6"
+                fillOpacity={0.3}
+              />
+              <Radar
+                dataKey="b"
+                name={WEEKDAY_NAMES[radarDays[1]]}
+                stroke="#f59e0b"
+                fill="#f59e0b"
+                fillOpacity={0.3}
+              />
+            </RadarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Weekdays vs weekends */}
+      <h3 className="text-emerald-400 font-medium mt-8 mb-3">🗓️ Weekdays vs Weekends</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {weekendComparison.map(comparison => (
+          <div key={comparison.metric} className="bg-slate-900/40 border border-slate-700 rounded-lg px-4 py-3">
+            <div className="text-gray-300 text-sm mb-2">{getMetricLabel(comparison.metric)}</div>
+            <div className="flex items-baseline justify-between">
+              <div>
+                <div className="text-white font-semibold">
+                  {comparison.meanA !== null ? formatMetricValue(comparison.metric, comparison.meanA) : '—'}
+                </div>
+                <div className="text-gray-500 text-xs">Weekdays</div>
+              </div>
+              <div className="text-right">
+                <div className="text-white font-semibold">
+                  {comparison.meanB !== null ? formatMetricValue(comparison.metric, comparison.meanB) : '—'}
+                </div>
+                <div className="text-gray-500 text-xs">Weekends</div>
+              </div>
+            </div>
+            <div className="text-gray-400 text-xs mt-2">
+              {comparison.delta !== null && (
+                <span className="mr-1">
+                  {comparison.delta >= 0 ? '+' : ''}{Math.round(comparison.delta * 10) / 10} at weekends ·
+                </span>
+              )}
+              {describeSignificance(comparison.significance)}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PatternsPanel;
@@ -0,0 +1,40 @@
+import React from 'react';
+import type { CheckinResponse } from '../types/checkin';
+import { getMetricValues, mean } from '../utils/statistics';
+import { rollupCheckins } from '../utils/dailyRollup';
+import { formatMetricValue, getMetric } from '../utils/metricRegistry';
+import type { StatMetric } from '../utils/statistics';
+
+interface StatWidgetProps {
+  checkins: CheckinResponse[]; // The last week of check-ins
+  metric: StatMetric;
+}
+
+const StatWidget: React.FC<StatWidgetProps> = ({ checkins, metric }) => {
+  const values = getMetricValues(rollupCheckins(checkins), metric);
+  const average = mean(values);
+  const definition = getMetric(metric);
+
+  return (
+    <div className="h-full bg-slate-800/40 border border-slate-700/30 rounded-xl p-6 hover:bg-slate-800/60 transition-all duration-300">
+      <div className="flex items-center justify-between mb-4">
+        <div className="p-2 bg-blue-500/20 rounded-lg">
+          <span className="text-xl">{definition.icon}</span>
+        </div>
+        <div className="text-right">
+          <div className="text-2xl font-bold text-white">
+            {average !== null ? formatMetricValue(metric, average) : '—'}
+          </div>
+          <div className="text-slate-400 text-sm font-medium">Avg {definition.label}</div>
+        </div>
+      </div>
+      <div className="text-xs text-slate-500">
+        {values.length > 0
+          ? `From ${values.length} day${values.length !== 1 ? 's' : ''} this week`
+          : 'Not recorded this week'}
+      </div>
+    </div>
+  );
+};
+
+export default StatWidget;
@@ -0,0 +1,37 @@
+import React, { useMemo } from 'react';
+import type { CheckinResponse } from '../types/checkin';
+import { getStreaks, toDayNumber } from '../utils/statistics';
+
+interface StreakWidgetProps {
+  checkins: CheckinResponse[]; // The last year of check-ins
+  weekDays: number; // Days with a check-in in the last 7 days
+}
+
+const StreakWidget: React.FC<StreakWidgetProps> = ({ checkins, weekDays }) => {
+  const streaks = useMemo(
+    () => getStreaks(new Set(checkins.map(checkin => toDayNumber(checkin.date)))),
+    [checkins]
+  );
+
+  return (
+    <div className="h-full bg-slate-800/40 border border-slate-700/30 rounded-xl p-6 hover:bg-slate-800/60 transition-all duration-300">
+      <div className="flex items-center justify-between mb-4">
+        <div className="p-2 bg-blue-500/20 rounded-lg">
+          <span className="text-xl">🔥</span>
+        </div>
+        <div className="text-right">
+          <div className="text-2xl font-bold text-white">
+            {streaks.current} day{streaks.current !== 1 ? 's' : ''}
+          </div>
+          <div className="text-slate-400 text-sm font-medium">Current Streak</div>
+        </div>
+      </div>
+      <div className="flex justify-between text-xs text-slate-500">
+        <span>Longest: {streaks.longest} days</span>
+        <span>{weekDays} of 7 days this week</span>
+      </div>
+    </div>
+  );
+};
+
+export default StreakWidget;
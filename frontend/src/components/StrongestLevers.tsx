@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import type { CheckinResponse, NumericCheckinField } from '../types/checkin';
+import {
+  computeLagProfile,
+  describeLagEffect,
+  findStrongestLevers,
+  getFieldLabel,
+  MAX_LAG_DAYS
+} from '../utils/lagAnalysis';
+import type { LagConfidence } from '../utils/lagAnalysis';
+import { NUMERIC_METRICS } from '../utils/metricRegistry';
+
+interface StrongestLeversProps {
+  checkins: CheckinResponse[];
+}
+
+const CONFIDENCE_STYLES: Record<LagConfidence, { label: string; className: string }> = {
+  high: { label: 'High confidence', className: 'bg-emerald-900/30 text-emerald-300 border-emerald-700' },
+  medium: { label: 'Medium confidence', className: 'bg-amber-900/30 text-amber-300 border-amber-700' },
+  low: { label: 'Low confidence', className: 'bg-slate-700/40 text-gray-400 border-slate-600' }
+};
+
+const StrongestLevers: React.FC<StrongestLeversProps> = ({ checkins }) => {
+  const [input, setInput] = useState<NumericCheckinField>('screenTimeBeforeBed');
+  const [outcome, setOutcome] = useState<NumericCheckinField>('sleepQuality');
+
+  const levers = useMemo(() => findStrongestLevers(checkins), [checkins]);
+  const profile = useMemo(
+    () => computeLagProfile(checkins, input, outcome),
+    [checkins, input, outcome]
+  );
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+      <h2 className="text-xl font-semibold text-white mb-1">Strongest Levers</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        How today's habits line up with the same day and up to {MAX_LAG_DAYS} days later. Confidence allows for
+        picking the strongest of the {MAX_LAG_DAYS + 1} days.
+      </p>
+
+      {levers.length === 0 ? (
+        <p className="text-gray-400 text-sm">
+          Not enough consecutive days yet. Keep checking in daily to uncover your levers.
+        </p>
+      ) : (
+        <ol className="space-y-3">
+          {levers.map((lever, index) => {
+            const confidence = CONFIDENCE_STYLES[lever.confidence];
+            return (
+              <li
+                key={`${lever.input}-${lever.outcome}`}
+                className="flex flex-col md:flex-row md:items-center justify-between bg-slate-900/40 border border-slate-700 rounded-lg px-4 py-3"
+              >
+                <div className="flex items-center gap-3">
+                  <span className="text-cyan-400 font-bold">{index + 1}.</span>
+                  <span className="text-gray-200 text-sm">{describeLagEffect(lever)}</span>
+                </div>
+                <div className="flex items-center gap-3 mt-2 md:mt-0 text-xs">
+                  <span className="text-gray-300">r = {lever.coefficient.toFixed(2)}</span>
+                  <span className="text-gray-400">n = {lever.sampleSize}</span>
+                  <span className={`border rounded-full px-2 py-0.5 ${confidence.className}`}>
+                    {confidence.label}
+                  </span>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {/* Lag profile for any pair */}
+      <div className="mt-6 pt-6 border-t border-slate-700">
+        <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-300">
+          <span>Compare</span>
+          <select
+            value={input}
+            onChange={(e) => setInput(e.target.value as NumericCheckinField)}
+            className="bg-slate-800 border border-slate-600 text-white rounded-md px-2 py-1"
+          >
+            {NUMERIC_METRICS.map(field => (
+              <option key={field.key} value={field.key}>{field.label}</option>
+            ))}
+          </select>
+          <span>with</span>
+          <select
+            value={outcome}
+            onChange={(e) => setOutcome(e.target.value as NumericCheckinField)}
+            className="bg-slate-800 border border-slate-600 text-white rounded-md px-2 py-1"
+          >
+            {NUMERIC_METRICS.map(field => (
+              <option key={field.key} value={field.key}>{field.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {profile.map((effect, lag) => (
+            <div key={lag} className="bg-slate-900/40 border border-slate-700 rounded-lg p-3 text-center">
+              <div className="text-gray-400 text-xs mb-1">
+                {lag === 0 ? 'Same day' : `+${lag} day${lag > 1 ? 's' : ''}`}
+              </div>
+              {effect ? (
+                <>
+                  <div className={`text-lg font-bold ${effect.coefficient >= 0 ? 'text-blue-400' : 'text-red-400'}`}>
+                    {effect.coefficient.toFixed(2)}
+                  </div>
+                  <div className="text-gray-500 text-xs">
+                    n = {effect.sampleSize} · {CONFIDENCE_STYLES[effect.confidence].label.split(' ')[0]}
+                  </div>
+                </>
+              ) : (
+                <div className="text-gray-500 text-sm py-2">Not enough data</div>
+              )}
+            </div>
+          ))}
+        </div>
+        <p className="text-gray-500 text-xs mt-3">
+          {getFieldLabel(input)} on one day is compared with {getFieldLabel(outcome).toLowerCase()} on the same or following days.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default StrongestLevers;
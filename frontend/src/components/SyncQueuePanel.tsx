@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import SyncService from '../services/syncService';
+import type { SyncQueueItem, SyncStatus } from '../types/sync';
+
+const STATUS_STYLES: Record<SyncStatus, { label: string; className: string }> = {
+  pending: { label: 'Waiting for connection', className: 'text-blue-300 bg-blue-600/20 border-blue-500/30' },
+  syncing: { label: 'Syncing...', className: 'text-cyan-300 bg-cyan-600/20 border-cyan-500/30' },
+  failed: { label: 'Sync failed', className: 'text-red-300 bg-red-900/20 border-red-700' },
+  conflict: { label: 'Conflict', className: 'text-amber-300 bg-amber-900/20 border-amber-700' }
+};
+
+const SyncQueuePanel: React.FC = () => {
+  const [items, setItems] = useState<SyncQueueItem[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const unsubscribe = SyncService.subscribe(setItems);
+    SyncService.getQueue().then(setItems);
+
+    const handleConnectivity = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', handleConnectivity);
+    window.addEventListener('offline', handleConnectivity);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleConnectivity);
+      window.removeEventListener('offline', handleConnectivity);
+    };
+  }, []);
+
+  if (items.length === 0 && isOnline) {
+    return null;
+  }
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-white">Offline Sync</h3>
+        <span className={`text-xs font-medium ${isOnline ? 'text-blue-300' : 'text-amber-300'}`}>
+          {isOnline ? 'Online' : 'Offline - check-ins are saved on this device'}
+        </span>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-slate-400 text-sm">Nothing waiting to sync.</p>
+      ) : (
+        <div className="space-y-3">
+          {items.map(item => {
+            const status = STATUS_STYLES[item.status];
+            return (
+              <div key={item.localId} className="bg-slate-800/20 border border-slate-700/20 rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="text-white font-medium text-sm">
+                      {item.operation === 'create' ? 'New check-in' : 'Edited check-in'} for{' '}
+                      {new Date(item.payload.date).toLocaleDateString()}
+                    </h4>
+                    <p className="text-slate-500 text-xs">
+                      Saved {new Date(item.queuedAt).toLocaleString()}
+                      {item.error && <span className="text-slate-400"> • {item.error}</span>}
+                    </p>
+                  </div>
+                  <span className={`text-xs border rounded-full px-2 py-0.5 ${status.className}`}>
+                    {status.label}
+                  </span>
+                </div>
+
+                {item.status === 'failed' && (
+                  <div className="flex gap-3 mt-3 text-xs font-medium">
+                    <button
+                      onClick={() => SyncService.retry(item.localId!)}
+                      className="text-blue-400 hover:text-blue-300 transition-colors"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => SyncService.discard(item.localId!)}
+                      className="text-slate-500 hover:text-slate-400 transition-colors"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                )}
+
+                {item.status === 'conflict' && (
+                  <div className="mt-3">
+                    {item.serverVersion && (
+                      <p className="text-slate-400 text-xs mb-2">
+                        Server copy last updated {new Date(item.serverVersion.updatedAt).toLocaleString()}.
+                      </p>
+                    )}
+                    <div className="flex gap-3 text-xs font-medium">
+                      <button
+                        onClick={() => SyncService.resolveConflict(item.localId!, 'local')}
+                        className="text-blue-400 hover:text-blue-300 transition-colors"
+                      >
+                        Keep my changes
+                      </button>
+                      <button
+                        onClick={() => SyncService.resolveConflict(item.localId!, 'server')}
+                        className="text-slate-500 hover:text-slate-400 transition-colors"
+                      >
+                        Keep server version
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncQueuePanel;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { TAG_RULES } from '../types/customMetric';
+import { normalizeTag } from '../utils/customMetrics';
+
+interface TagInputProps {
+  tags: string[];
+  suggestions?: string[]; // Previously used tags, offered while typing
+  onChange: (tags: string[]) => void;
+}
+
+/**
+ * Freeform tag chips; Enter or comma adds the typed tag, Backspace on an empty box removes the last one
+ */
+const TagInput: React.FC<TagInputProps> = ({ tags, suggestions = [], onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    setDraft('');
+    if (!tag || tags.includes(tag) || tags.length >= TAG_RULES.maxTags.value) return;
+    onChange([...tags, tag.slice(0, TAG_RULES.maxLength.value)]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && draft === '' && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 bg-slate-900/50 border border-slate-600/50 rounded-lg py-2 px-3 focus-within:ring-2 focus-within:ring-blue-500/50 focus-within:border-blue-500/50 transition-all">
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 bg-blue-600/20 border border-blue-500/30 text-blue-200 rounded-full px-3 py-1 text-sm"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter(t => t !== tag))}
+              className="text-blue-300 hover:text-white"
+              aria-label={`Remove tag ${tag}`}
+            >
+              ✕
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          list="tag-suggestions"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => draft && addTag(draft)}
+          maxLength={TAG_RULES.maxLength.value}
+          placeholder={tags.length === 0 ? 'e.g. travel, sick, deadline' : ''}
+          className="flex-1 min-w-[8rem] bg-transparent py-1 text-white placeholder-slate-500 focus:outline-none"
+        />
+        <datalist id="tag-suggestions">
+          {suggestions.filter(tag => !tags.includes(tag)).map(tag => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+      </div>
+      <p className="text-xs text-slate-500 mt-2">
+        Press Enter or comma to add a tag ({tags.length}/{TAG_RULES.maxTags.value})
+      </p>
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { CheckinResponse } from '../types/checkin';
+import { detectAnomalies } from '../utils/anomalies';
+import { anomalyStorage } from '../utils/anomalyStorage';
+import { fromDayNumber, toDayNumber } from '../utils/statistics';
+import { formatMetricValue, getMetricLabel } from '../utils/metricRegistry';
+
+interface UnusualDaysCardProps {
+  checkins: CheckinResponse[]; // Needs a few weeks before the recent days to build baselines
+  days?: number; // How far back to list unusual days
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const UnusualDaysCard: React.FC<UnusualDaysCardProps> = ({ checkins, days = 14 }) => {
+  const navigate = useNavigate();
+  const [explanations, setExplanations] = useState(() => anomalyStorage.getExplanations());
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [showExplained, setShowExplained] = useState(false);
+
+  const anomalies = useMemo(() => {
+    const since = fromDayNumber(toDayNumber(new Date().toISOString().split('T')[0]) - days + 1);
+    return detectAnomalies(checkins).filter(anomaly => anomaly.date >= since);
+  }, [checkins, days]);
+
+  const open = anomalies.filter(anomaly => !explanations[anomaly.key]);
+  const explained = anomalies.filter(anomaly => explanations[anomaly.key]);
+  const visible = showExplained ? anomalies : open;
+
+  const handleSave = (key: string) => {
+    if (!note.trim()) return;
+    anomalyStorage.explain(key, note.trim());
+    setExplanations(anomalyStorage.getExplanations());
+    setEditingKey(null);
+    setNote('');
+  };
+
+  const handleReopen = (key: string) => {
+    anomalyStorage.removeExplanation(key);
+    setExplanations(anomalyStorage.getExplanations());
+  };
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-white mb-1">Unusual Days</h3>
+          <p className="text-slate-400 text-sm">Values far from your usual range over the last {days} days</p>
+        </div>
+        {explained.length > 0 && (
+          <button
+            onClick={() => setShowExplained(!showExplained)}
+            className="text-blue-400 hover:text-blue-300 text-sm font-medium transition-colors"
+          >
+            {showExplained ? 'Hide explained' : `Show explained (${explained.length})`}
+          </button>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-slate-400 text-sm">
+          {anomalies.length === 0 ? 'Nothing out of the ordinary recently.' : 'All unusual days have been explained.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {visible.map(anomaly => {
+            const explanation = explanations[anomaly.key];
+            return (
+              <div key={anomaly.key} className="bg-slate-800/20 border border-slate-700/20 rounded-lg p-4">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                  <div>
+                    <div className="text-white text-sm font-medium">
+                      <span className={anomaly.direction === 'high' ? 'text-orange-400' : 'text-blue-400'}>
+                        {anomaly.direction === 'high' ? '▲' : '▼'}
+                      </span>{' '}
+                      {getMetricLabel(anomaly.metric)}: {formatMetricValue(anomaly.metric, anomaly.value)}
+                    </div>
+                    <div className="text-slate-400 text-xs">
+                      {formatDate(anomaly.date)} · usually {formatMetricValue(anomaly.metric, anomaly.baselineMedian)}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3 text-xs">
+                    {anomaly.checkinIds.length > 0 && (
+                      <button
+                        onClick={() => navigate(`/checkin/${anomaly.checkinIds[0]}`)}
+                        className="text-blue-400 hover:text-blue-300 font-medium transition-colors"
+                      >
+                        View check-in
+                      </button>
+                    )}
+                    {explanation ? (
+                      <button
+                        onClick={() => handleReopen(anomaly.key)}
+                        className="text-slate-400 hover:text-slate-300 font-medium transition-colors"
+                      >
+                        Reopen
+                      </button>
+                    ) : editingKey !== anomaly.key && (
+                      <button
+                        onClick={() => {
+                          setEditingKey(anomaly.key);
+                          setNote('');
+                        }}
+                        className="text-slate-300 hover:text-white font-medium transition-colors"
+                      >
+                        Mark explained
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {explanation && (
+                  <p className="mt-2 text-slate-400 text-xs italic">"{explanation.note}"</p>
+                )}
+
+                {editingKey === anomaly.key && (
+                  <div className="flex gap-2 mt-3">
+                    <input
+                      type="text"
+                      value={note}
+                      maxLength={200}
+                      autoFocus
+                      onChange={(e) => setNote(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleSave(anomaly.key)}
+                      placeholder="e.g. Red-eye flight, travel day"
+                      className="flex-1 bg-slate-900/50 border border-slate-600/40 text-white text-sm rounded-lg px-3 py-1.5"
+                    />
+                    <button
+                      onClick={() => handleSave(anomaly.key)}
+                      disabled={!note.trim()}
+                      className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-sm px-3 py-1.5 rounded-lg transition-colors"
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setEditingKey(null)}
+                      className="text-slate-400 hover:text-white text-sm px-2 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UnusualDaysCard;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import type { WidgetType } from '../types/widget';
+import { WIDGET_LIBRARY } from '../utils/dashboardLayout';
+import { STAT_METRICS } from '../utils/statistics';
+import { getMetricLabel } from '../utils/metricRegistry';
+import type { StatMetric } from '../utils/statistics';
+
+interface WidgetLibraryProps {
+  onAdd: (type: WidgetType, metric?: StatMetric) => void;
+}
+
+const WidgetLibrary: React.FC<WidgetLibraryProps> = ({ onAdd }) => {
+  const [metrics, setMetrics] = useState<Partial<Record<WidgetType, StatMetric>>>({});
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-6">
+      <h3 className="text-lg font-bold text-white mb-1">Widget Library</h3>
+      <p className="text-slate-400 text-sm mb-4">Add a widget to the end of your dashboard.</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {WIDGET_LIBRARY.map(definition => (
+          <div
+            key={definition.type}
+            className="flex flex-col bg-slate-800/20 border border-slate-700/20 rounded-lg p-4"
+          >
+            <div className="text-white text-sm font-medium mb-1">
+              <span className="mr-2">{definition.icon}</span>
+              {definition.label}
+            </div>
+            <p className="text-slate-400 text-xs mb-3 flex-1">{definition.description}</p>
+            {definition.hasMetric && (
+              <select
+                value={metrics[definition.type] || 'sleepHours'}
+                onChange={(e) => setMetrics({ ...metrics, [definition.type]: e.target.value as StatMetric })}
+                className="mb-3 bg-slate-900/50 border border-slate-600/40 text-white text-sm rounded-lg px-2 py-1.5"
+              >
+                {STAT_METRICS.map(metric => (
+                  <option key={metric} value={metric}>{getMetricLabel(metric)}</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => onAdd(definition.type, metrics[definition.type])}
+              className="bg-blue-600 hover:bg-blue-500 text-white text-sm px-3 py-1.5 rounded-lg transition-colors"
+            >
+              Add
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WidgetLibrary;
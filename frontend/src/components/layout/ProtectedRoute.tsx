@@ -1,14 +1,25 @@
-import { Navigate } from 'react-router-dom';
-import { tokenStorage } from '../../utils/tokenStorage';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import { getLoginPath } from '../../utils/session';
+import { SessionExpiryWarning } from './SessionExpiryWarning';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
 }
 
 export function ProtectedRoute({ children }: ProtectedRouteProps) {
-  if (!tokenStorage.isAuthenticated()) {
-    return <Navigate to="/login" replace />;
+  const location = useLocation();
+  const { isAuthenticated, sessionExpired } = useAuth();
+
+  // An expired session keeps the page up behind the re-login prompt so nothing typed is lost
+  if (!isAuthenticated && !sessionExpired) {
+    return <Navigate to={getLoginPath(location.pathname + location.search)} replace />;
   }
 
-  return <>{children}</>;
-}
\ No newline at end of file
+  return (
+    <>
+      {children}
+      <SessionExpiryWarning />
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import { SESSION_WARNING_MINUTES, getLoginPath } from '../../utils/session';
+
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+// Warns before the session runs out and blocks the page once it has, so the user re-logs in on purpose
+export function SessionExpiryWarning() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { session, sessionExpired, logout } = useAuth();
+  const [now, setNow] = useState(() => Date.now());
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), CHECK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const expiresAt = session?.expiresAt;
+  const msLeft = expiresAt ? new Date(expiresAt).getTime() - now : null;
+  const isExpiring = msLeft !== null && msLeft > 0 && msLeft <= SESSION_WARNING_MINUTES * 60 * 1000;
+
+  const logInAgain = () => {
+    logout();
+    navigate(getLoginPath(location.pathname + location.search));
+  };
+
+  if (sessionExpired) {
+    return (
+      <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4">
+        <div className="bg-slate-800 border border-slate-700 rounded-lg p-6 w-full max-w-md">
+          <h2 className="text-xl font-bold text-white mb-2">Session expired</h2>
+          <p className="text-slate-300 text-sm mb-6">
+            Please log in again. Anything you were entering is saved as a draft and you'll come straight back to this page.
+          </p>
+          <button
+            onClick={logInAgain}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md transition-colors"
+          >
+            Log in again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isExpiring || dismissed) {
+    return null;
+  }
+
+  const minutesLeft = Math.max(1, Math.ceil((msLeft ?? 0) / 60000));
+
+  return (
+    <div className="fixed bottom-4 inset-x-4 z-40 mx-auto max-w-xl bg-amber-900/90 border border-amber-700 text-amber-100 px-4 py-3 rounded-lg shadow-lg flex items-center justify-between gap-4 print:hidden">
+      <p className="text-sm">
+        Your session expires in {minutesLeft} minute{minutesLeft === 1 ? '' : 's'}. Drafts are kept if you log in again.
+      </p>
+      <div className="flex items-center gap-3 shrink-0">
+        <button
+          onClick={logInAgain}
+          className="bg-amber-600 hover:bg-amber-500 text-white text-sm px-3 py-1.5 rounded-md transition-colors"
+        >
+          Log in again
+        </button>
+        <button
+          onClick={() => setDismissed(true)}
+          className="text-amber-200 hover:text-white text-sm transition-colors"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
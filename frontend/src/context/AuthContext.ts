@@ -0,0 +1,31 @@
+import { createContext, useContext } from 'react';
+import type { LoginRequest, RegisterRequest, User } from '../types/auth';
+
+export interface AuthSession {
+  token: string;
+  user: User;
+  expiresAt: string | null; // ISO timestamp, null when unknown
+}
+
+export interface AuthContextValue {
+  session: AuthSession | null;
+  user: User | null;
+  isAuthenticated: boolean;
+  sessionExpired: boolean; // The session ended while a page was open, see SessionExpiryWarning
+  login: (data: LoginRequest) => Promise<void>;
+  register: (data: RegisterRequest) => Promise<void>;
+  logout: () => void;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+/**
+ * The signed-in user and the actions that change who that is
+ */
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
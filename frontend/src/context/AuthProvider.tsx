@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { LoginRequest, RegisterRequest } from '../types/auth';
+import { authService } from '../services/authService';
+import { bindAuth } from '../services/api';
+import SyncService from '../services/syncService';
+import { invalidateCheckins } from '../services/checkinQueries';
+import { customMetricQueries } from '../services/customMetricQueries';
+import { AUTH_STORAGE_KEYS, tokenStorage } from '../utils/tokenStorage';
+import { AuthContext } from './AuthContext';
+import type { AuthContextValue, AuthSession } from './AuthContext';
+
+// setTimeout fires immediately past this, so longer sessions aren't scheduled
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const readSession = (): AuthSession | null => {
+  const token = tokenStorage.getToken();
+  const user = tokenStorage.getUser();
+  if (!token || !user || tokenStorage.isExpired()) return null;
+  return { token, user, expiresAt: tokenStorage.getExpiresAt() };
+};
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<AuthSession | null>(readSession);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  // Read by the api client, so it changes together with the state rather than an effect later
+  const sessionRef = useRef(session);
+
+  const applySession = useCallback((next: AuthSession | null, expired = false) => {
+    // Cached data belongs to the old session; an expired one keeps it for the page behind the re-login prompt
+    if (!expired && next?.token !== sessionRef.current?.token) {
+      queryClient.clear();
+    }
+    sessionRef.current = next;
+    setSession(next);
+    setSessionExpired(expired);
+    // Check-ins queued while signed out can only be sent now
+    if (next) SyncService.processQueue();
+  }, [queryClient]);
+
+  const expireSession = useCallback(() => {
+    tokenStorage.expireToken();
+    applySession(null, true);
+  }, [applySession]);
+
+  // A layout effect, so the client has the token before any page's data effects run
+  useLayoutEffect(() => {
+    return bindAuth({
+      getToken: () => sessionRef.current?.token ?? null,
+      onUnauthorized: () => {
+        if (sessionRef.current) expireSession();
+      }
+    });
+  }, [expireSession]);
+
+  useEffect(() => {
+    // Replay check-ins captured while offline, now that requests carry the token,
+    // and refetch cached check-ins once replayed ones reach the server
+    const unsubscribe = SyncService.onSynced(() => invalidateCheckins(queryClient));
+    SyncService.start();
+    return unsubscribe;
+  }, [queryClient]);
+
+  // Check-in validation and display read this device's copy of the custom metrics, so refresh it per session
+  useEffect(() => {
+    if (session) queryClient.prefetchQuery(customMetricQueries.list());
+  }, [session, queryClient]);
+
+  // Logging in or out in another tab does the same here
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || AUTH_STORAGE_KEYS.includes(event.key)) {
+        applySession(readSession());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [applySession]);
+
+  // End the session when the token runs out rather than at the next failed request
+  useEffect(() => {
+    if (!session?.expiresAt) return;
+    const msLeft = new Date(session.expiresAt).getTime() - Date.now();
+    if (msLeft > MAX_TIMEOUT_MS) return;
+    const timer = window.setTimeout(expireSession, Math.max(0, msLeft));
+    return () => window.clearTimeout(timer);
+  }, [session, expireSession]);
+
+  const login = useCallback(async (data: LoginRequest) => {
+    await authService.login(data);
+    applySession(readSession());
+  }, [applySession]);
+
+  const register = useCallback(async (data: RegisterRequest) => {
+    await authService.register(data);
+    applySession(readSession());
+  }, [applySession]);
+
+  const logout = useCallback(() => {
+    authService.logout();
+    applySession(null);
+  }, [applySession]);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    session,
+    user: session?.user ?? null,
+    isAuthenticated: session !== null,
+    sessionExpired,
+    login,
+    register,
+    logout
+  }), [session, sessionExpired, login, register, logout]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
@@ -1,210 +1,245 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   LineChart,
   Line,
-  AreaChart,
+  ComposedChart,
   Area,
-  BarChart,
   Bar,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceLine,
   ResponsiveContainer
 } from 'recharts';
-import CheckinService from '../services/checkinService';
-import type { CheckinResponse } from '../types/checkin';
-import { tokenStorage } from '../utils/tokenStorage';
-
-interface AnalyticsData {
-  date: string;
-  sleepHours: number;
-  sleepQuality: number;
-  avgEnergy: number;
-  mood: string;
-  moodScore: number;
-  stressLevel: number;
-  exerciseDuration: number;
-  productivityRating: number;
-  waterGlasses: number;
-  caffeine: number;
-}
+import { useQuery } from '@tanstack/react-query';
+import { checkinQueries } from '../services/checkinQueries';
+import { useAuth } from '../context/AuthContext';
+import { processCheckinData } from '../utils/analyticsData';
+import type { AnalyticsData } from '../utils/analyticsData';
+import { computeCheckinStats, getMetricValue, round, startOfWeek, toDayNumber } from '../utils/statistics';
+import { formatMetricValue, getMetric, getMetricLabel } from '../utils/metricRegistry';
+import type { StatMetric } from '../utils/statistics';
+import { goalStorage } from '../utils/goalStorage';
+import { detectAnomalies, getAnomalyKey } from '../utils/anomalies';
+import type { Anomaly } from '../utils/anomalies';
+import { anomalyStorage } from '../utils/anomalyStorage';
+import StrongestLevers from '../components/StrongestLevers';
+import InsightsPanel from '../components/InsightsPanel';
+import DailyCheckinCard from '../components/DailyCheckinCard';
+import PatternsPanel from '../components/PatternsPanel';
+import CustomMetricsChart from '../components/CustomMetricsChart';
+import ExportDialog from '../components/ExportDialog';
+import DateRangePicker from '../components/DateRangePicker';
+import ChartOverlayControls from '../components/ChartOverlayControls';
+import { addOverlays, DEFAULT_CHART_OVERLAYS, getOverlayKey } from '../utils/smoothing';
+import type { ChartOverlays, OverlaySeries } from '../utils/smoothing';
+import { userStorage } from '../utils/userStorage';
+import { describeDateRange, parseDateRange, resolveDateRange, toSearchParams } from '../utils/dateRange';
+import type { DateRange } from '../utils/dateRange';
 
 interface TrendData {
   period: string;
+  weekStart: string;
   sleep: number;
   energy: number;
   productivity: number;
   mood: number;
 }
 
-const Analytics: React.FC = () => {
-  const navigate = useNavigate();
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string>('');
-  const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d'>('30d');
-  const [analyticsData, setAnalyticsData] = useState<AnalyticsData[]>([]);
-  const [trendData, setTrendData] = useState<TrendData[]>([]);
-  const [insights, setInsights] = useState({
-    avgSleep: 0,
-    avgEnergy: 0,
-    avgProductivity: 0,
-    avgMood: 0,
-    totalCheckins: 0,
-    bestDay: '',
-    improvementArea: ''
+// Weekly averages for the trend chart
+const generateTrendData = (data: AnalyticsData[]): TrendData[] => {
+  // Group by calendar week (Monday start), rows are already chronological
+  const weeks = new Map<string, AnalyticsData[]>();
+  data.forEach(d => {
+    const weekStart = startOfWeek(d.checkin.date);
+    weeks.set(weekStart, [...(weeks.get(weekStart) || []), d]);
   });
 
-  const user = tokenStorage.getUser();
-  const displayName = user?.firstName || 'User';
+  const trends: TrendData[] = [];
+  weeks.forEach((weekData, weekStart) => {
+    const stats = computeCheckinStats(weekData.map(d => d.checkin));
+
+    trends.push({
+      weekStart,
+      period: `Week of ${new Date(`${weekStart}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
+      sleep: round(stats.averageSleep) ?? 0,
+      energy: round(stats.averageEnergy) ?? 0,
+      productivity: round(stats.metrics.productivityRating.mean) ?? 0,
+      mood: round(stats.averageMood) ?? 0
+    });
+  });
 
-  // Mood scoring mapping
-  const moodScores: { [key: string]: number } = {
-    'terrible': 1,
-    'bad': 2,
-    'okay': 3,
-    'good': 4,
-    'great': 5,
-    'amazing': 6
-  };
+  return trends;
+};
 
-  const COLORS = {
-    sleep: '#3b82f6',      // Blue
-    energy: '#f59e0b',     // Amber  
-    productivity: '#10b981', // Emerald
-    mood: '#8b5cf6',       // Violet
-    stress: '#ef4444',     // Red
-    exercise: '#06b6d4'    // Cyan
+const calculateInsights = (data: AnalyticsData[]) => {
+  // Averages skip check-ins where a metric was not recorded
+  const stats = computeCheckinStats(data.map(d => d.checkin));
+  const avgSleep = round(stats.averageSleep) ?? 0;
+  const avgEnergy = round(stats.averageEnergy) ?? 0;
+  const avgProductivity = round(stats.metrics.productivityRating.mean) ?? 0;
+  const avgMood = round(stats.averageMood) ?? 0;
+
+  return {
+    avgSleep,
+    avgEnergy,
+    avgProductivity,
+    avgMood,
+    totalCheckins: stats.totalCheckins
   };
+};
 
-  useEffect(() => {
-    fetchAnalyticsData();
-  }, [timeRange]);
-
-  const fetchAnalyticsData = async () => {
-    try {
-      setLoading(true);
-      setError('');
-
-      const days = timeRange === '7d' ? 7 : timeRange === '30d' ? 30 : 90;
-      const checkins = await CheckinService.getRecentCheckins(days);
-
-      if (checkins.length === 0) {
-        setAnalyticsData([]);
-        setTrendData([]);
-        return;
-      }
-
-      // Process data for charts
-      const processedData = processCheckinData(checkins);
-      setAnalyticsData(processedData);
-
-      // Generate trend data (weekly averages)
-      const trends = generateTrendData(processedData);
-      setTrendData(trends);
-
-      // Calculate insights
-      const calculatedInsights = calculateInsights(processedData);
-      setInsights(calculatedInsights);
-
-    } catch (error) {
-      console.error('Error fetching analytics data:', error);
-      setError('Failed to load analytics data');
-    } finally {
-      setLoading(false);
-    }
-  };
+const Analytics: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The range lives in the URL so a view can be shared or bookmarked
+  const dateRange = useMemo(() => parseDateRange(searchParams), [searchParams]);
+  const [showExport, setShowExport] = useState(false);
+  const [selectedDay, setSelectedDay] = useState<number | null>(null); // Index into analyticsData
+  const [goals] = useState(() => goalStorage.getGoals());
+  const [anomalyExplanations] = useState(() => anomalyStorage.getExplanations());
+  const [overlays, setOverlays] = useState<ChartOverlays>(() => userStorage.get('chartOverlays', DEFAULT_CHART_OVERLAYS));
+  const { startDate, endDate } = resolveDateRange(dateRange);
+  const { data: checkins, isPending: loading, isError } = useQuery(checkinQueries.history(startDate, endDate));
+  const error = isError ? 'Failed to load analytics data' : '';
+
+  // Chart rows, weekly trends and headline averages all derive from the cached check-ins
+  const analyticsData = useMemo(() => processCheckinData(checkins ?? []), [checkins]);
+  const trendData = useMemo(() => generateTrendData(analyticsData), [analyticsData]);
+  const insights = useMemo(() => calculateInsights(analyticsData), [analyticsData]);
+
+  const { user, logout } = useAuth();
+  const displayName = user?.firstName || 'User';
 
-  const processCheckinData = (checkins: CheckinResponse[]): AnalyticsData[] => {
-    return checkins.map(checkin => {
-      const avgEnergy = ((checkin.energyMorning || 0) + 
-                       (checkin.energyAfternoon || 0) + 
-                       (checkin.energyEvening || 0)) / 3;
-
-      return {
-        date: new Date(checkin.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-        sleepHours: checkin.sleepHours || 0,
-        sleepQuality: checkin.sleepQuality || 0,
-        avgEnergy: Math.round(avgEnergy * 10) / 10,
-        mood: checkin.mood || 'okay',
-        moodScore: moodScores[checkin.mood || 'okay'] || 3,
-        stressLevel: checkin.stressLevel || 0,
-        exerciseDuration: checkin.exerciseDuration || 0,
-        productivityRating: checkin.productivityRating || 0,
-        waterGlasses: checkin.waterGlasses || 0,
-        caffeine: checkin.caffeineMg || 0
-      };
-    }).reverse(); // Reverse to show chronological order
+  // Series colors come from the metric registry so every chart agrees
+  const COLORS = {
+    sleep: getMetric('sleepHours').color,
+    sleepQuality: getMetric('sleepQuality').color,
+    energy: getMetric('avgEnergy').color,
+    productivity: getMetric('productivityRating').color,
+    mood: getMetric('moodScore').color,
+    exercise: getMetric('exerciseDuration').color
   };
 
-  const generateTrendData = (data: AnalyticsData[]): TrendData[] => {
-    const weekSize = 7;
-    const trends: TrendData[] = [];
-
-    for (let i = 0; i < data.length; i += weekSize) {
-      const weekData = data.slice(i, i + weekSize);
-      if (weekData.length === 0) continue;
-
-      const avgSleep = weekData.reduce((sum, d) => sum + d.sleepHours, 0) / weekData.length;
-      const avgEnergy = weekData.reduce((sum, d) => sum + d.avgEnergy, 0) / weekData.length;
-      const avgProductivity = weekData.reduce((sum, d) => sum + d.productivityRating, 0) / weekData.length;
-      const avgMood = weekData.reduce((sum, d) => sum + d.moodScore, 0) / weekData.length;
-
-      trends.push({
-        period: `Week ${Math.floor(i / weekSize) + 1}`,
-        sleep: Math.round(avgSleep * 10) / 10,
-        energy: Math.round(avgEnergy * 10) / 10,
-        productivity: Math.round(avgProductivity * 10) / 10,
-        mood: Math.round(avgMood * 10) / 10
-      });
-    }
-
-    return trends;
+  // Dashed target lines for the goals whose metric a chart plots
+  const renderGoalLines = (metrics: StatMetric[]) =>
+    goals
+      .filter(goal => metrics.includes(goal.metric))
+      .map(goal => (
+        <ReferenceLine
+          key={goal.id}
+          y={goal.target}
+          stroke={getMetric(goal.metric).color}
+          strokeDasharray="6 4"
+          label={{
+            value: `${getMetricLabel(goal.metric)} goal ${formatMetricValue(goal.metric, goal.target)}`,
+            position: 'insideTopRight',
+            fill: '#9ca3af',
+            fontSize: 11
+          }}
+        />
+      ));
+
+  // Chart rows with rolling average, smoothed and trendline columns for the overlays that are on
+  const dailyChartData = useMemo(() => {
+    const series = (['sleepHours', 'sleepQuality', 'avgEnergy', 'productivityRating', 'moodScore', 'exerciseDuration'] as StatMetric[])
+      .map((metric): OverlaySeries<AnalyticsData> => ({ key: metric, getValue: row => getMetricValue(row.checkin, metric) }));
+    return addOverlays(analyticsData, row => toDayNumber(row.checkin.date), series, overlays);
+  }, [analyticsData, overlays]);
+
+  const weeklyChartData = useMemo(() => {
+    const series = (['sleep', 'energy', 'productivity', 'mood'] as const)
+      .map((key): OverlaySeries<TrendData> => ({ key, getValue: row => row[key] }));
+    return addOverlays(trendData, row => toDayNumber(row.weekStart), series, overlays);
+  }, [trendData, overlays]);
+
+  // Overlay lines drawn over a chart's own series, kept out of the legend
+  const renderOverlayLines = (series: { key: string; name: string; color: string }[]) =>
+    series.flatMap(({ key, name, color }) => [
+      overlays.rollingWindow > 0 && (
+        <Line
+          key={getOverlayKey(key, 'rolling')}
+          type="monotone"
+          dataKey={getOverlayKey(key, 'rolling')}
+          stroke={color}
+          strokeWidth={4}
+          strokeOpacity={0.5}
+          dot={false}
+          connectNulls
+          legendType="none"
+          name={`${name} (${overlays.rollingWindow}-day avg)`}
+        />
+      ),
+      overlays.smoothing && (
+        <Line
+          key={getOverlayKey(key, 'smoothed')}
+          type="monotone"
+          dataKey={getOverlayKey(key, 'smoothed')}
+          stroke={color}
+          strokeWidth={2}
+          strokeDasharray="2 3"
+          dot={false}
+          connectNulls
+          legendType="none"
+          name={`${name} (smoothed)`}
+        />
+      ),
+      overlays.trendline && (
+        <Line
+          key={getOverlayKey(key, 'trend')}
+          type="linear"
+          dataKey={getOverlayKey(key, 'trend')}
+          stroke={color}
+          strokeWidth={1.5}
+          strokeDasharray="8 4"
+          dot={false}
+          legendType="none"
+          name={`${name} (trend)`}
+        />
+      )
+    ]);
+
+  const handleOverlaysChange = (next: ChartOverlays) => {
+    setOverlays(next);
+    userStorage.set('chartOverlays', next);
   };
 
-  const calculateInsights = (data: AnalyticsData[]) => {
-    if (data.length === 0) return insights;
-
-    const avgSleep = data.reduce((sum, d) => sum + d.sleepHours, 0) / data.length;
-    const avgEnergy = data.reduce((sum, d) => sum + d.avgEnergy, 0) / data.length;
-    const avgProductivity = data.reduce((sum, d) => sum + d.productivityRating, 0) / data.length;
-    const avgMood = data.reduce((sum, d) => sum + d.moodScore, 0) / data.length;
-
-    // Find best performing day
-    let bestDay = '';
-    let bestScore = 0;
-    data.forEach(d => {
-      const score = (d.sleepQuality + d.avgEnergy + d.productivityRating + d.moodScore) / 4;
-      if (score > bestScore) {
-        bestScore = score;
-        bestDay = d.date;
+  // Unusual values keyed by "date:metric" so chart dots can look them up
+  const anomalies = useMemo(() => {
+    const byKey = new Map<string, Anomaly>();
+    detectAnomalies(analyticsData.map(row => row.checkin)).forEach(anomaly => byKey.set(anomaly.key, anomaly));
+    return byKey;
+  }, [analyticsData]);
+
+  // Regular dots, with unusual values drawn larger in red (or hollow once explained)
+  const renderAnomalyDot = (metric: StatMetric, color: string) =>
+    ({ cx, cy, index, payload }: { cx?: number; cy?: number; index?: number; payload?: AnalyticsData }) => {
+      const key = payload ? getAnomalyKey(payload.checkin.date.split('T')[0], metric) : '';
+      const anomaly = anomalies.get(key);
+      if (cx === undefined || cy === undefined || !anomaly || !anomaly.checkinIds.includes(payload!.checkin.id)) {
+        return <circle key={`${metric}-${index}`} cx={cx} cy={cy} r={3} fill="#1f2937" stroke={color} strokeWidth={2} />;
       }
-    });
-
-    // Determine improvement area
-    const metrics = {
-      sleep: avgSleep < 7 ? 'Sleep' : null,
-      energy: avgEnergy < 6 ? 'Energy' : null,
-      productivity: avgProductivity < 6 ? 'Productivity' : null,
-      mood: avgMood < 4 ? 'Mood' : null
-    };
-    const improvementArea = Object.values(metrics).find(m => m !== null) || 'All metrics look good!';
-
-    return {
-      avgSleep: Math.round(avgSleep * 10) / 10,
-      avgEnergy: Math.round(avgEnergy * 10) / 10,
-      avgProductivity: Math.round(avgProductivity * 10) / 10,
-      avgMood: Math.round(avgMood * 10) / 10,
-      totalCheckins: data.length,
-      bestDay,
-      improvementArea
+      return anomalyExplanations[key] ? (
+        <circle key={`${metric}-${index}`} cx={cx} cy={cy} r={6} fill="none" stroke="#9ca3af" strokeWidth={2} />
+      ) : (
+        <circle key={`${metric}-${index}`} cx={cx} cy={cy} r={6} fill="#ef4444" stroke="#fecaca" strokeWidth={2} />
+      );
     };
+
+  // A drill-down index means nothing in another range
+  useEffect(() => {
+    setSelectedDay(null);
+  }, [dateRange]);
+
+  const handleDateRangeChange = (range: DateRange) => {
+    setSearchParams(toSearchParams(range, searchParams));
   };
 
   const handleLogout = () => {
-    tokenStorage.removeToken();
+    logout();
     navigate('/login');
   };
 
@@ -233,6 +268,7 @@ const Analytics: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-slate-900 p-4 md:p-8">
+      {showExport && <ExportDialog onClose={() => setShowExport(false)} />}
       <div className="max-w-7xl mx-auto">
         {/* Header */}
         <div className="flex flex-col md:flex-row md:items-center justify-between mb-8">
@@ -241,21 +277,48 @@ const Analytics: React.FC = () => {
               Analytics Dashboard
             </h1>
             <p className="text-gray-400">
-              Insights and trends for {displayName}'s health data
+              Insights and trends for {displayName}'s health data · {describeDateRange(dateRange)}
             </p>
           </div>
           
-          <div className="flex items-center gap-4 mt-4 md:mt-0">
-            {/* Time Range Selector */}
-            <select
-              value={timeRange}
-              onChange={(e) => setTimeRange(e.target.value as '7d' | '30d' | '90d')}
-              className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+          <div className="flex flex-wrap items-center gap-4 mt-4 md:mt-0">
+            {/* Date Range Selector */}
+            <DateRangePicker value={dateRange} onChange={handleDateRangeChange} />
+
+            <button
+              onClick={() => navigate({ pathname: '/analytics/correlations', search: toSearchParams(dateRange).toString() })}
+              className="bg-cyan-600 hover:bg-cyan-700 text-white px-4 py-2 rounded-md transition-colors"
             >
-              <option value="7d">Last 7 days</option>
-              <option value="30d">Last 30 days</option>
-              <option value="90d">Last 90 days</option>
-            </select>
+              Correlations
+            </button>
+
+            <button
+              onClick={() => navigate('/analytics/compare')}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Compare
+            </button>
+
+            <button
+              onClick={() => navigate('/experiments')}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Experiments
+            </button>
+
+            <button
+              onClick={() => navigate('/goals')}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Goals
+            </button>
+
+            <button
+              onClick={() => setShowExport(true)}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Export
+            </button>
 
             <button
               onClick={() => navigate('/dashboard')}
@@ -291,28 +354,40 @@ const Analytics: React.FC = () => {
             {/* Key Insights Cards */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 text-center">
-                <div className="text-2xl font-bold text-blue-400">{insights.avgSleep}h</div>
+                <div className="text-2xl font-bold text-blue-400">{formatMetricValue('sleepHours', insights.avgSleep)}</div>
                 <div className="text-gray-300 text-sm">Avg Sleep</div>
               </div>
               <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 text-center">
-                <div className="text-2xl font-bold text-amber-400">{insights.avgEnergy}/10</div>
+                <div className="text-2xl font-bold text-amber-400">{formatMetricValue('avgEnergy', insights.avgEnergy)}</div>
                 <div className="text-gray-300 text-sm">Avg Energy</div>
               </div>
               <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 text-center">
-                <div className="text-2xl font-bold text-emerald-400">{insights.avgProductivity}/10</div>
+                <div className="text-2xl font-bold text-emerald-400">{formatMetricValue('productivityRating', insights.avgProductivity)}</div>
                 <div className="text-gray-300 text-sm">Avg Productivity</div>
               </div>
               <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 text-center">
-                <div className="text-2xl font-bold text-violet-400">{insights.avgMood}/6</div>
+                <div className="text-2xl font-bold text-violet-400">{formatMetricValue('moodScore', insights.avgMood)}</div>
                 <div className="text-gray-300 text-sm">Avg Mood</div>
               </div>
             </div>
 
+            <ChartOverlayControls overlays={overlays} onChange={handleOverlaysChange} />
+
             {/* Main Trends Chart */}
             <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
-              <h2 className="text-xl font-semibold text-white mb-4">Daily Trends</h2>
+              <h2 className="text-xl font-semibold text-white mb-1">Daily Trends</h2>
+              <p className="text-gray-400 text-sm mb-4">
+                Red dots mark unusually high or low values compared with the weeks before; hollow ones have been explained.
+                Click a day to see the check-ins behind it.
+              </p>
               <ResponsiveContainer width="100%" height={400}>
-                <LineChart data={analyticsData}>
+                <LineChart
+                  data={dailyChartData}
+                  onClick={(state) => {
+                    const index = state.activeIndex === null || state.activeIndex === undefined ? NaN : Number(state.activeIndex);
+                    setSelectedDay(Number.isInteger(index) ? index : null);
+                  }}
+                >
                   <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
                   <XAxis 
                     dataKey="date" 
@@ -334,6 +409,7 @@ const Analytics: React.FC = () => {
                     dataKey="sleepHours" 
                     stroke={COLORS.sleep} 
                     strokeWidth={2}
+                    dot={renderAnomalyDot('sleepHours', COLORS.sleep)}
                     name="Sleep (hours)"
                   />
                   <Line 
@@ -341,6 +417,7 @@ const Analytics: React.FC = () => {
                     dataKey="avgEnergy" 
                     stroke={COLORS.energy} 
                     strokeWidth={2}
+                    dot={renderAnomalyDot('avgEnergy', COLORS.energy)}
                     name="Energy Level"
                   />
                   <Line 
@@ -348,6 +425,7 @@ const Analytics: React.FC = () => {
                     dataKey="productivityRating" 
                     stroke={COLORS.productivity} 
                     strokeWidth={2}
+                    dot={renderAnomalyDot('productivityRating', COLORS.productivity)}
                     name="Productivity"
                   />
                   <Line 
@@ -355,10 +433,23 @@ const Analytics: React.FC = () => {
                     dataKey="moodScore" 
                     stroke={COLORS.mood} 
                     strokeWidth={2}
+                    dot={renderAnomalyDot('moodScore', COLORS.mood)}
                     name="Mood Score"
                   />
+                  {renderOverlayLines([
+                    { key: 'sleepHours', name: 'Sleep (hours)', color: COLORS.sleep },
+                    { key: 'avgEnergy', name: 'Energy Level', color: COLORS.energy },
+                    { key: 'productivityRating', name: 'Productivity', color: COLORS.productivity },
+                    { key: 'moodScore', name: 'Mood Score', color: COLORS.mood }
+                  ])}
+                  {renderGoalLines(['sleepHours', 'avgEnergy', 'productivityRating', 'moodScore'])}
                 </LineChart>
               </ResponsiveContainer>
+              {selectedDay !== null && analyticsData[selectedDay] && (
+                <div className="mt-4">
+                  <DailyCheckinCard key={analyticsData[selectedDay].checkin.date} day={analyticsData[selectedDay].checkin} defaultExpanded />
+                </div>
+              )}
             </div>
 
             {/* Sleep Analysis */}
@@ -366,7 +457,7 @@ const Analytics: React.FC = () => {
               <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
                 <h2 className="text-xl font-semibold text-white mb-4">Sleep Analysis</h2>
                 <ResponsiveContainer width="100%" height={300}>
-                  <AreaChart data={analyticsData}>
+                  <ComposedChart data={dailyChartData}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
                     <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} />
                     <YAxis stroke="#9ca3af" fontSize={12} />
@@ -390,18 +481,23 @@ const Analytics: React.FC = () => {
                       type="monotone" 
                       dataKey="sleepQuality" 
                       stackId="2"
-                      stroke="#60a5fa" 
-                      fill="#60a5fa40"
+                      stroke={COLORS.sleepQuality} 
+                      fill={`${COLORS.sleepQuality}40`}
                       name="Sleep Quality"
                     />
-                  </AreaChart>
+                    {renderOverlayLines([
+                      { key: 'sleepHours', name: 'Sleep Hours', color: COLORS.sleep },
+                      { key: 'sleepQuality', name: 'Sleep Quality', color: COLORS.sleepQuality }
+                    ])}
+                    {renderGoalLines(['sleepHours', 'sleepQuality'])}
+                  </ComposedChart>
                 </ResponsiveContainer>
               </div>
 
               <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
                 <h2 className="text-xl font-semibold text-white mb-4">Exercise Impact</h2>
                 <ResponsiveContainer width="100%" height={300}>
-                  <BarChart data={analyticsData}>
+                  <ComposedChart data={dailyChartData}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
                     <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} />
                     <YAxis stroke="#9ca3af" fontSize={12} />
@@ -414,7 +510,9 @@ const Analytics: React.FC = () => {
                       }}
                     />
                     <Bar dataKey="exerciseDuration" fill={COLORS.exercise} name="Exercise (min)" />
-                  </BarChart>
+                    {renderOverlayLines([{ key: 'exerciseDuration', name: 'Exercise (min)', color: COLORS.exercise }])}
+                    {renderGoalLines(['exerciseDuration'])}
+                  </ComposedChart>
                 </ResponsiveContainer>
               </div>
             </div>
@@ -424,7 +522,7 @@ const Analytics: React.FC = () => {
               <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
                 <h2 className="text-xl font-semibold text-white mb-4">Weekly Progress</h2>
                 <ResponsiveContainer width="100%" height={350}>
-                  <BarChart data={trendData}>
+                  <ComposedChart data={weeklyChartData}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
                     <XAxis dataKey="period" stroke="#9ca3af" fontSize={12} />
                     <YAxis stroke="#9ca3af" fontSize={12} />
@@ -441,54 +539,29 @@ const Analytics: React.FC = () => {
                     <Bar dataKey="energy" fill={COLORS.energy} name="Energy" />
                     <Bar dataKey="productivity" fill={COLORS.productivity} name="Productivity" />
                     <Bar dataKey="mood" fill={COLORS.mood} name="Mood" />
-                  </BarChart>
+                    {renderOverlayLines([
+                      { key: 'sleep', name: 'Sleep', color: COLORS.sleep },
+                      { key: 'energy', name: 'Energy', color: COLORS.energy },
+                      { key: 'productivity', name: 'Productivity', color: COLORS.productivity },
+                      { key: 'mood', name: 'Mood', color: COLORS.mood }
+                    ])}
+                    {renderGoalLines(['sleepHours', 'avgEnergy', 'productivityRating', 'moodScore'])}
+                  </ComposedChart>
                 </ResponsiveContainer>
               </div>
             )}
 
-            {/* Insights Panel */}
-            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
-              <h2 className="text-xl font-semibold text-white mb-4">Insights & Recommendations</h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="space-y-4">
-                  <div>
-                    <h3 className="text-cyan-400 font-medium mb-2">📊 Summary</h3>
-                    <p className="text-gray-300 text-sm">
-                      You've completed <strong>{insights.totalCheckins}</strong> check-ins in the selected period.
-                      {insights.bestDay && (
-                        <span> Your best day was <strong>{insights.bestDay}</strong>.</span>
-                      )}
-                    </p>
-                  </div>
-                  <div>
-                    <h3 className="text-amber-400 font-medium mb-2">🎯 Focus Area</h3>
-                    <p className="text-gray-300 text-sm">
-                      Consider focusing on: <strong>{insights.improvementArea}</strong>
-                    </p>
-                  </div>
-                </div>
-                <div className="space-y-4">
-                  <div>
-                    <h3 className="text-emerald-400 font-medium mb-2">💡 Recommendations</h3>
-                    <ul className="text-gray-300 text-sm space-y-2">
-                      {insights.avgSleep < 7 && (
-                        <li>• Try to get 7-9 hours of sleep for optimal performance</li>
-                      )}
-                      {insights.avgEnergy < 6 && (
-                        <li>• Consider adjusting your sleep schedule or exercise routine</li>
-                      )}
-                      {insights.avgProductivity < 6 && (
-                        <li>• Experiment with different work environments or techniques</li>
-                      )}
-                      {insights.avgMood < 4 && (
-                        <li>• Practice stress management techniques like meditation</li>
-                      )}
-                      <li>• Keep tracking consistently for better insights!</li>
-                    </ul>
-                  </div>
-                </div>
-              </div>
-            </div>
+            {/* User-defined metrics and tags */}
+            <CustomMetricsChart checkins={analyticsData.map(d => d.checkin)} />
+
+            {/* Day-of-week and time-of-day patterns */}
+            <PatternsPanel checkins={analyticsData.map(d => d.checkin)} />
+
+            {/* Lagged effects */}
+            <StrongestLevers checkins={analyticsData.map(d => d.checkin)} />
+
+            {/* Ranked rule-based insights */}
+            <InsightsPanel checkins={analyticsData.map(d => d.checkin)} goals={goals} />
           </div>
         )}
       </div>
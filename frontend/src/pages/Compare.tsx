@@ -0,0 +1,362 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { useQuery } from '@tanstack/react-query';
+import { checkinQueries } from '../services/checkinQueries';
+import {
+  alignByDayOfPeriod,
+  compareMetric,
+  COMPARISON_PRESETS,
+  describeSignificance,
+  getCheckinsInPeriod,
+  getPresetPeriods
+} from '../utils/periodComparison';
+import type { ComparisonPreset, Period, SignificanceHint } from '../utils/periodComparison';
+import { STAT_METRICS } from '../utils/statistics';
+import { formatMetricValue, getMetricLabel } from '../utils/metricRegistry';
+import type { StatMetric } from '../utils/statistics';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const SIGNIFICANCE_STYLES: Record<SignificanceHint, string> = {
+  likely: 'bg-emerald-900/30 text-emerald-300 border-emerald-700',
+  unclear: 'bg-amber-900/30 text-amber-300 border-amber-700',
+  insufficient: 'bg-slate-700/40 text-gray-400 border-slate-600'
+};
+
+const COLORS = {
+  a: '#64748b', // Slate
+  b: '#06b6d4' // Cyan
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const describePeriod = (period: Period) => `${formatDate(period.startDate)} – ${formatDate(period.endDate)}`;
+
+/**
+ * Periods from "?aFrom=…&aTo=…&bFrom=…&bTo=…", or this week vs last week
+ */
+const parsePeriods = (params: URLSearchParams): { a: Period; b: Period } => {
+  const values = ['aFrom', 'aTo', 'bFrom', 'bTo'].map(key => params.get(key) || '');
+  const [aFrom, aTo, bFrom, bTo] = values;
+  if (values.every(value => DATE_PATTERN.test(value)) && aFrom <= aTo && bFrom <= bTo) {
+    return { a: { startDate: aFrom, endDate: aTo }, b: { startDate: bFrom, endDate: bTo } };
+  }
+  return getPresetPeriods('week');
+};
+
+const Compare: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const periods = useMemo(() => parsePeriods(searchParams), [searchParams]);
+  const [draft, setDraft] = useState(periods);
+  const [preset, setPreset] = useState<ComparisonPreset | ''>('');
+  const [pivot, setPivot] = useState(new Date().toISOString().split('T')[0]);
+  const [pivotDays, setPivotDays] = useState(14);
+  const [chartMetric, setChartMetric] = useState<StatMetric>('avgEnergy');
+
+  // One fetch covering both periods
+  const startDate = [periods.a.startDate, periods.b.startDate].sort()[0];
+  const endDate = [periods.a.endDate, periods.b.endDate].sort()[1];
+  const { data, isPending: loading, isError } = useQuery(checkinQueries.history(startDate, endDate));
+  const checkins = useMemo(() => data ?? [], [data]);
+  const error = isError ? 'Failed to load check-in data' : '';
+
+  useEffect(() => {
+    setDraft(periods);
+  }, [periods]);
+
+  const applyPeriods = (next: { a: Period; b: Period }) => {
+    setSearchParams({
+      aFrom: next.a.startDate,
+      aTo: next.a.endDate,
+      bFrom: next.b.startDate,
+      bTo: next.b.endDate
+    });
+  };
+
+  const handlePresetChange = (value: ComparisonPreset | '') => {
+    setPreset(value);
+    if (value && value !== 'beforeAfter') applyPeriods(getPresetPeriods(value));
+  };
+
+  const checkinsA = useMemo(() => getCheckinsInPeriod(checkins, periods.a), [checkins, periods]);
+  const checkinsB = useMemo(() => getCheckinsInPeriod(checkins, periods.b), [checkins, periods]);
+
+  const comparisons = useMemo(
+    () => STAT_METRICS
+      .map(metric => compareMetric(checkinsA, checkinsB, metric))
+      .filter(comparison => comparison.daysA > 0 || comparison.daysB > 0),
+    [checkinsA, checkinsB]
+  );
+
+  const alignedData = useMemo(
+    () => alignByDayOfPeriod(checkinsA, checkinsB, periods.a, periods.b, chartMetric),
+    [checkinsA, checkinsB, periods, chartMetric]
+  );
+
+  const isDraftValid = draft.a.startDate <= draft.a.endDate && draft.b.startDate <= draft.b.endDate &&
+    [draft.a.startDate, draft.a.endDate, draft.b.startDate, draft.b.endDate].every(date => DATE_PATTERN.test(date));
+
+  const renderPeriodInputs = (key: 'a' | 'b', label: string) => (
+    <div>
+      <div className="text-sm font-medium mb-2" style={{ color: COLORS[key] }}>{label}</div>
+      <div className="flex items-center gap-2">
+        <input
+          type="date"
+          value={draft[key].startDate}
+          onChange={(e) => setDraft({ ...draft, [key]: { ...draft[key], startDate: e.target.value } })}
+          className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+          aria-label={`${label} start`}
+        />
+        <span className="text-gray-400">to</span>
+        <input
+          type="date"
+          value={draft[key].endDate}
+          onChange={(e) => setDraft({ ...draft, [key]: { ...draft[key], endDate: e.target.value } })}
+          className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+          aria-label={`${label} end`}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-900 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-white mb-2">Compare Periods</h1>
+            <p className="text-gray-400">
+              {describePeriod(periods.a)} vs {describePeriod(periods.b)}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 mt-4 md:mt-0">
+            <button
+              onClick={() => navigate('/analytics')}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Analytics
+            </button>
+          </div>
+        </div>
+
+        {/* Period selection */}
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 mb-8 space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={preset}
+              onChange={(e) => handlePresetChange(e.target.value as ComparisonPreset | '')}
+              className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+            >
+              <option value="">Quick comparisons…</option>
+              {COMPARISON_PRESETS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+
+            {preset === 'beforeAfter' && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+                <span>{pivotDays} days before and after</span>
+                <input
+                  type="date"
+                  value={pivot}
+                  onChange={(e) => setPivot(e.target.value)}
+                  className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                  aria-label="Change date"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  max={180}
+                  value={pivotDays}
+                  onChange={(e) => setPivotDays(Math.max(parseInt(e.target.value) || 1, 1))}
+                  className="w-20 bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                  aria-label="Days on each side"
+                />
+                <button
+                  onClick={() => applyPeriods(getPresetPeriods('beforeAfter', undefined, pivot, pivotDays))}
+                  disabled={!DATE_PATTERN.test(pivot)}
+                  className="bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white px-3 py-2 rounded-md transition-colors"
+                >
+                  Compare
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+            {renderPeriodInputs('a', 'Period A')}
+            {renderPeriodInputs('b', 'Period B')}
+            <button
+              onClick={() => {
+                setPreset('');
+                applyPeriods(draft);
+              }}
+              disabled={!isDraftValid}
+              className="bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-900/20 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400"></div>
+          </div>
+        ) : comparisons.length === 0 ? (
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-12 text-center">
+            <h3 className="text-xl font-semibold text-white mb-2">No Data Available</h3>
+            <p className="text-gray-400">Neither period has any check-ins yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {/* Per-metric deltas */}
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 overflow-x-auto">
+              <h2 className="text-xl font-semibold text-white mb-1">Metric Changes</h2>
+              <p className="text-gray-400 text-sm mb-4">
+                Daily averages, {checkinsA.length} check-ins in A and {checkinsB.length} in B.
+                The hint uses Welch's t-test at 95%.
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-700 text-left text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Metric</th>
+                    <th className="py-2 pr-4 font-medium text-right">Period A</th>
+                    <th className="py-2 pr-4 font-medium text-right">Period B</th>
+                    <th className="py-2 pr-4 font-medium text-right">Change</th>
+                    <th className="py-2 pr-4 font-medium text-right">%</th>
+                    <th className="py-2 font-medium">Significance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparisons.map(comparison => (
+                    <tr
+                      key={comparison.metric}
+                      onClick={() => setChartMetric(comparison.metric)}
+                      className={`border-b border-slate-700/50 cursor-pointer hover:bg-slate-800/60 ${
+                        comparison.metric === chartMetric ? 'bg-slate-800/80' : ''
+                      }`}
+                    >
+                      <td className="py-3 pr-4 text-gray-200">{getMetricLabel(comparison.metric)}</td>
+                      <td className="py-3 pr-4 text-right text-gray-300">
+                        {comparison.meanA !== null ? formatMetricValue(comparison.metric, comparison.meanA) : '—'}
+                        <span className="text-gray-500 text-xs ml-1">({comparison.daysA}d)</span>
+                      </td>
+                      <td className="py-3 pr-4 text-right text-gray-300">
+                        {comparison.meanB !== null ? formatMetricValue(comparison.metric, comparison.meanB) : '—'}
+                        <span className="text-gray-500 text-xs ml-1">({comparison.daysB}d)</span>
+                      </td>
+                      <td className={`py-3 pr-4 text-right font-medium ${
+                        comparison.delta === null || comparison.delta === 0
+                          ? 'text-gray-400'
+                          : comparison.delta > 0 ? 'text-cyan-400' : 'text-orange-400'
+                      }`}>
+                        {comparison.delta !== null
+                          ? `${comparison.delta > 0 ? '+' : ''}${Math.round(comparison.delta * 10) / 10}`
+                          : '—'}
+                      </td>
+                      <td className="py-3 pr-4 text-right text-gray-300">
+                        {comparison.percentChange !== null
+                          ? `${comparison.percentChange > 0 ? '+' : ''}${Math.round(comparison.percentChange)}%`
+                          : '—'}
+                      </td>
+                      <td className="py-3">
+                        <span className={`border rounded-full px-2 py-0.5 text-xs ${SIGNIFICANCE_STYLES[comparison.significance]}`}>
+                          {describeSignificance(comparison.significance)}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Overlaid daily values */}
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+              <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 gap-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-white">Day by Day</h2>
+                  <p className="text-gray-400 text-sm">Both periods aligned from their first day</p>
+                </div>
+                <select
+                  value={chartMetric}
+                  onChange={(e) => setChartMetric(e.target.value as StatMetric)}
+                  className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                >
+                  {STAT_METRICS.map(metric => (
+                    <option key={metric} value={metric}>{getMetricLabel(metric)}</option>
+                  ))}
+                </select>
+              </div>
+              <ResponsiveContainer width="100%" height={350}>
+                <LineChart data={alignedData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis
+                    dataKey="day"
+                    stroke="#9ca3af"
+                    fontSize={12}
+                    tickFormatter={(day) => `Day ${day}`}
+                  />
+                  <YAxis stroke="#9ca3af" fontSize={12} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#1f2937',
+                      border: '1px solid #374151',
+                      borderRadius: '8px',
+                      color: '#ffffff'
+                    }}
+                    labelFormatter={(day) => {
+                      const row = alignedData[Number(day) - 1];
+                      return [row?.dateA && `A: ${formatDate(row.dateA)}`, row?.dateB && `B: ${formatDate(row.dateB)}`]
+                        .filter(Boolean)
+                        .join(' · ');
+                    }}
+                    formatter={(value) => formatMetricValue(chartMetric, Number(value))}
+                  />
+                  <Legend />
+                  <Line
+                    type="monotone"
+                    dataKey="a"
+                    stroke={COLORS.a}
+                    strokeWidth={2}
+                    connectNulls
+                    name="Period A"
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="b"
+                    stroke={COLORS.b}
+                    strokeWidth={2}
+                    connectNulls
+                    name="Period B"
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Compare;
@@ -0,0 +1,292 @@
+import React, { useState, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { useQuery } from '@tanstack/react-query';
+import { checkinQueries } from '../services/checkinQueries';
+import { processCheckinData } from '../utils/analyticsData';
+import type { AnalyticsData } from '../utils/analyticsData';
+import {
+  buildCorrelationMatrix,
+  correlate,
+  describeCorrelation,
+  getCorrelationVariables,
+  getPairedPoints,
+  linearRegression,
+  MIN_CORRELATION_SAMPLES
+} from '../utils/correlation';
+import type { CorrelationMethod } from '../utils/correlation';
+import { useCustomMetrics } from '../services/customMetricQueries';
+import { getTagCounts } from '../utils/customMetrics';
+import DateRangePicker from '../components/DateRangePicker';
+import { parseDateRange, resolveDateRange, toSearchParams } from '../utils/dateRange';
+import type { DateRange } from '../utils/dateRange';
+
+// Tags become yes/no variables; only the most used ones, to keep the matrix readable
+const MAX_TAG_VARIABLES = 5;
+
+// Blue for positive, red for negative, opacity scaled by strength
+const getCellColor = (coefficient: number | null): string => {
+  if (coefficient === null) return 'rgba(51, 65, 85, 0.4)';
+  const alpha = Math.min(Math.abs(coefficient), 1) * 0.85 + 0.05;
+  return coefficient >= 0
+    ? `rgba(59, 130, 246, ${alpha})`
+    : `rgba(239, 68, 68, ${alpha})`;
+};
+
+const Correlations: React.FC = () => {
+  const navigate = useNavigate();
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  const dateRange = useMemo(() => parseDateRange(searchParams), [searchParams]);
+  const [method, setMethod] = useState<CorrelationMethod>('pearson');
+  const [selected, setSelected] = useState<{ row: number; col: number } | null>(null);
+  const customMetrics = useCustomMetrics();
+
+  // Same query as Analytics, so coming from there reads the cache instead of refetching
+  const { startDate, endDate } = resolveDateRange(dateRange);
+  const { data: checkins, isPending: loading, isError } = useQuery(checkinQueries.history(startDate, endDate));
+  const error = isError ? 'Failed to load check-in data' : '';
+  const analyticsData = useMemo<AnalyticsData[]>(() => processCheckinData(checkins ?? []), [checkins]);
+
+  const variables = useMemo(() => {
+    const tags = getTagCounts(analyticsData.map(row => row.checkin))
+      .filter(({ count }) => count >= MIN_CORRELATION_SAMPLES)
+      .slice(0, MAX_TAG_VARIABLES)
+      .map(({ tag }) => tag);
+    return getCorrelationVariables(customMetrics, tags);
+  }, [analyticsData, customMetrics]);
+
+  const matrix = useMemo(
+    () => buildCorrelationMatrix(analyticsData, method, variables),
+    [analyticsData, method, variables]
+  );
+
+  const selectedPair = useMemo(() => {
+    if (!selected) return null;
+    const x = matrix.variables[selected.col];
+    const y = matrix.variables[selected.row];
+    const points = getPairedPoints(analyticsData, x, y);
+    const regression = linearRegression(points.map(p => p.x), points.map(p => p.y));
+    const xValues = points.map(p => p.x);
+    const minX = Math.min(...xValues);
+    const maxX = Math.max(...xValues);
+
+    return {
+      x,
+      y,
+      points,
+      coefficient: correlate(points, method),
+      regression,
+      segment: regression && points.length > 0
+        ? [
+            { x: minX, y: regression.slope * minX + regression.intercept },
+            { x: maxX, y: regression.slope * maxX + regression.intercept }
+          ]
+        : null
+    };
+  }, [selected, matrix, analyticsData, method]);
+
+  const handleDateRangeChange = (range: DateRange) => {
+    setSelected(null);
+    setSearchParams(toSearchParams(range, searchParams));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400 mx-auto"></div>
+          <p className="text-white mt-4">Loading correlations...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-white mb-2">
+              Correlation Explorer
+            </h1>
+            <p className="text-gray-400">
+              Discover which habits move together with your sleep, energy and productivity
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 mt-4 md:mt-0">
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as CorrelationMethod)}
+              className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+            >
+              <option value="pearson">Pearson</option>
+              <option value="spearman">Spearman</option>
+            </select>
+
+            <DateRangePicker value={dateRange} onChange={handleDateRangeChange} />
+
+            <button
+              onClick={() => navigate({ pathname: '/analytics', search: toSearchParams(dateRange).toString() })}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Analytics
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-900/20 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {analyticsData.length === 0 ? (
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-12 text-center">
+            <h3 className="text-xl font-semibold text-white mb-2">No Data Available</h3>
+            <p className="text-gray-400">
+              Log a few check-ins to start discovering relationships between your metrics.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {/* Heatmap */}
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 overflow-x-auto">
+              <h2 className="text-xl font-semibold text-white mb-1">Correlation Matrix</h2>
+              <p className="text-gray-400 text-sm mb-4">
+                {method === 'pearson' ? 'Pearson' : 'Spearman'} coefficients over {analyticsData.length} check-ins.
+                Click a cell to see the scatter plot.
+              </p>
+              <table className="border-separate border-spacing-1 text-xs">
+                <thead>
+                  <tr>
+                    <th></th>
+                    {matrix.variables.map(variable => (
+                      <th key={variable.key} className="text-gray-400 font-medium h-28 align-bottom">
+                        <div className="[writing-mode:vertical-rl] rotate-180 whitespace-nowrap mx-auto">
+                          {variable.label}
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {matrix.variables.map((rowVariable, row) => (
+                    <tr key={rowVariable.key}>
+                      <th className="text-gray-400 font-medium text-right pr-2 whitespace-nowrap">
+                        {rowVariable.label}
+                      </th>
+                      {matrix.cells[row].map((cell, col) => {
+                        const isSelected = selected?.row === row && selected?.col === col;
+                        return (
+                          <td key={matrix.variables[col].key} className="p-0">
+                            <button
+                              type="button"
+                              disabled={row === col}
+                              onClick={() => setSelected({ row, col })}
+                              title={`${rowVariable.label} vs ${matrix.variables[col].label}: ${
+                                cell.coefficient === null ? 'n/a' : cell.coefficient.toFixed(2)
+                              } (n=${cell.sampleSize})`}
+                              style={{ backgroundColor: getCellColor(cell.coefficient) }}
+                              className={`w-11 h-9 rounded text-white font-medium disabled:cursor-default ${
+                                isSelected ? 'ring-2 ring-cyan-400' : 'hover:ring-1 hover:ring-slate-400'
+                              }`}
+                            >
+                              {cell.coefficient === null ? '–' : cell.coefficient.toFixed(2)}
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Scatter plot for the selected pair */}
+            {selectedPair && (
+              <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+                <div className="flex flex-col md:flex-row md:items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold text-white">
+                    {selectedPair.x.label} vs {selectedPair.y.label}
+                  </h2>
+                  <div className="flex gap-6 text-sm mt-2 md:mt-0">
+                    <span className="text-gray-300">
+                      r = <strong>{selectedPair.coefficient === null ? 'n/a' : selectedPair.coefficient.toFixed(2)}</strong>
+                    </span>
+                    <span className="text-gray-300">
+                      n = <strong>{selectedPair.points.length}</strong>
+                    </span>
+                    <span className="text-cyan-400">{describeCorrelation(selectedPair.coefficient)}</span>
+                  </div>
+                </div>
+                <ResponsiveContainer width="100%" height={400}>
+                  <ScatterChart>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis
+                      type="number"
+                      dataKey="x"
+                      name={selectedPair.x.label}
+                      stroke="#9ca3af"
+                      fontSize={12}
+                      domain={['auto', 'auto']}
+                    />
+                    <YAxis
+                      type="number"
+                      dataKey="y"
+                      name={selectedPair.y.label}
+                      stroke="#9ca3af"
+                      fontSize={12}
+                      domain={['auto', 'auto']}
+                    />
+                    <Tooltip
+                      cursor={{ strokeDasharray: '3 3' }}
+                      contentStyle={{
+                        backgroundColor: '#1f2937',
+                        border: '1px solid #374151',
+                        borderRadius: '8px',
+                        color: '#ffffff'
+                      }}
+                    />
+                    <Scatter data={selectedPair.points} fill="#06b6d4" />
+                    {selectedPair.segment && (
+                      <ReferenceLine
+                        segment={selectedPair.segment}
+                        stroke="#f59e0b"
+                        strokeWidth={2}
+                        ifOverflow="extendDomain"
+                      />
+                    )}
+                  </ScatterChart>
+                </ResponsiveContainer>
+                {selectedPair.regression && (
+                  <p className="text-gray-400 text-sm mt-4">
+                    Regression: {selectedPair.y.label} ≈ {selectedPair.regression.slope.toFixed(2)} × {selectedPair.x.label}
+                    {selectedPair.regression.intercept >= 0 ? ' + ' : ' − '}
+                    {Math.abs(selectedPair.regression.intercept).toFixed(2)}
+                  </p>
+                )}
+                <p className="text-gray-500 text-xs mt-2">
+                  Correlation is not causation. Only days where both metrics were recorded are included.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Correlations;
@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { CustomMetric, CustomMetricInput, CustomMetricType } from '../types/customMetric';
+import { CUSTOM_METRIC_TYPES, SCALE_RANGE } from '../types/customMetric';
+import { ApiError } from '../services/apiErrors';
+import {
+  useCreateCustomMetric,
+  useCustomMetrics,
+  useDeleteCustomMetric,
+  useUpdateCustomMetric
+} from '../services/customMetricQueries';
+
+interface MetricForm {
+  name: string;
+  type: CustomMetricType;
+  unit: string;
+  min: string;
+  max: string;
+  options: string; // Comma separated while editing
+}
+
+const EMPTY_FORM: MetricForm = {
+  name: '',
+  type: 'number',
+  unit: '',
+  min: '',
+  max: '',
+  options: ''
+};
+
+const parseOptionalNumber = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : parseFloat(value);
+
+const describeMetric = (metric: CustomMetric): string => {
+  switch (metric.type) {
+    case 'number': {
+      const range = metric.min !== undefined || metric.max !== undefined
+        ? ` · ${metric.min ?? '…'} to ${metric.max ?? '…'}`
+        : '';
+      return `Number${metric.unit ? ` in ${metric.unit}` : ''}${range}`;
+    }
+    case 'scale':
+      return `${SCALE_RANGE.min}-${SCALE_RANGE.max} scale`;
+    case 'boolean':
+      return 'Yes / no';
+    case 'select':
+      return `One of: ${(metric.options || []).join(', ')}`;
+  }
+};
+
+const CustomMetrics: React.FC = () => {
+  const navigate = useNavigate();
+  const metrics = useCustomMetrics();
+  const createMetric = useCreateCustomMetric();
+  const updateMetric = useUpdateCustomMetric();
+  const deleteMetric = useDeleteCustomMetric();
+  const saving = createMetric.isPending || updateMetric.isPending;
+  const [form, setForm] = useState<MetricForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+
+  // Turn the form into a metric definition, or an error message
+  const buildInput = (): CustomMetricInput | string => {
+    const name = form.name.trim();
+    if (!name) return 'Please enter a name';
+    if (name.length > 50) return 'Names cannot exceed 50 characters';
+    if (metrics.some(metric => metric.id !== editingId && metric.name.toLowerCase() === name.toLowerCase())) {
+      return `You already have a metric called ${name}`;
+    }
+
+    if (form.type === 'number') {
+      const min = parseOptionalNumber(form.min);
+      const max = parseOptionalNumber(form.max);
+      if (min !== undefined && max !== undefined && min > max) return 'Minimum must not be above maximum';
+      return { name, type: form.type, unit: form.unit.trim() || undefined, min, max };
+    }
+
+    if (form.type === 'select') {
+      const options = Array.from(new Set(form.options.split(',').map(option => option.trim()).filter(Boolean)));
+      if (options.length < 2) return 'Enter at least two choices, separated by commas';
+      if (options.some(option => option.length > 100)) return 'Choices cannot exceed 100 characters';
+      return { name, type: form.type, options };
+    }
+
+    return { name, type: form.type };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = buildInput();
+    if (typeof input === 'string') {
+      setError(input);
+      return;
+    }
+    setError('');
+
+    try {
+      if (editingId) {
+        await updateMetric.mutateAsync({ id: editingId, input });
+      } else {
+        await createMetric.mutateAsync(input);
+      }
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    } catch (error) {
+      setError(error instanceof ApiError ? error.message : 'Failed to save metric. Please try again.');
+    }
+  };
+
+  const handleEdit = (metric: CustomMetric) => {
+    setEditingId(metric.id);
+    setError('');
+    setForm({
+      name: metric.name,
+      type: metric.type,
+      unit: metric.unit || '',
+      min: metric.min !== undefined ? String(metric.min) : '',
+      max: metric.max !== undefined ? String(metric.max) : '',
+      options: (metric.options || []).join(', ')
+    });
+  };
+
+  const handleDelete = async (metric: CustomMetric) => {
+    setError('');
+    try {
+      await deleteMetric.mutateAsync(metric.id);
+      if (editingId === metric.id) {
+        setEditingId(null);
+        setForm(EMPTY_FORM);
+      }
+    } catch (error) {
+      setError(error instanceof ApiError ? error.message : 'Failed to delete metric. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 p-4 md:p-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-white mb-2">Custom Metrics</h1>
+            <p className="text-gray-400">Track your own numbers, ratings, yes/no habits and choices alongside every check-in</p>
+          </div>
+          <div className="flex items-center gap-4 mt-4 md:mt-0">
+            <button
+              onClick={() => navigate('/checkin')}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              New Check-in
+            </button>
+            <button
+              onClick={() => navigate('/dashboard')}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Dashboard
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-900/20 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-8">
+          {/* Metric form */}
+          <form onSubmit={handleSubmit} className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+            <h2 className="text-xl font-semibold text-white mb-4">{editingId ? 'Edit Metric' : 'New Metric'}</h2>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <label className="text-sm text-gray-300 md:col-span-2">
+                Name
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  maxLength={50}
+                  placeholder="e.g. Meditation, Headache, Diet"
+                  className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                />
+              </label>
+              <label className="text-sm text-gray-300 md:col-span-2">
+                Type
+                <select
+                  value={form.type}
+                  onChange={(e) => setForm({ ...form, type: e.target.value as CustomMetricType })}
+                  // Changing the type would strand values already saved on check-ins
+                  disabled={editingId !== null}
+                  className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2 disabled:opacity-60"
+                >
+                  {CUSTOM_METRIC_TYPES.map(type => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+              </label>
+
+              {form.type === 'number' && (
+                <>
+                  <label className="text-sm text-gray-300 md:col-span-2">
+                    Unit (optional)
+                    <input
+                      type="text"
+                      value={form.unit}
+                      onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                      maxLength={20}
+                      placeholder="e.g. min, steps, mg"
+                      className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                    />
+                  </label>
+                  <label className="text-sm text-gray-300">
+                    Minimum (optional)
+                    <input
+                      type="number"
+                      step="any"
+                      value={form.min}
+                      onChange={(e) => setForm({ ...form, min: e.target.value })}
+                      className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                    />
+                  </label>
+                  <label className="text-sm text-gray-300">
+                    Maximum (optional)
+                    <input
+                      type="number"
+                      step="any"
+                      value={form.max}
+                      onChange={(e) => setForm({ ...form, max: e.target.value })}
+                      className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                    />
+                  </label>
+                </>
+              )}
+
+              {form.type === 'select' && (
+                <label className="text-sm text-gray-300 md:col-span-4">
+                  Choices
+                  <input
+                    type="text"
+                    value={form.options}
+                    onChange={(e) => setForm({ ...form, options: e.target.value })}
+                    placeholder="e.g. Vegan, Vegetarian, Mixed"
+                    className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                  />
+                </label>
+              )}
+            </div>
+            <div className="flex gap-3 mt-4">
+              <button
+                type="submit"
+                disabled={saving}
+                className="bg-cyan-600 hover:bg-cyan-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-60"
+              >
+                {saving ? 'Saving...' : editingId ? 'Save Metric' : 'Add Metric'}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(null);
+                    setForm(EMPTY_FORM);
+                    setError('');
+                  }}
+                  className="border border-slate-600 text-white px-4 py-2 rounded-md hover:bg-slate-800 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+
+          {/* Metric list */}
+          {metrics.length === 0 ? (
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-12 text-center">
+              <h3 className="text-xl font-semibold text-white mb-2">No Custom Metrics Yet</h3>
+              <p className="text-gray-400">
+                Add one above and it will appear in your check-in form, charts, correlations, exports and filters.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {metrics.map(metric => (
+                <div key={metric.id} className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div>
+                      <h3 className="text-white font-medium">{metric.name}</h3>
+                      <p className="text-gray-400 text-sm">{describeMetric(metric)}</p>
+                    </div>
+                    <div className="flex gap-3 text-sm">
+                      <button
+                        onClick={() => handleEdit(metric)}
+                        className="text-cyan-400 hover:text-cyan-300 transition-colors"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(metric)}
+                        className="text-red-400 hover:text-red-300 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomMetrics;
@@ -1,9 +1,26 @@
 import { useNavigate } from "react-router-dom";
-import { useEffect, useState } from "react";
-import { tokenStorage } from "../utils/tokenStorage";
-import CheckinService from "../services/checkinService";
-import type { CheckinResponse } from "../types/checkin";
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "../context/AuthContext";
+import { checkinQueries } from "../services/checkinQueries";
 import MiniTrendWidget from "../components/MiniTrendWidget";
+import StatWidget from "../components/StatWidget";
+import StreakWidget from "../components/StreakWidget";
+import LatestNotesWidget from "../components/LatestNotesWidget";
+import DashboardGrid from "../components/DashboardGrid";
+import WidgetLibrary from "../components/WidgetLibrary";
+import SyncQueuePanel from "../components/SyncQueuePanel";
+import ConsistencyCalendar from "../components/ConsistencyCalendar";
+import GoalProgressRings from "../components/GoalProgressRings";
+import UnusualDaysCard from "../components/UnusualDaysCard";
+import DailyCheckinCard from "../components/DailyCheckinCard";
+import { goalStorage } from "../utils/goalStorage";
+import { dashboardLayoutStorage } from "../utils/dashboardLayoutStorage";
+import { createWidget, removeWidget, updateWidget } from "../utils/dashboardLayout";
+import type { DashboardWidget, WidgetType } from "../types/widget";
+import { computeCheckinStats } from "../utils/statistics";
+import { rollupCheckins } from "../utils/dailyRollup";
+import type { StatMetric } from "../utils/statistics";
 
 interface DashboardPageProps {
   userName?: string;
@@ -12,46 +29,70 @@ interface DashboardPageProps {
 
 export default function Dashboard({ userName, onLogout }: DashboardPageProps) {
   const navigate = useNavigate();
-  const [recentCheckins, setRecentCheckins] = useState<CheckinResponse[]>([]);
-  const [hasCheckedInToday, setHasCheckedInToday] = useState(false);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string>('');
+  const [goals] = useState(() => goalStorage.getGoals());
+  const [layout, setLayout] = useState<DashboardWidget[]>(() => dashboardLayoutStorage.getLayout());
+  const [editingLayout, setEditingLayout] = useState(false);
 
-  // Get user info from storage if not provided as prop
-  const user = tokenStorage.getUser();
+  // Get user info from the session if not provided as prop
+  const { user, logout } = useAuth();
   const displayName = userName || user?.firstName || "User";
 
-  // Fetch dashboard data on component mount
-  useEffect(() => {
-    const fetchDashboardData = async () => {
-      try {
-        setLoading(true);
-        setError('');
-        
-        // Check if user has checked in today
-        const checkedInToday = await CheckinService.hasCheckedInToday();
-        setHasCheckedInToday(checkedInToday);
+  // Fetched in parallel and shared with the other pages through the query cache
+  const todayQuery = useQuery(checkinQueries.checkedInToday());
+  const recentQuery = useQuery(checkinQueries.recent(7));
+  // Get the past year of check-ins for streaks and the consistency calendar
+  const yearAgo = new Date(Date.now() - 364 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const yearQuery = useQuery(checkinQueries.history(yearAgo));
 
-        // Get recent check-ins (last 7 days)
-        const recent = await CheckinService.getRecentCheckins(7);
-        setRecentCheckins(recent);
-      } catch (error) {
-        console.error('Error fetching dashboard data:', error);
-        setError('Failed to load dashboard data');
-      } finally {
-        setLoading(false);
-      }
-    };
+  const hasCheckedInToday = todayQuery.data ?? false;
+  const recentCheckins = useMemo(() => recentQuery.data ?? [], [recentQuery.data]);
+  const yearCheckins = useMemo(() => yearQuery.data ?? [], [yearQuery.data]);
+  const loading = todayQuery.isPending || recentQuery.isPending || yearQuery.isPending;
+  const error = todayQuery.isError || recentQuery.isError || yearQuery.isError ? 'Failed to load dashboard data' : '';
 
-    fetchDashboardData();
-  }, []);
+  // Streaks need the whole year, not just the last week
+  const streakDays = useMemo(() => computeCheckinStats(yearCheckins).streakDays, [yearCheckins]);
+  // Several check-ins on one day count as one day
+  const recentDays = useMemo(() => rollupCheckins(recentCheckins), [recentCheckins]);
+
+  const handleLayoutChange = (next: DashboardWidget[]) => {
+    setLayout(next);
+    dashboardLayoutStorage.saveLayout(next);
+  };
+
+  const handleAddWidget = (type: WidgetType, metric?: StatMetric) => {
+    handleLayoutChange([...layout, createWidget(type, metric)]);
+  };
+
+  const handleResetLayout = () => {
+    setLayout(dashboardLayoutStorage.resetLayout());
+  };
+
+  const renderWidget = (widget: DashboardWidget) => {
+    switch (widget.type) {
+      case "stat":
+        return <StatWidget checkins={recentCheckins} metric={widget.metric || "sleepHours"} />;
+      case "sparkline":
+        return <MiniTrendWidget checkins={recentCheckins} metricKey={widget.metric || "sleepHours"} />;
+      case "streak":
+        return <StreakWidget checkins={yearCheckins} weekDays={recentDays.length} />;
+      case "goalRings":
+        return <GoalProgressRings goals={goals} checkins={yearCheckins} />;
+      case "calendar":
+        return <ConsistencyCalendar checkins={yearCheckins} />;
+      case "unusualDays":
+        return <UnusualDaysCard checkins={yearCheckins} />;
+      case "latestNotes":
+        return <LatestNotesWidget checkins={yearCheckins} limit={widget.size === "small" ? 2 : 4} />;
+    }
+  };
 
   const handleLogout = () => {
     if (onLogout) {
       onLogout();
     } else {
-      // Default logout behavior - clear storage and redirect
-      tokenStorage.removeToken();
+      // Default logout behavior - end the session and redirect
+      logout();
       navigate("/login");
     }
   };
@@ -85,6 +126,11 @@ export default function Dashboard({ userName, onLogout }: DashboardPageProps) {
             </div>
           )}
 
+          {/* Offline sync queue */}
+          <div className="pt-6">
+            <SyncQueuePanel />
+          </div>
+
         {/* Main Content */}
         <div className="py-6">
           {loading ? (
@@ -110,6 +156,27 @@ export default function Dashboard({ userName, onLogout }: DashboardPageProps) {
                     <span className="mr-2">📝</span>
                     Add New Check-in
                   </button>
+                  <button
+                    onClick={() => navigate('/history')}
+                    className="bg-slate-800/40 hover:bg-slate-700/60 text-white px-6 py-3 rounded-lg font-medium border border-slate-600/20 transition-all duration-200"
+                  >
+                    <span className="mr-2">🗂️</span>
+                    History
+                  </button>
+                  <button
+                    onClick={() => navigate('/checkin/import')}
+                    className="bg-slate-800/40 hover:bg-slate-700/60 text-white px-6 py-3 rounded-lg font-medium border border-slate-600/20 transition-all duration-200"
+                  >
+                    <span className="mr-2">📥</span>
+                    Import CSV
+                  </button>
+                  <button
+                    onClick={() => navigate('/reports')}
+                    className="bg-slate-800/40 hover:bg-slate-700/60 text-white px-6 py-3 rounded-lg font-medium border border-slate-600/20 transition-all duration-200"
+                  >
+                    <span className="mr-2">🧾</span>
+                    Reports
+                  </button>
                   <button 
                     onClick={() => navigate('/analytics')}
                     className="bg-blue-600/80 hover:bg-blue-600 text-white px-6 py-3 rounded-lg font-medium transition-all duration-200 shadow-lg"
@@ -129,117 +196,50 @@ export default function Dashboard({ userName, onLogout }: DashboardPageProps) {
               {/* Main Dashboard Content */}
               {recentCheckins.length > 0 ? (
                 <div className="space-y-10">
-                  {/* Quick Stats Cards */}
+                  {/* Configurable widgets */}
                   <div>
-                    <h2 className="text-2xl font-bold text-white mb-8">This Week's Performance</h2>
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                      <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-6 hover:bg-slate-800/60 transition-all duration-300">
-                        <div className="flex items-center justify-between mb-4">
-                          <div className="p-2 bg-blue-500/20 rounded-lg">
-                            <span className="text-xl">📊</span>
-                          </div>
-                          <div className="text-right">
-                            <div className="text-2xl font-bold text-white">{recentCheckins.length}</div>
-                            <div className="text-slate-400 text-sm font-medium">Check-ins</div>
-                          </div>
-                        </div>
-                        <div className="text-xs text-slate-500">
-                          {recentCheckins.length >= 5 ? 'Excellent consistency!' : 'Keep it up!'}
-                        </div>
-                      </div>
-
-                      <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-6 hover:bg-slate-800/60 transition-all duration-300">
-                        <div className="flex items-center justify-between mb-4">
-                          <div className="p-2 bg-blue-500/20 rounded-lg">
-                            <span className="text-xl">🚀</span>
-                          </div>
-                          <div className="text-right">
-                            <div className="text-2xl font-bold text-white">
-                              {Math.round(recentCheckins.reduce((sum, c) => sum + (c.productivityRating || 0), 0) / recentCheckins.length) || 0}/10
-                            </div>
-                            <div className="text-slate-400 text-sm font-medium">Avg Productivity</div>
-                          </div>
-                        </div>
-                        <div className="text-xs text-slate-500">
-                          {Math.round(recentCheckins.reduce((sum, c) => sum + (c.productivityRating || 0), 0) / recentCheckins.length) >= 7 ? 'Outstanding!' : 'Room to improve'}
-                        </div>
+                    <div className="flex items-center justify-between mb-8">
+                      <h2 className="text-2xl font-bold text-white">This Week's Performance</h2>
+                      <div className="flex items-center gap-3">
+                        {editingLayout && (
+                          <button
+                            onClick={handleResetLayout}
+                            className="text-slate-400 hover:text-white text-sm font-medium transition-colors"
+                          >
+                            Reset to default
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setEditingLayout(!editingLayout)}
+                          className="bg-slate-800/40 hover:bg-slate-700/60 text-white px-4 py-2 rounded-lg text-sm font-medium border border-slate-600/20 transition-all duration-200"
+                        >
+                          {editingLayout ? "Done" : "Customize"}
+                        </button>
                       </div>
+                    </div>
 
-                      <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-6 hover:bg-slate-800/60 transition-all duration-300">
-                        <div className="flex items-center justify-between mb-4">
-                          <div className="p-2 bg-blue-500/20 rounded-lg">
-                            <span className="text-xl">😴</span>
-                          </div>
-                          <div className="text-right">
-                            <div className="text-2xl font-bold text-white">
-                              {Math.round(recentCheckins.reduce((sum, c) => sum + (c.sleepHours || 0), 0) / recentCheckins.length * 10) / 10 || 0}h
-                            </div>
-                            <div className="text-slate-400 text-sm font-medium">Avg Sleep</div>
-                          </div>
-                        </div>
-                        <div className="text-xs text-slate-500">
-                          {Math.round(recentCheckins.reduce((sum, c) => sum + (c.sleepHours || 0), 0) / recentCheckins.length * 10) / 10 >= 7 ? 'Well rested!' : 'Need more sleep'}
-                        </div>
+                    {editingLayout && (
+                      <div className="mb-6">
+                        <WidgetLibrary onAdd={handleAddWidget} />
                       </div>
+                    )}
 
-                      <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-6 hover:bg-slate-800/60 transition-all duration-300">
-                        <div className="flex items-center justify-between mb-4">
-                          <div className="p-2 bg-blue-500/20 rounded-lg">
-                            <span className="text-xl">⚡</span>
-                          </div>
-                          <div className="text-right">
-                            <div className="text-2xl font-bold text-white">
-                              {Math.round(recentCheckins.reduce((sum, c) => {
-                                const avgEnergy = ((c.energyMorning || 0) + (c.energyAfternoon || 0) + (c.energyEvening || 0)) / 3;
-                                return sum + avgEnergy;
-                              }, 0) / recentCheckins.length * 10) / 10 || 0}/10
-                            </div>
-                            <div className="text-slate-400 text-sm font-medium">Avg Energy</div>
-                          </div>
-                        </div>
-                        <div className="text-xs text-slate-500">
-                          {Math.round(recentCheckins.reduce((sum, c) => {
-                            const avgEnergy = ((c.energyMorning || 0) + (c.energyAfternoon || 0) + (c.energyEvening || 0)) / 3;
-                            return sum + avgEnergy;
-                          }, 0) / recentCheckins.length * 10) / 10 >= 7 ? 'High energy!' : 'Boost needed'}
-                        </div>
-                      </div>
-                    </div>
+                    {layout.length > 0 ? (
+                      <DashboardGrid
+                        layout={layout}
+                        editing={editingLayout}
+                        renderWidget={renderWidget}
+                        onLayoutChange={handleLayoutChange}
+                        onUpdate={(id, changes) => handleLayoutChange(updateWidget(layout, id, changes))}
+                        onRemove={(id) => handleLayoutChange(removeWidget(layout, id))}
+                      />
+                    ) : (
+                      <p className="text-slate-400 text-center py-8">
+                        Your dashboard is empty. Use Customize to add widgets.
+                      </p>
+                    )}
                   </div>
 
-                  {/* Mini Trend Widgets */}
-                  {recentCheckins.length >= 3 && (
-                    <div>
-                      <h2 className="text-2xl font-bold text-white mb-8">Recent Trends</h2>
-                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                        <MiniTrendWidget
-                          checkins={recentCheckins}
-                          metricKey="sleepHours"
-                          title="Sleep Hours"
-                          color="#3b82f6"
-                        />
-                        <MiniTrendWidget
-                          checkins={recentCheckins}
-                          metricKey="energyMorning"
-                          title="Energy Level"
-                          color="#60a5fa"
-                        />
-                        <MiniTrendWidget
-                          checkins={recentCheckins}
-                          metricKey="productivityRating"
-                          title="Productivity"
-                          color="#2563eb"
-                        />
-                        <MiniTrendWidget
-                          checkins={recentCheckins}
-                          metricKey="sleepQuality"
-                          title="Sleep Quality"
-                          color="#1d4ed8"
-                        />
-                      </div>
-                    </div>
-                  )}
-
                   {/* Smart Insights */}
                   <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-6">
                     <div className="flex items-start space-x-4">
@@ -249,19 +249,19 @@ export default function Dashboard({ userName, onLogout }: DashboardPageProps) {
                       <div className="flex-1">
                         <h3 className="text-lg font-bold text-white mb-2">Personalized Insights</h3>
                         <p className="text-slate-300 leading-relaxed">
-                          {recentCheckins.length >= 5 ? (
+                          {streakDays >= 5 ? (
                             <>
-                              <span className="text-blue-400 font-medium">Excellent consistency!</span> You've logged {recentCheckins.length} check-ins this week. 
+                              <span className="text-blue-400 font-medium">Excellent consistency!</span> You're on a {streakDays}-day check-in streak. 
                               Your dedication to tracking is building valuable insights.
                             </>
-                          ) : recentCheckins.length >= 3 ? (
+                          ) : recentDays.length >= 3 ? (
                             <>
-                              <span className="text-blue-400 font-medium">Good progress!</span> You've completed {recentCheckins.length} check-ins. 
+                              <span className="text-blue-400 font-medium">Good progress!</span> You've checked in on {recentDays.length} days this week. 
                               Try to maintain daily tracking for more powerful insights.
                             </>
                           ) : (
                             <>
-                              <span className="text-blue-400 font-medium">Just getting started!</span> You have {recentCheckins.length} check-in{recentCheckins.length !== 1 ? 's' : ''}. 
+                              <span className="text-blue-400 font-medium">Just getting started!</span> You've checked in on {recentDays.length} day{recentDays.length !== 1 ? 's' : ''} this week. 
                               Daily tracking will unlock powerful pattern recognition.
                             </>
                           )}
@@ -307,54 +307,17 @@ export default function Dashboard({ userName, onLogout }: DashboardPageProps) {
             <h3 className="text-lg font-semibold text-white mb-6">Recent Check-ins</h3>
             
             <div className="space-y-3">
-              {recentCheckins.slice(0, 5).map((checkin) => {
-                const formatted = CheckinService.formatCheckinForDisplay(checkin);
-                return (
-                  <div key={checkin.id} className="bg-slate-800/20 border border-slate-700/20 rounded-lg p-4 hover:bg-slate-800/30 transition-all duration-200">
-                    <div className="flex items-center justify-between mb-3">
-                      <div>
-                        <h4 className="text-white font-medium text-sm">{formatted.date}</h4>
-                        <p className="text-slate-400 text-xs">{formatted.summary}</p>
-                      </div>
-                      <div className="flex items-center space-x-3">
-                        <span className="text-xs text-slate-500">
-                          {new Date(checkin.createdAt).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
-                        </span>
-                        <button
-                          onClick={() => navigate(`/checkin/${checkin.id}`)}
-                          className="text-blue-400 hover:text-blue-300 text-xs font-medium transition-colors"
-                        >
-                          Edit
-                        </button>
-                      </div>
-                    </div>
-                    
-                    {/* Compact metrics */}
-                    <div className="grid grid-cols-4 gap-3 text-xs">
-                      {Object.entries(formatted.details).slice(0, 4).map(([key, value]) => (
-                        <div key={key} className="text-center">
-                          <div className="text-slate-500">{key}</div>
-                          <div className="text-slate-300 font-medium">{value}</div>
-                        </div>
-                      ))}
-                    </div>
-                    
-                    {checkin.notes && (
-                      <div className="mt-3 pt-3 border-t border-slate-700/20">
-                        <p className="text-slate-400 text-xs italic">"{checkin.notes}"</p>
-                      </div>
-                    )}
-                  </div>
-                );
-              })}
+              {recentDays.slice(0, 5).map(day => (
+                <DailyCheckinCard key={day.date} day={day} />
+              ))}
               
-              {recentCheckins.length > 5 && (
+              {recentDays.length > 5 && (
                 <div className="text-center pt-2">
                   <button 
-                    onClick={() => navigate('/analytics')}
+                    onClick={() => navigate('/history')}
                     className="text-slate-500 hover:text-slate-400 text-xs font-medium transition-colors"
                   >
-                    View all check-ins in analytics →
+                    Browse all check-ins →
                   </button>
                 </div>
               )}
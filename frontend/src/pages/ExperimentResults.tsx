@@ -0,0 +1,251 @@
+import React, { useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { useQuery } from '@tanstack/react-query';
+import { checkinQueries } from '../services/checkinQueries';
+import type { ExperimentWindow } from '../types/experiment';
+import { experimentStorage } from '../utils/experimentStorage';
+import {
+  analyzeExperiment,
+  describeEffectSize,
+  describeExperimentResult,
+  getExperimentWindow,
+  tagCheckins
+} from '../utils/experiments';
+import type { ExperimentTag, ExperimentVerdict } from '../utils/experiments';
+import { fromDayNumber, getDailyMetricValues, toDayNumber } from '../utils/statistics';
+import { formatMetricValue, getMetricLabel } from '../utils/metricRegistry';
+
+const VERDICT_STYLES: Record<ExperimentVerdict, { label: string; className: string }> = {
+  supported: { label: 'Hypothesis supported', className: 'bg-emerald-900/30 text-emerald-300 border-emerald-700' },
+  contradicted: { label: 'Opposite effect', className: 'bg-red-900/30 text-red-300 border-red-700' },
+  inconclusive: { label: 'Inconclusive', className: 'bg-amber-900/30 text-amber-300 border-amber-700' },
+  insufficient: { label: 'Not enough data', className: 'bg-slate-700/40 text-gray-400 border-slate-600' }
+};
+
+const WINDOW_COLORS: Record<ExperimentWindow, string> = {
+  baseline: '#64748b',
+  intervention: '#06b6d4'
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const ExperimentResults: React.FC = () => {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const experiment = useMemo(() => (id ? experimentStorage.getExperiment(id) : undefined), [id]);
+  // Nothing to fetch before the experiment has started
+  const today = new Date().toISOString().split('T')[0];
+  const startDate = experiment?.baseline.startDate ?? today;
+  const endDate = experiment && experiment.intervention.endDate < today ? experiment.intervention.endDate : today;
+  const hasStarted = !!experiment && startDate <= endDate;
+  const checkinsQuery = useQuery({ ...checkinQueries.history(startDate, endDate), enabled: hasStarted });
+  const checkins = useMemo(() => checkinsQuery.data ?? [], [checkinsQuery.data]);
+  const loading = hasStarted && checkinsQuery.isPending;
+  const error = checkinsQuery.isError ? 'Failed to load check-in data' : '';
+
+  const result = useMemo(
+    () => (experiment ? analyzeExperiment(experiment, checkins) : null),
+    [experiment, checkins]
+  );
+
+  const taggedCheckins = useMemo(
+    () => (experiment ? tagCheckins([experiment], checkins) : new Map<number, ExperimentTag[]>()),
+    [experiment, checkins]
+  );
+
+  // One row per day across both windows, so the shaded areas line up with the axis
+  const chartData = useMemo(() => {
+    if (!experiment) return [];
+    const daily = getDailyMetricValues(checkins, experiment.metric);
+    const rows: { date: string; value?: number; window: ExperimentWindow | null }[] = [];
+    for (let day = toDayNumber(experiment.baseline.startDate); day <= toDayNumber(experiment.intervention.endDate); day++) {
+      const date = fromDayNumber(day);
+      rows.push({ date, value: daily.get(date), window: getExperimentWindow(experiment, date) });
+    }
+    return rows;
+  }, [experiment, checkins]);
+
+  if (!experiment) {
+    return (
+      <div className="min-h-screen bg-slate-900 p-8">
+        <div className="max-w-4xl mx-auto bg-slate-800/50 border border-slate-700 rounded-lg p-12 text-center">
+          <h3 className="text-xl font-semibold text-white mb-2">Experiment Not Found</h3>
+          <button
+            onClick={() => navigate('/experiments')}
+            className="mt-4 bg-cyan-600 hover:bg-cyan-700 text-white px-4 py-2 rounded-md transition-colors"
+          >
+            Back to Experiments
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const verdict = result ? VERDICT_STYLES[result.verdict] : null;
+  const windowCounts = [...taggedCheckins.values()].reduce(
+    (counts, tags) => {
+      counts[tags[0].window]++;
+      return counts;
+    },
+    { baseline: 0, intervention: 0 } as Record<ExperimentWindow, number>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-900 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-white mb-2">{experiment.name}</h1>
+            <p className="text-gray-400">
+              {experiment.hypothesis || `Expecting ${getMetricLabel(experiment.metric).toLowerCase()} to ${experiment.expectedDirection}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-4 mt-4 md:mt-0">
+            <button
+              onClick={() => navigate('/experiments')}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              All Experiments
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-900/20 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {loading || !result || !verdict ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400"></div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {/* Verdict */}
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+              <div className="flex items-center gap-3 mb-3">
+                <h2 className="text-xl font-semibold text-white">Verdict</h2>
+                <span className={`border rounded-full px-2 py-0.5 text-xs ${verdict.className}`}>{verdict.label}</span>
+              </div>
+              <p className="text-gray-300">{describeExperimentResult(experiment, result)}</p>
+            </div>
+
+            {/* Key numbers */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 text-center">
+                <div className="text-2xl font-bold text-slate-300">
+                  {result.baselineMean !== null ? formatMetricValue(experiment.metric, result.baselineMean) : '—'}
+                </div>
+                <div className="text-gray-300 text-sm">Baseline ({result.baselineDays} days)</div>
+              </div>
+              <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 text-center">
+                <div className="text-2xl font-bold text-cyan-400">
+                  {result.interventionMean !== null ? formatMetricValue(experiment.metric, result.interventionMean) : '—'}
+                </div>
+                <div className="text-gray-300 text-sm">Intervention ({result.interventionDays} days)</div>
+              </div>
+              <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 text-center">
+                <div className="text-2xl font-bold text-white">
+                  {result.confidenceInterval
+                    ? `${Math.round(result.confidenceInterval[0] * 10) / 10} to ${Math.round(result.confidenceInterval[1] * 10) / 10}`
+                    : '—'}
+                </div>
+                <div className="text-gray-300 text-sm">95% bootstrap CI</div>
+              </div>
+              <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 text-center">
+                <div className="text-2xl font-bold text-white">
+                  {result.effectSize !== null ? result.effectSize.toFixed(2) : '—'}
+                </div>
+                <div className="text-gray-300 text-sm">Effect size d ({describeEffectSize(result.effectSize)})</div>
+              </div>
+            </div>
+
+            {/* Daily values with the two windows shaded */}
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+              <h2 className="text-xl font-semibold text-white mb-1">{getMetricLabel(experiment.metric)} by Day</h2>
+              <p className="text-gray-400 text-sm mb-4">
+                {windowCounts.baseline} check-ins tagged baseline, {windowCounts.intervention} tagged intervention.
+                Dashed lines show each window's average.
+              </p>
+              <ResponsiveContainer width="100%" height={350}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} tickFormatter={formatDate} />
+                  <YAxis stroke="#9ca3af" fontSize={12} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#1f2937',
+                      border: '1px solid #374151',
+                      borderRadius: '8px',
+                      color: '#ffffff'
+                    }}
+                    labelFormatter={(date) => formatDate(String(date))}
+                    formatter={(value) => formatMetricValue(experiment.metric, Number(value))}
+                  />
+                  <ReferenceArea
+                    x1={experiment.baseline.startDate}
+                    x2={experiment.baseline.endDate}
+                    fill={WINDOW_COLORS.baseline}
+                    fillOpacity={0.12}
+                    label={{ value: 'Baseline', position: 'insideTop', fill: '#9ca3af', fontSize: 12 }}
+                  />
+                  <ReferenceArea
+                    x1={experiment.intervention.startDate}
+                    x2={experiment.intervention.endDate}
+                    fill={WINDOW_COLORS.intervention}
+                    fillOpacity={0.12}
+                    label={{ value: 'Intervention', position: 'insideTop', fill: '#9ca3af', fontSize: 12 }}
+                  />
+                  {result.baselineMean !== null && (
+                    <ReferenceLine
+                      segment={[
+                        { x: experiment.baseline.startDate, y: result.baselineMean },
+                        { x: experiment.baseline.endDate, y: result.baselineMean }
+                      ]}
+                      stroke={WINDOW_COLORS.baseline}
+                      strokeDasharray="6 4"
+                    />
+                  )}
+                  {result.interventionMean !== null && (
+                    <ReferenceLine
+                      segment={[
+                        { x: experiment.intervention.startDate, y: result.interventionMean },
+                        { x: experiment.intervention.endDate, y: result.interventionMean }
+                      ]}
+                      stroke={WINDOW_COLORS.intervention}
+                      strokeDasharray="6 4"
+                    />
+                  )}
+                  <Line
+                    type="monotone"
+                    dataKey="value"
+                    stroke="#e5e7eb"
+                    strokeWidth={2}
+                    connectNulls
+                    name={getMetricLabel(experiment.metric)}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExperimentResults;
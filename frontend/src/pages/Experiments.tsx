@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { Experiment, ExperimentInput, ExpectedDirection } from '../types/experiment';
+import { experimentStorage } from '../utils/experimentStorage';
+import { getExperimentStatus } from '../utils/experiments';
+import type { ExperimentStatus } from '../utils/experiments';
+import { fromDayNumber, STAT_METRICS, toDayNumber } from '../utils/statistics';
+import { getMetricLabel } from '../utils/metricRegistry';
+import type { StatMetric } from '../utils/statistics';
+
+const STATUS_STYLES: Record<ExperimentStatus, { label: string; className: string }> = {
+  planned: { label: 'Planned', className: 'bg-slate-700/40 text-gray-300 border-slate-600' },
+  baseline: { label: 'Measuring baseline', className: 'bg-blue-900/30 text-blue-300 border-blue-700' },
+  between: { label: 'Between windows', className: 'bg-slate-700/40 text-gray-300 border-slate-600' },
+  intervention: { label: 'Intervention running', className: 'bg-cyan-900/30 text-cyan-300 border-cyan-700' },
+  completed: { label: 'Completed', className: 'bg-emerald-900/30 text-emerald-300 border-emerald-700' }
+};
+
+// Two weeks of baseline up to today, then two weeks of intervention
+const createDefaultInput = (): ExperimentInput => {
+  const today = toDayNumber(new Date().toISOString().split('T')[0]);
+  return {
+    name: '',
+    hypothesis: '',
+    metric: 'sleepQuality',
+    expectedDirection: 'increase',
+    baseline: { startDate: fromDayNumber(today - 13), endDate: fromDayNumber(today) },
+    intervention: { startDate: fromDayNumber(today + 1), endDate: fromDayNumber(today + 14) }
+  };
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const Experiments: React.FC = () => {
+  const navigate = useNavigate();
+  const [experiments, setExperiments] = useState<Experiment[]>(() => experimentStorage.getExperiments());
+  const [form, setForm] = useState<ExperimentInput>(createDefaultInput);
+  const [showForm, setShowForm] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const validate = (input: ExperimentInput): string | null => {
+    if (!input.name.trim()) return 'Please give the experiment a name';
+    if (input.baseline.startDate > input.baseline.endDate) return 'Baseline must start before it ends';
+    if (input.intervention.startDate > input.intervention.endDate) return 'Intervention must start before it ends';
+    if (input.intervention.startDate <= input.baseline.endDate) return 'Intervention must start after the baseline ends';
+    return null;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validate(form);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError('');
+
+    const experiment = experimentStorage.addExperiment({ ...form, name: form.name.trim(), hypothesis: form.hypothesis.trim() });
+    setExperiments(experimentStorage.getExperiments());
+    setForm(createDefaultInput());
+    setShowForm(false);
+    navigate(`/experiments/${experiment.id}`);
+  };
+
+  const handleDelete = (id: string) => {
+    experimentStorage.removeExperiment(id);
+    setExperiments(experimentStorage.getExperiments());
+  };
+
+  const renderPeriodInputs = (key: 'baseline' | 'intervention', label: string) => (
+    <div className="text-sm text-gray-300">
+      {label}
+      <div className="flex items-center gap-2 mt-1">
+        <input
+          type="date"
+          value={form[key].startDate}
+          onChange={(e) => setForm({ ...form, [key]: { ...form[key], startDate: e.target.value } })}
+          className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+          aria-label={`${label} start`}
+        />
+        <span className="text-gray-400">to</span>
+        <input
+          type="date"
+          value={form[key].endDate}
+          onChange={(e) => setForm({ ...form, [key]: { ...form[key], endDate: e.target.value } })}
+          className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+          aria-label={`${label} end`}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-900 p-4 md:p-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-white mb-2">Experiments</h1>
+            <p className="text-gray-400">Trial a change, then see whether it actually moved the needle</p>
+          </div>
+          <div className="flex items-center gap-4 mt-4 md:mt-0">
+            <button
+              onClick={() => setShowForm(!showForm)}
+              className="bg-cyan-600 hover:bg-cyan-700 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              {showForm ? 'Cancel' : 'New Experiment'}
+            </button>
+            <button
+              onClick={() => navigate('/analytics')}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Analytics
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-8">
+          {showForm && (
+            <form onSubmit={handleSubmit} className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 space-y-4">
+              <h2 className="text-xl font-semibold text-white">New Experiment</h2>
+
+              {error && (
+                <div className="bg-red-900/20 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+                  {error}
+                </div>
+              )}
+
+              <label className="block text-sm text-gray-300">
+                Name
+                <input
+                  type="text"
+                  value={form.name}
+                  maxLength={100}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="No caffeine after 2pm"
+                  className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                />
+              </label>
+              <label className="block text-sm text-gray-300">
+                Hypothesis
+                <textarea
+                  value={form.hypothesis}
+                  maxLength={500}
+                  rows={2}
+                  onChange={(e) => setForm({ ...form, hypothesis: e.target.value })}
+                  placeholder="Cutting afternoon caffeine will improve my sleep quality"
+                  className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                />
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <label className="text-sm text-gray-300">
+                  Target metric
+                  <select
+                    value={form.metric}
+                    onChange={(e) => setForm({ ...form, metric: e.target.value as StatMetric })}
+                    className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                  >
+                    {STAT_METRICS.map(metric => (
+                      <option key={metric} value={metric}>{getMetricLabel(metric)}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-300">
+                  I expect it to
+                  <select
+                    value={form.expectedDirection}
+                    onChange={(e) => setForm({ ...form, expectedDirection: e.target.value as ExpectedDirection })}
+                    className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                  >
+                    <option value="increase">Increase</option>
+                    <option value="decrease">Decrease</option>
+                  </select>
+                </label>
+              </div>
+              <div className="flex flex-col md:flex-row gap-4">
+                {renderPeriodInputs('baseline', 'Baseline window')}
+                {renderPeriodInputs('intervention', 'Intervention window')}
+              </div>
+
+              <button
+                type="submit"
+                className="bg-cyan-600 hover:bg-cyan-700 text-white px-4 py-2 rounded-md transition-colors"
+              >
+                Start Experiment
+              </button>
+            </form>
+          )}
+
+          {experiments.length === 0 ? (
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-12 text-center">
+              <h3 className="text-xl font-semibold text-white mb-2">No Experiments Yet</h3>
+              <p className="text-gray-400">
+                Pick a change to try, a metric it should affect, and compare a baseline window with an intervention window.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {experiments.map(experiment => {
+                const status = STATUS_STYLES[getExperimentStatus(experiment)];
+                return (
+                  <div key={experiment.id} className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+                    <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                      <div>
+                        <div className="flex items-center gap-3 mb-1">
+                          <h3 className="text-white font-medium">{experiment.name}</h3>
+                          <span className={`border rounded-full px-2 py-0.5 text-xs ${status.className}`}>
+                            {status.label}
+                          </span>
+                        </div>
+                        {experiment.hypothesis && (
+                          <p className="text-gray-300 text-sm mb-2">{experiment.hypothesis}</p>
+                        )}
+                        <p className="text-gray-500 text-xs">
+                          {getMetricLabel(experiment.metric)} · baseline {formatDate(experiment.baseline.startDate)}–{formatDate(experiment.baseline.endDate)}
+                          {' '}· intervention {formatDate(experiment.intervention.startDate)}–{formatDate(experiment.intervention.endDate)}
+                        </p>
+                      </div>
+                      <div className="flex gap-3 text-sm">
+                        <button
+                          onClick={() => navigate(`/experiments/${experiment.id}`)}
+                          className="text-cyan-400 hover:text-cyan-300 transition-colors"
+                        >
+                          Results
+                        </button>
+                        <button
+                          onClick={() => handleDelete(experiment.id)}
+                          className="text-red-400 hover:text-red-300 transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Experiments;
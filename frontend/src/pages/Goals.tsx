@@ -0,0 +1,254 @@
+import React, { useState, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { checkinQueries } from '../services/checkinQueries';
+import type { Goal, GoalComparison, GoalInput } from '../types/goal';
+import { GOAL_COMPARISONS } from '../types/goal';
+import { goalStorage } from '../utils/goalStorage';
+import { describeGoal, evaluateGoal, GOAL_HISTORY_WEEKS } from '../utils/goals';
+import { STAT_METRICS } from '../utils/statistics';
+import { getMetricLabel } from '../utils/metricRegistry';
+import type { StatMetric } from '../utils/statistics';
+
+const EMPTY_GOAL: GoalInput = {
+  metric: 'sleepHours',
+  comparison: 'atLeast',
+  target: 7.5,
+  daysPerWeek: 5
+};
+
+const Goals: React.FC = () => {
+  const navigate = useNavigate();
+  const [goals, setGoals] = useState<Goal[]>(() => goalStorage.getGoals());
+  const [error, setError] = useState<string>('');
+  const [form, setForm] = useState<GoalInput>(EMPTY_GOAL);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const today = new Date().toISOString().split('T')[0];
+  const start = new Date(Date.now() - GOAL_HISTORY_WEEKS * 7 * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .split('T')[0];
+  const { data, isPending: loading, isError } = useQuery(checkinQueries.range(start, today));
+  const checkins = useMemo(() => data ?? [], [data]);
+  const displayError = error || (isError ? 'Failed to load check-in history' : '');
+
+  const progress = useMemo(
+    () => goals.map(goal => evaluateGoal(goal, checkins)),
+    [goals, checkins]
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!Number.isFinite(form.target)) {
+      setError('Please enter a target value');
+      return;
+    }
+    setError('');
+
+    if (editingId) {
+      goalStorage.updateGoal(editingId, form);
+    } else {
+      goalStorage.addGoal(form);
+    }
+    setGoals(goalStorage.getGoals());
+    setForm(EMPTY_GOAL);
+    setEditingId(null);
+  };
+
+  const handleEdit = (goal: Goal) => {
+    setEditingId(goal.id);
+    setForm({
+      metric: goal.metric,
+      comparison: goal.comparison,
+      target: goal.target,
+      daysPerWeek: goal.daysPerWeek
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    goalStorage.removeGoal(id);
+    setGoals(goalStorage.getGoals());
+    if (editingId === id) {
+      setEditingId(null);
+      setForm(EMPTY_GOAL);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 p-4 md:p-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-white mb-2">Goals</h1>
+            <p className="text-gray-400">Set targets for your metrics and track how often you hit them</p>
+          </div>
+          <div className="flex items-center gap-4 mt-4 md:mt-0">
+            <button
+              onClick={() => navigate('/analytics')}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Analytics
+            </button>
+            <button
+              onClick={() => navigate('/dashboard')}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Dashboard
+            </button>
+          </div>
+        </div>
+
+        {displayError && (
+          <div className="mb-6 bg-red-900/20 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+            {displayError}
+          </div>
+        )}
+
+        <div className="space-y-8">
+          {/* Goal form */}
+          <form onSubmit={handleSubmit} className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+            <h2 className="text-xl font-semibold text-white mb-4">{editingId ? 'Edit Goal' : 'New Goal'}</h2>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <label className="text-sm text-gray-300">
+                Metric
+                <select
+                  value={form.metric}
+                  onChange={(e) => setForm({ ...form, metric: e.target.value as StatMetric })}
+                  className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                >
+                  {STAT_METRICS.map(metric => (
+                    <option key={metric} value={metric}>{getMetricLabel(metric)}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-gray-300">
+                Should be
+                <select
+                  value={form.comparison}
+                  onChange={(e) => setForm({ ...form, comparison: e.target.value as GoalComparison })}
+                  className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                >
+                  {GOAL_COMPARISONS.map(comparison => (
+                    <option key={comparison.value} value={comparison.value}>
+                      {comparison.symbol} {comparison.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-gray-300">
+                Target
+                <input
+                  type="number"
+                  step="any"
+                  min={0}
+                  value={Number.isFinite(form.target) ? form.target : ''}
+                  onChange={(e) => setForm({ ...form, target: parseFloat(e.target.value) })}
+                  className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                />
+              </label>
+              <label className="text-sm text-gray-300">
+                Days per week
+                <select
+                  value={form.daysPerWeek}
+                  onChange={(e) => setForm({ ...form, daysPerWeek: parseInt(e.target.value) })}
+                  className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                >
+                  {[1, 2, 3, 4, 5, 6, 7].map(days => (
+                    <option key={days} value={days}>{days}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="flex gap-3 mt-4">
+              <button
+                type="submit"
+                className="bg-cyan-600 hover:bg-cyan-700 text-white px-4 py-2 rounded-md transition-colors"
+              >
+                {editingId ? 'Save Goal' : 'Add Goal'}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(null);
+                    setForm(EMPTY_GOAL);
+                  }}
+                  className="border border-slate-600 text-white px-4 py-2 rounded-md hover:bg-slate-800 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+
+          {/* Goal list with weekly hit history */}
+          {goals.length === 0 ? (
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-12 text-center">
+              <h3 className="text-xl font-semibold text-white mb-2">No Goals Yet</h3>
+              <p className="text-gray-400">
+                Add a goal above, e.g. sleep at least 7.5 hours on 5 days a week.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {progress.map(({ goal, daysMet, history, hitRate }) => (
+                <div key={goal.id} className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div>
+                      <h3 className="text-white font-medium">{describeGoal(goal)}</h3>
+                      <p className="text-gray-400 text-sm">
+                        {daysMet}/{goal.daysPerWeek} days this week
+                        {hitRate !== null && ` · hit ${Math.round(hitRate * 100)}% of past weeks`}
+                      </p>
+                    </div>
+                    <div className="flex gap-3 text-sm">
+                      <button
+                        onClick={() => handleEdit(goal)}
+                        className="text-cyan-400 hover:text-cyan-300 transition-colors"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(goal.id)}
+                        className="text-red-400 hover:text-red-300 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+
+                  {loading ? (
+                    <p className="text-gray-500 text-sm mt-4">Loading history...</p>
+                  ) : (
+                    <div className="flex items-end gap-2 mt-4 h-24">
+                      {history.map((week, index) => {
+                        const isCurrent = index === history.length - 1;
+                        return (
+                          <div key={week.weekStart} className="flex-1 flex flex-col items-center justify-end h-full">
+                            <div
+                              title={`Week of ${week.weekStart}: ${week.daysMet}/${goal.daysPerWeek} days (${week.daysLogged} logged)`}
+                              style={{ height: `${Math.max(Math.min(week.daysMet / goal.daysPerWeek, 1) * 100, 4)}%` }}
+                              className={`w-full rounded-t ${
+                                week.hit ? 'bg-emerald-500' : isCurrent ? 'bg-cyan-700' : 'bg-slate-600'
+                              }`}
+                            />
+                            <span className="text-[10px] text-gray-500 mt-1">
+                              {isCurrent ? 'Now' : new Date(`${week.weekStart}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Goals;
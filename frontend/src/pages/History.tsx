@@ -0,0 +1,589 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { checkinQueries, useCreateCheckin, useDeleteCheckin } from '../services/checkinQueries';
+import SyncService from '../services/syncService';
+import type { CheckinResponse, NumericCheckinField } from '../types/checkin';
+import { EXERCISE_TYPES, MOOD_OPTIONS } from '../types/checkin';
+import {
+  countActiveFilters,
+  duplicateCheckin,
+  EMPTY_FILTERS,
+  filterCheckins,
+  paginate,
+  sortCheckins
+} from '../utils/checkinHistory';
+import type { CheckinFilters, HistorySortKey, RangeFilter, SortDirection } from '../utils/checkinHistory';
+import { getAverageEnergy, round } from '../utils/statistics';
+import { NUMERIC_METRICS } from '../utils/metricRegistry';
+import { experimentStorage } from '../utils/experimentStorage';
+import { useCustomMetrics } from '../services/customMetricQueries';
+import { getCustomMetricId, getCustomMetricKey, getTagCounts, isCustomMetricKey } from '../utils/customMetrics';
+import { tagCheckins } from '../utils/experiments';
+
+const PAGE_SIZES = [10, 20, 50];
+const UNDO_TIMEOUT_MS = 6000;
+
+const COLUMNS: { key: HistorySortKey; label: string }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'mood', label: 'Mood' },
+  { key: 'sleepHours', label: 'Sleep' },
+  { key: 'avgEnergy', label: 'Energy' },
+  { key: 'productivityRating', label: 'Productivity' },
+  { key: 'stressLevel', label: 'Stress' },
+  { key: 'exerciseDuration', label: 'Exercise' }
+];
+
+const parseOptionalNumber = (value: string): number | undefined =>
+  value === '' ? undefined : parseFloat(value);
+
+const History: React.FC = () => {
+  const navigate = useNavigate();
+  const { data: history, isPending: loading, isError } = useQuery(checkinQueries.history());
+  const [error, setError] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+  const [filters, setFilters] = useState<CheckinFilters>(EMPTY_FILTERS);
+  const [sortKey, setSortKey] = useState<HistorySortKey>('date');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(20);
+  const [pendingDelete, setPendingDelete] = useState<CheckinResponse | null>(null);
+  const pendingDeleteRef = useRef<{ checkin: CheckinResponse; timer: number } | null>(null);
+  const customMetrics = useCustomMetrics();
+  const { mutateAsync: deleteCheckin } = useDeleteCheckin();
+  const { mutateAsync: createCheckin } = useCreateCheckin();
+  const displayError = error || (isError ? 'Failed to load check-in history' : '');
+
+  // The row waiting out its undo window is hidden here; the cache only changes once the delete is sent
+  const checkins = useMemo(
+    () => (history ?? []).filter(checkin => checkin.id !== pendingDelete?.id),
+    [history, pendingDelete]
+  );
+
+  // Leaving the page before the undo window closes still deletes the check-in
+  useEffect(() => {
+    return () => {
+      const pending = pendingDeleteRef.current;
+      if (pending) {
+        window.clearTimeout(pending.timer);
+        deleteCheckin(pending.checkin.id).catch(console.error);
+      }
+    };
+  }, [deleteCheckin]);
+
+  const exerciseTypes = useMemo(() => {
+    const types = new Set<string>(EXERCISE_TYPES);
+    checkins.forEach(checkin => {
+      if (checkin.exerciseType) types.add(checkin.exerciseType);
+    });
+    return [...types];
+  }, [checkins]);
+
+  const tags = useMemo(() => getTagCounts(checkins).map(({ tag }) => tag), [checkins]);
+
+  // Check-ins inside an experiment's baseline or intervention window
+  const experimentTags = useMemo(
+    () => tagCheckins(experimentStorage.getExperiments(), checkins),
+    [checkins]
+  );
+
+  const results = useMemo(
+    () => sortCheckins(filterCheckins(checkins, filters), sortKey, sortDirection),
+    [checkins, filters, sortKey, sortDirection]
+  );
+  const currentPage = paginate(results, page, pageSize);
+
+  const updateFilters = (changes: Partial<CheckinFilters>) => {
+    setFilters({ ...filters, ...changes });
+    setPage(1);
+  };
+
+  const updateRange = (index: number, changes: Partial<RangeFilter>) => {
+    updateFilters({
+      ranges: filters.ranges.map((range, i) => (i === index ? { ...range, ...changes } : range))
+    });
+  };
+
+  // Choice metrics filter on one option, everything else on min/max
+  const handleRangeFieldChange = (index: number, field: RangeFilter['field']) => {
+    const metric = isCustomMetricKey(field)
+      ? customMetrics.find(m => m.id === getCustomMetricId(field))
+      : undefined;
+    updateRange(index, {
+      field,
+      min: undefined,
+      max: undefined,
+      equals: metric?.type === 'select' ? metric.options?.[0] : undefined
+    });
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    updateFilters({
+      tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag]
+    });
+  };
+
+  const handleSort = (key: HistorySortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'date' ? 'desc' : 'asc');
+    }
+  };
+
+  const commitDelete = async (checkin: CheckinResponse) => {
+    try {
+      await deleteCheckin(checkin.id);
+    } catch (error) {
+      // The cached lists are restored by the mutation, so the row comes back by itself
+      console.error('Error deleting check-in:', error);
+      setError('Failed to delete check-in');
+    }
+  };
+
+  // Hide the row straight away, only send the delete once the undo window has passed
+  const handleDelete = (checkin: CheckinResponse) => {
+    const previous = pendingDeleteRef.current;
+    if (previous) {
+      window.clearTimeout(previous.timer);
+      commitDelete(previous.checkin);
+    }
+
+    const timer = window.setTimeout(() => {
+      pendingDeleteRef.current = null;
+      setPendingDelete(null);
+      commitDelete(checkin);
+    }, UNDO_TIMEOUT_MS);
+
+    pendingDeleteRef.current = { checkin, timer };
+    setPendingDelete(checkin);
+  };
+
+  const handleUndo = () => {
+    const pending = pendingDeleteRef.current;
+    if (!pending) return;
+    window.clearTimeout(pending.timer);
+    pendingDeleteRef.current = null;
+    setPendingDelete(null);
+  };
+
+  const handleDuplicate = async (checkin: CheckinResponse) => {
+    const today = new Date().toISOString().split('T')[0];
+    const request = duplicateCheckin(checkin, today);
+    setError('');
+    setMessage('');
+
+    try {
+      const created = await createCheckin(request);
+      navigate(`/checkin/${created.id}`);
+    } catch (error) {
+      if (SyncService.isNetworkError(error)) {
+        await SyncService.enqueueCreate(request, 'failedSubmit');
+        setMessage("You're offline. The copy was saved on this device and will sync when you reconnect.");
+        return;
+      }
+      console.error('Error duplicating check-in:', error);
+      setError('Failed to duplicate check-in');
+    }
+  };
+
+  const renderCell = (checkin: CheckinResponse, key: HistorySortKey) => {
+    switch (key) {
+      case 'date':
+        return new Date(`${checkin.date.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+          weekday: 'short',
+          month: 'short',
+          day: 'numeric',
+          year: 'numeric'
+        });
+      case 'mood':
+        return MOOD_OPTIONS.find(option => option.value === checkin.mood?.toLowerCase())?.label || checkin.mood || '—';
+      case 'sleepHours':
+        return checkin.sleepHours !== undefined && checkin.sleepHours !== null ? `${checkin.sleepHours}h` : '—';
+      case 'avgEnergy': {
+        const energy = getAverageEnergy(checkin);
+        return energy !== undefined ? `${round(energy)}/10` : '—';
+      }
+      case 'exerciseDuration':
+        if (!checkin.exerciseType && !checkin.exerciseDuration) return '—';
+        return [checkin.exerciseType, checkin.exerciseDuration ? `${checkin.exerciseDuration} min` : '']
+          .filter(Boolean)
+          .join(' · ');
+      default: {
+        const value = checkin[key as NumericCheckinField];
+        return value !== undefined && value !== null ? `${value}/10` : '—';
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400 mx-auto"></div>
+          <p className="text-white mt-4">Loading check-in history...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-white mb-2">Check-in History</h1>
+            <p className="text-gray-400">Browse, search and manage all of your past check-ins</p>
+          </div>
+          <div className="flex items-center gap-4 mt-4 md:mt-0">
+            <button
+              onClick={() => navigate('/checkin')}
+              className="bg-cyan-600 hover:bg-cyan-700 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              New Check-in
+            </button>
+            <button
+              onClick={() => navigate('/dashboard')}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Dashboard
+            </button>
+          </div>
+        </div>
+
+        {displayError && (
+          <div className="mb-6 bg-red-900/20 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+            {displayError}
+          </div>
+        )}
+        {message && (
+          <div className="mb-6 bg-blue-900/20 border border-blue-700 text-blue-300 px-4 py-3 rounded-lg">
+            {message}
+          </div>
+        )}
+
+        <div className="space-y-6">
+          {/* Filters */}
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-white">Filters</h2>
+              {countActiveFilters(filters) > 0 && (
+                <button
+                  onClick={() => updateFilters(EMPTY_FILTERS)}
+                  className="text-cyan-400 hover:text-cyan-300 text-sm transition-colors"
+                >
+                  Clear all ({countActiveFilters(filters)})
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+              <label className="text-sm text-gray-300 lg:col-span-2">
+                Search notes
+                <input
+                  type="search"
+                  value={filters.search || ''}
+                  onChange={(e) => updateFilters({ search: e.target.value })}
+                  placeholder="e.g. headache, late night"
+                  className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                />
+              </label>
+              <label className="text-sm text-gray-300">
+                From
+                <input
+                  type="date"
+                  value={filters.startDate || ''}
+                  onChange={(e) => updateFilters({ startDate: e.target.value || undefined })}
+                  className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                />
+              </label>
+              <label className="text-sm text-gray-300">
+                To
+                <input
+                  type="date"
+                  value={filters.endDate || ''}
+                  onChange={(e) => updateFilters({ endDate: e.target.value || undefined })}
+                  className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-2"
+                />
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="text-sm text-gray-300">
+                  Mood
+                  <select
+                    value={filters.mood || ''}
+                    onChange={(e) => updateFilters({ mood: e.target.value || undefined })}
+                    className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-2 py-2"
+                  >
+                    <option value="">Any</option>
+                    {MOOD_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-300">
+                  Exercise
+                  <select
+                    value={filters.exerciseType || ''}
+                    onChange={(e) => updateFilters({ exerciseType: e.target.value || undefined })}
+                    className="mt-1 w-full bg-slate-800 border border-slate-600 text-white rounded-md px-2 py-2"
+                  >
+                    <option value="">Any</option>
+                    {exerciseTypes.map(type => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+
+            {/* Tags */}
+            {tags.length > 0 && (
+              <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-400 mr-1">Tags</span>
+                {tags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTagFilter(tag)}
+                    className={`border rounded-full px-3 py-0.5 transition-colors ${
+                      filters.tags.includes(tag)
+                        ? 'bg-cyan-900/40 text-cyan-300 border-cyan-700'
+                        : 'bg-slate-800 text-gray-300 border-slate-600 hover:text-white'
+                    }`}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Numeric ranges */}
+            <div className="mt-4 space-y-2">
+              {filters.ranges.map((range, index) => {
+                const customId = isCustomMetricKey(range.field) ? getCustomMetricId(range.field) : undefined;
+                const choiceMetric = customMetrics.find(m => m.id === customId && m.type === 'select');
+                return (
+                  <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                    <select
+                      value={range.field}
+                      onChange={(e) => handleRangeFieldChange(index, e.target.value as RangeFilter['field'])}
+                      className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-1.5"
+                    >
+                      {NUMERIC_METRICS.map(field => (
+                        <option key={field.key} value={field.key}>{field.label}</option>
+                      ))}
+                      {customMetrics.length > 0 && (
+                        <optgroup label="Custom metrics">
+                          {customMetrics.map(metric => (
+                            <option key={metric.id} value={getCustomMetricKey(metric)}>{metric.name}</option>
+                          ))}
+                        </optgroup>
+                      )}
+                    </select>
+                    {choiceMetric ? (
+                      <>
+                        <span className="text-gray-400">is</span>
+                        <select
+                          value={range.equals ?? ''}
+                          onChange={(e) => updateRange(index, { equals: e.target.value })}
+                          className="bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-1.5"
+                        >
+                          {(choiceMetric.options || []).map(option => (
+                            <option key={option} value={option}>{option}</option>
+                          ))}
+                        </select>
+                      </>
+                    ) : (
+                      <>
+                        <span className="text-gray-400">between</span>
+                        <input
+                          type="number"
+                          step="any"
+                          placeholder="min"
+                          value={range.min ?? ''}
+                          onChange={(e) => updateRange(index, { min: parseOptionalNumber(e.target.value) })}
+                          className="w-24 bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-1.5"
+                        />
+                        <span className="text-gray-400">and</span>
+                        <input
+                          type="number"
+                          step="any"
+                          placeholder="max"
+                          value={range.max ?? ''}
+                          onChange={(e) => updateRange(index, { max: parseOptionalNumber(e.target.value) })}
+                          className="w-24 bg-slate-800 border border-slate-600 text-white rounded-md px-3 py-1.5"
+                        />
+                      </>
+                    )}
+                    <button
+                      onClick={() => updateFilters({ ranges: filters.ranges.filter((_, i) => i !== index) })}
+                      className="text-red-400 hover:text-red-300 px-2 transition-colors"
+                      aria-label="Remove range filter"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                );
+              })}
+              <button
+                onClick={() => updateFilters({ ranges: [...filters.ranges, { field: 'sleepHours' }] })}
+                className="text-cyan-400 hover:text-cyan-300 text-sm transition-colors"
+              >
+                + Add range filter
+              </button>
+            </div>
+          </div>
+
+          {/* Undo bar */}
+          {pendingDelete && (
+            <div className="flex items-center justify-between bg-slate-800 border border-slate-600 text-gray-200 px-4 py-3 rounded-lg">
+              <span className="text-sm">
+                Deleted the check-in from {renderCell(pendingDelete, 'date')}.
+              </span>
+              <button
+                onClick={handleUndo}
+                className="text-cyan-400 hover:text-cyan-300 text-sm font-medium transition-colors"
+              >
+                Undo
+              </button>
+            </div>
+          )}
+
+          {/* Results */}
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+            <div className="flex items-center justify-between mb-4 text-sm text-gray-400">
+              <span>
+                {currentPage.totalItems} of {checkins.length} check-ins
+              </span>
+              <label className="flex items-center gap-2">
+                Per page
+                <select
+                  value={pageSize}
+                  onChange={(e) => {
+                    setPageSize(parseInt(e.target.value));
+                    setPage(1);
+                  }}
+                  className="bg-slate-800 border border-slate-600 text-white rounded-md px-2 py-1"
+                >
+                  {PAGE_SIZES.map(size => (
+                    <option key={size} value={size}>{size}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {currentPage.totalItems === 0 ? (
+              <p className="text-gray-400 text-center py-12">
+                {checkins.length === 0 ? 'No check-ins yet.' : 'No check-ins match these filters.'}
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-700 text-left">
+                      {COLUMNS.map(column => (
+                        <th key={column.key} className="py-2 pr-4 font-medium">
+                          <button
+                            onClick={() => handleSort(column.key)}
+                            className={`hover:text-white transition-colors ${
+                              sortKey === column.key ? 'text-cyan-400' : 'text-gray-400'
+                            }`}
+                          >
+                            {column.label}
+                            {sortKey === column.key && (sortDirection === 'asc' ? ' ▲' : ' ▼')}
+                          </button>
+                        </th>
+                      ))}
+                      <th className="py-2 pr-4 font-medium text-gray-400">Notes</th>
+                      <th className="py-2 font-medium text-gray-400 text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {currentPage.items.map(checkin => (
+                      <tr key={checkin.id} className="border-b border-slate-700/50 hover:bg-slate-800/60">
+                        {COLUMNS.map(column => (
+                          <td key={column.key} className="py-3 pr-4 text-gray-200 whitespace-nowrap">
+                            {renderCell(checkin, column.key)}
+                            {column.key === 'date' && experimentTags.get(checkin.id)?.map(tag => (
+                              <button
+                                key={tag.experiment.id}
+                                onClick={() => navigate(`/experiments/${tag.experiment.id}`)}
+                                title={`${tag.experiment.name}: ${tag.window} window`}
+                                className={`block mt-1 border rounded-full px-2 py-0.5 text-[10px] ${
+                                  tag.window === 'intervention'
+                                    ? 'bg-cyan-900/30 text-cyan-300 border-cyan-700'
+                                    : 'bg-slate-700/40 text-gray-300 border-slate-600'
+                                }`}
+                              >
+                                🧪 {tag.experiment.name} · {tag.window}
+                              </button>
+                            ))}
+                          </td>
+                        ))}
+                        <td className="py-3 pr-4 text-gray-400 max-w-xs truncate" title={[checkin.notes, checkin.sleepNotes].filter(Boolean).join('\n')}>
+                          {checkin.notes || checkin.sleepNotes || ''}
+                          {checkin.tags && checkin.tags.length > 0 && (
+                            <span className="block text-xs text-cyan-400/80 truncate">
+                              {checkin.tags.map(tag => `#${tag}`).join(' ')}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-3 text-right whitespace-nowrap space-x-3">
+                          <button
+                            onClick={() => navigate(`/checkin/${checkin.id}`)}
+                            className="text-cyan-400 hover:text-cyan-300 transition-colors"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDuplicate(checkin)}
+                            className="text-gray-300 hover:text-white transition-colors"
+                            title="Copy this check-in to today"
+                          >
+                            Duplicate
+                          </button>
+                          <button
+                            onClick={() => handleDelete(checkin)}
+                            className="text-red-400 hover:text-red-300 transition-colors"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Pagination */}
+            {currentPage.totalPages > 1 && (
+              <div className="flex items-center justify-center gap-4 mt-6 text-sm">
+                <button
+                  onClick={() => setPage(currentPage.page - 1)}
+                  disabled={currentPage.page === 1}
+                  className="bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:hover:bg-slate-700 text-white px-3 py-1.5 rounded-md transition-colors"
+                >
+                  ← Previous
+                </button>
+                <span className="text-gray-400">
+                  Page {currentPage.page} of {currentPage.totalPages}
+                </span>
+                <button
+                  onClick={() => setPage(currentPage.page + 1)}
+                  disabled={currentPage.page === currentPage.totalPages}
+                  className="bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:hover:bg-slate-700 text-white px-3 py-1.5 rounded-md transition-colors"
+                >
+                  Next →
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -0,0 +1,436 @@
+import React, { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import CheckinService from '../services/checkinService';
+import { invalidateCheckins } from '../services/checkinQueries';
+import SyncService from '../services/syncService';
+import {
+  IMPORT_FIELDS,
+  buildImportRow,
+  getCustomImportFields,
+  guessColumnMapping,
+  markDuplicates,
+  parseCsv
+} from '../utils/checkinImport';
+import type { ColumnMapping, ImportField, ImportRow, ParsedCsv } from '../utils/checkinImport';
+import { useCustomMetrics } from '../services/customMetricQueries';
+import type { CustomMetricKey } from '../utils/customMetrics';
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'import';
+type RowImportStatus = 'pending' | 'imported' | 'failed';
+type RunState = 'idle' | 'running' | 'paused' | 'done';
+
+// Keep the API comfortable: a few requests at a time with a pause in between
+const BATCH_SIZE = 5;
+const BATCH_DELAY_MS = 1000;
+
+const STEPS: { key: WizardStep; label: string }[] = [
+  { key: 'upload', label: 'Upload' },
+  { key: 'map', label: 'Map Columns' },
+  { key: 'preview', label: 'Review' },
+  { key: 'import', label: 'Import' },
+];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const ImportCheckins: React.FC = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedCsv | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const customMetrics = useCustomMetrics();
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [showProblemsOnly, setShowProblemsOnly] = useState(false);
+  const [rowStatus, setRowStatus] = useState<Record<number, RowImportStatus>>({});
+  const [rowErrors, setRowErrors] = useState<Record<number, string>>({});
+  const [runState, setRunState] = useState<RunState>('idle');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const pauseRequested = useRef(false);
+
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const importableRows = validRows.filter(row => !(skipDuplicates && row.duplicateOf.length > 0));
+  const importedCount = Object.values(rowStatus).filter(s => s === 'imported').length;
+  const failedRows = importableRows.filter(row => rowStatus[row.rowNumber] === 'failed');
+  const remainingRows = importableRows.filter(row => !rowStatus[row.rowNumber] || rowStatus[row.rowNumber] === 'pending');
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+    const result = parseCsv(await file.text());
+    if (result.headers.length === 0 || result.rows.length === 0) {
+      setError('The file has no data rows. Make sure the first row contains column headers.');
+      return;
+    }
+
+    setFileName(file.name);
+    setParsed(result);
+    setMapping(guessColumnMapping(result.headers, customMetrics));
+    setStep('map');
+  };
+
+  const handleMappingChange = (field: ImportField | CustomMetricKey, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const handleValidate = async () => {
+    if (!parsed) return;
+    if (mapping.date === undefined) {
+      setError('Map a column to Date before continuing');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const built = parsed.rows.map((cells, index) =>
+        buildImportRow(cells, mapping, parsed.lineNumbers[index], customMetrics)
+      );
+
+      // Look up existing check-ins over the span of the file to flag duplicates
+      const dates = built.map(row => row.data.date).filter(Boolean).sort();
+      const existing = dates.length > 0
+        ? await CheckinService.getCheckinHistory(dates[0], dates[dates.length - 1])
+        : [];
+
+      setRows(markDuplicates(built, existing));
+      setRowStatus({});
+      setRowErrors({});
+      setRunState('idle');
+      setStep('preview');
+    } catch (error) {
+      console.error('Error validating import:', error);
+      setError('Failed to check for existing check-ins. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runImport = async (queue: ImportRow[]) => {
+    pauseRequested.current = false;
+    setRunState('running');
+    setError('');
+
+    try {
+      for (let i = 0; i < queue.length; i += BATCH_SIZE) {
+        if (pauseRequested.current) {
+          setRunState('paused');
+          return;
+        }
+
+        for (const row of queue.slice(i, i + BATCH_SIZE)) {
+          try {
+            await CheckinService.createCheckin(row.data);
+            setRowStatus(prev => ({ ...prev, [row.rowNumber]: 'imported' }));
+          } catch (error) {
+            if (SyncService.isNetworkError(error)) {
+              setError('Connection lost. Resume the import once you are back online.');
+              setRunState('paused');
+              return;
+            }
+            setRowStatus(prev => ({ ...prev, [row.rowNumber]: 'failed' }));
+            setRowErrors(prev => ({
+              ...prev,
+              [row.rowNumber]: error instanceof Error ? error.message : 'Import failed'
+            }));
+          }
+        }
+
+        if (i + BATCH_SIZE < queue.length) {
+          await wait(BATCH_DELAY_MS);
+        }
+      }
+
+      setRunState('done');
+    } finally {
+      // Rows are created one by one, so refresh cached lists once per run rather than per row
+      invalidateCheckins(queryClient);
+    }
+  };
+
+  const handleStart = () => {
+    setStep('import');
+    runImport(remainingRows);
+  };
+
+  const handleRetryFailed = () => {
+    setRowStatus(prev => {
+      const next = { ...prev };
+      failedRows.forEach(row => { next[row.rowNumber] = 'pending'; });
+      return next;
+    });
+    runImport([...failedRows, ...remainingRows]);
+  };
+
+  const visibleRows = showProblemsOnly
+    ? rows.filter(row => row.errors.length > 0 || row.duplicateOf.length > 0)
+    : rows;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-800">
+      <div className="max-w-5xl mx-auto px-6 py-8">
+        {/* Header */}
+        <div className="text-center mb-10">
+          <h1 className="text-3xl font-bold text-white mb-3">Import Check-ins</h1>
+          <p className="text-slate-400 text-lg">
+            Bring your history over from a spreadsheet export (CSV)
+          </p>
+        </div>
+
+        {/* Steps */}
+        <div className="flex justify-center gap-2 mb-8 text-sm">
+          {STEPS.map((s, index) => (
+            <div
+              key={s.key}
+              className={`px-4 py-2 rounded-lg border ${
+                s.key === step
+                  ? 'bg-blue-600/20 border-blue-500/30 text-blue-200'
+                  : 'bg-slate-800/40 border-slate-700/30 text-slate-500'
+              }`}
+            >
+              {index + 1}. {s.label}
+            </div>
+          ))}
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-900/20 border border-red-700 text-red-300 px-6 py-4 rounded-xl">
+            <div className="flex items-center">
+              <span className="text-red-400 mr-3">⚠</span>
+              {error}
+            </div>
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-8 text-center">
+            <div className="text-4xl mb-4">📄</div>
+            <p className="text-slate-300 mb-6">
+              Choose a CSV file with one check-in per row and a header row naming each column.
+            </p>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              className="text-slate-300 text-sm file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-600 file:text-white hover:file:bg-blue-500"
+            />
+          </div>
+        )}
+
+        {step === 'map' && parsed && (
+          <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-8">
+            <h2 className="text-xl font-bold text-white mb-2">Map Columns</h2>
+            <p className="text-slate-400 text-sm mb-6">
+              {fileName}: {parsed.rows.length} rows. Pick the column that holds each check-in field.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {[...IMPORT_FIELDS, ...getCustomImportFields(customMetrics)].map(field => (
+                <div key={field.key} className="flex items-center justify-between gap-4">
+                  <label className="text-sm font-medium text-slate-300">
+                    {field.label}{field.key === 'date' && <span className="text-red-400"> *</span>}
+                  </label>
+                  <select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => handleMappingChange(field.key, e.target.value)}
+                    className="w-48 bg-slate-900/50 border border-slate-600/50 rounded-lg py-2 px-3 text-white text-sm"
+                  >
+                    <option value="">Don't import</option>
+                    {parsed.headers.map((header, index) => (
+                      <option key={index} value={index} className="bg-slate-800">{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-4 mt-8">
+              <button
+                type="button"
+                onClick={() => setStep('upload')}
+                className="py-2 px-6 border border-slate-600/50 rounded-lg font-medium text-slate-300 bg-slate-800/40 hover:bg-slate-700/60 transition-all"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleValidate}
+                disabled={loading}
+                className="py-2 px-6 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium disabled:opacity-50 transition-all"
+              >
+                {loading ? 'Checking...' : 'Validate Rows'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-8">
+            <h2 className="text-xl font-bold text-white mb-4">Review</h2>
+            <div className="grid grid-cols-3 gap-4 mb-6 text-center">
+              <div className="bg-slate-900/40 rounded-lg p-4">
+                <div className="text-2xl font-bold text-white">{validRows.length}</div>
+                <div className="text-slate-400 text-sm">Valid rows</div>
+              </div>
+              <div className="bg-slate-900/40 rounded-lg p-4">
+                <div className="text-2xl font-bold text-red-400">{rows.length - validRows.length}</div>
+                <div className="text-slate-400 text-sm">Rows with errors</div>
+              </div>
+              <div className="bg-slate-900/40 rounded-lg p-4">
+                <div className="text-2xl font-bold text-amber-400">
+                  {validRows.filter(row => row.duplicateOf.length > 0).length}
+                </div>
+                <div className="text-slate-400 text-sm">Dates already checked in</div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-6 mb-4 text-sm text-slate-300">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+                Skip rows on dates that already have check-ins
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={showProblemsOnly} onChange={(e) => setShowProblemsOnly(e.target.checked)} />
+                Show only rows with problems
+              </label>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto border border-slate-700/30 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-900/60 text-slate-400 sticky top-0">
+                  <tr>
+                    <th className="text-left px-4 py-2">Line</th>
+                    <th className="text-left px-4 py-2">Date</th>
+                    <th className="text-left px-4 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map(row => (
+                    <tr key={row.rowNumber} className="border-t border-slate-700/30">
+                      <td className="px-4 py-2 text-slate-500">{row.rowNumber}</td>
+                      <td className="px-4 py-2 text-white">{row.data.date || '—'}</td>
+                      <td className="px-4 py-2">
+                        {row.errors.length > 0 ? (
+                          <ul className="text-red-300 text-xs space-y-1">
+                            {row.errors.map(message => <li key={message}>{message}</li>)}
+                          </ul>
+                        ) : row.duplicateOf.length > 0 ? (
+                          <span className="text-amber-300 text-xs">
+                            {row.duplicateOf.length} existing check-in{row.duplicateOf.length !== 1 ? 's' : ''} on this date
+                            {skipDuplicates ? ' (will be skipped)' : ''}
+                          </span>
+                        ) : (
+                          <span className="text-emerald-300 text-xs">Ready</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end gap-4 mt-8">
+              <button
+                type="button"
+                onClick={() => setStep('map')}
+                className="py-2 px-6 border border-slate-600/50 rounded-lg font-medium text-slate-300 bg-slate-800/40 hover:bg-slate-700/60 transition-all"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleStart}
+                disabled={importableRows.length === 0}
+                className="py-2 px-6 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium disabled:opacity-50 transition-all"
+              >
+                Import {importableRows.length} Check-in{importableRows.length !== 1 ? 's' : ''}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'import' && (
+          <div className="bg-slate-800/40 border border-slate-700/30 rounded-xl p-8">
+            <h2 className="text-xl font-bold text-white mb-4">
+              {runState === 'done' ? 'Import Report' : runState === 'paused' ? 'Import Paused' : 'Importing...'}
+            </h2>
+
+            <div className="w-full h-3 bg-slate-700 rounded-full overflow-hidden mb-2">
+              <div
+                className="h-full bg-blue-500 transition-all"
+                style={{ width: `${importableRows.length ? (importedCount + failedRows.length) / importableRows.length * 100 : 0}%` }}
+              />
+            </div>
+            <p className="text-slate-400 text-sm mb-6">
+              {importedCount} imported • {failedRows.length} failed • {remainingRows.length} remaining
+              • {rows.length - importableRows.length} skipped
+            </p>
+
+            {failedRows.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-red-300 mb-2">Failed rows</h3>
+                <ul className="text-xs text-slate-300 space-y-1">
+                  {failedRows.map(row => (
+                    <li key={row.rowNumber}>
+                      Line {row.rowNumber} ({row.data.date}): {rowErrors[row.rowNumber]}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-4">
+              {runState === 'running' && (
+                <button
+                  type="button"
+                  onClick={() => { pauseRequested.current = true; }}
+                  className="py-2 px-6 border border-slate-600/50 rounded-lg font-medium text-slate-300 bg-slate-800/40 hover:bg-slate-700/60 transition-all"
+                >
+                  Pause
+                </button>
+              )}
+              {runState === 'paused' && (
+                <button
+                  type="button"
+                  onClick={() => runImport(remainingRows)}
+                  className="py-2 px-6 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium transition-all"
+                >
+                  Resume
+                </button>
+              )}
+              {runState === 'done' && failedRows.length > 0 && (
+                <button
+                  type="button"
+                  onClick={handleRetryFailed}
+                  className="py-2 px-6 border border-slate-600/50 rounded-lg font-medium text-slate-300 bg-slate-800/40 hover:bg-slate-700/60 transition-all"
+                >
+                  Retry Failed
+                </button>
+              )}
+              {runState !== 'running' && (
+                <button
+                  type="button"
+                  onClick={() => navigate('/dashboard')}
+                  className="py-2 px-6 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium transition-all"
+                >
+                  Go to Dashboard
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportCheckins;
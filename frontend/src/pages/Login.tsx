@@ -1,9 +1,11 @@
 import { useState } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import { authService } from "../services/authService";
+import { useAuth } from "../context/AuthContext";
+import { getSafeReturnPath } from "../utils/session";
+import { ApiError, ValidationError } from "../services/apiErrors";
 
 const loginSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -17,25 +19,37 @@ interface LoginForm {
 
 export default function Login() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { login } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const {
     register,
     handleSubmit,
+    setError: setFieldError,
     formState: { errors },
   } = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
   });
 
+  // Server validation messages go next to their inputs; returns whether any matched a field
+  const showFieldErrors = (err: ValidationError) => {
+    const fields = (["email", "password"] as const).filter((field) => err.getFieldError(field));
+    fields.forEach((field) => setFieldError(field, { type: "server", message: err.getFieldError(field) }));
+    return fields.length > 0;
+  };
+
   const onSubmit = async (data: LoginForm) => {
     setIsLoading(true);
     setError(null);
     try {
-      await authService.login(data);
-      navigate("/dashboard");
-    } catch (err: any) {
-      setError(err.response?.data?.message || "Invalid email or password");
+      await login(data);
+      // Back to where the session ended, if it did
+      navigate(getSafeReturnPath(searchParams.get("returnTo")) || "/dashboard", { replace: true });
+    } catch (err) {
+      if (err instanceof ValidationError && showFieldErrors(err)) return;
+      setError(err instanceof ApiError ? err.message : "Invalid email or password");
     } finally {
       setIsLoading(false);
     }
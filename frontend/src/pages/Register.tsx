@@ -3,7 +3,8 @@ import { useNavigate, Link } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import { authService } from "../services/authService";
+import { useAuth } from "../context/AuthContext";
+import { ApiError, ValidationError } from "../services/apiErrors";
 
 const registerSchema = z.object({
   firstName: z.string().max(50, "First name must be less than 50 characters").optional(),
@@ -21,26 +22,36 @@ interface RegisterForm {
 
 export default function Register() {
   const navigate = useNavigate();
+  const auth = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const {
     register,
     handleSubmit,
+    setError: setFieldError,
     formState: { errors },
   } = useForm<RegisterForm>({
     resolver: zodResolver(registerSchema),
   });
 
+  // Server validation messages go next to their inputs; returns whether any matched a field
+  const showFieldErrors = (err: ValidationError) => {
+    const fields = (["firstName", "lastName", "email", "password"] as const).filter((field) => err.getFieldError(field));
+    fields.forEach((field) => setFieldError(field, { type: "server", message: err.getFieldError(field) }));
+    return fields.length > 0;
+  };
+
   const onSubmit = async (data: RegisterForm) => {
     setIsLoading(true);
     setError(null);
 
     try {
-      await authService.register(data);
+      await auth.register(data);
       navigate("/dashboard");
-    } catch (err: any) {
-      setError(err.response?.data?.message || "Registration failed. Please try again.");
+    } catch (err) {
+      if (err instanceof ValidationError && showFieldErrors(err)) return;
+      setError(err instanceof ApiError ? err.message : "Registration failed. Please try again.");
     } finally {
       setIsLoading(false);
     }
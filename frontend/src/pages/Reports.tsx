@@ -0,0 +1,309 @@
+import React, { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { checkinQueries } from '../services/checkinQueries';
+import type { ReportDay, ReportKind, ReportSentiment } from '../utils/report';
+import {
+  describeReportPeriod,
+  formatHeadlineChange,
+  getReportFilename,
+  getReportTitle,
+  NOTE_REASON_LABELS,
+  REPORT_CHART_METRICS,
+  shiftReportAnchor
+} from '../utils/report';
+import { renderReportHtml } from '../utils/reportHtml';
+import { downloadFile } from '../utils/checkinExport';
+import { formatMetricValue, getMetric, getMetricLabel } from '../utils/metricRegistry';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const REPORT_KINDS: { value: ReportKind; label: string }[] = [
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' }
+];
+
+const SENTIMENT_STYLES: Record<ReportSentiment, string> = {
+  better: 'text-emerald-400 print:text-emerald-700',
+  worse: 'text-orange-400 print:text-orange-700',
+  neutral: 'text-gray-400 print:text-slate-500'
+};
+
+const TOOLTIP_STYLE = {
+  backgroundColor: '#1f2937',
+  border: '1px solid #374151',
+  borderRadius: '8px',
+  color: '#ffffff'
+};
+
+// Cards keep the app's dark look on screen and print as plain outlined boxes
+const CARD = 'bg-slate-800/50 border border-slate-700 rounded-lg p-6 break-inside-avoid print:bg-white print:border-slate-300 print:p-4';
+
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const formatPercent = (rate: number): string => `${Math.round(rate * 100)}%`;
+
+const Reports: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const kind: ReportKind = searchParams.get('period') === 'month' ? 'month' : 'week';
+  const dateParam = searchParams.get('date') || '';
+  const today = new Date().toISOString().split('T')[0];
+  const anchor = DATE_PATTERN.test(dateParam) ? dateParam : today;
+
+  const { data, isPending: loading, isError } = useQuery(checkinQueries.report(kind, anchor));
+  const report = data ?? null;
+  const error = isError ? 'Failed to build the report' : '';
+
+  const chartData = useMemo(
+    () => (report?.series || []).map(point => ({
+      ...point,
+      label: new Date(`${point.date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+    })),
+    [report]
+  );
+
+  const nextAnchor = shiftReportAnchor(kind, anchor, 1);
+  const isCurrentPeriod = report !== null && report.period.endDate >= today;
+
+  const handleDownload = () => {
+    if (!report) return;
+    downloadFile(renderReportHtml(report), getReportFilename(report, 'html'), 'text/html;charset=utf-8');
+  };
+
+  const renderDays = (title: string, days: ReportDay[]) => (
+    <div>
+      <h3 className="text-white font-medium mb-3 print:text-black">{title}</h3>
+      {days.length === 0 ? (
+        <p className="text-gray-400 text-sm">Not enough ratings logged yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {days.map(day => (
+            <li key={day.date} className="flex justify-between text-sm">
+              <span className="text-gray-300 print:text-slate-700">{formatDay(day.date)}</span>
+              <span className="text-white font-medium print:text-black">{day.score}/10</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-900 p-4 md:p-8 print:bg-white print:p-0">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 print:mb-4">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-white mb-2 print:text-black">
+              {report ? getReportTitle(report) : 'Reports'}
+            </h1>
+            {report && (
+              <p className="text-gray-400 print:text-slate-600">
+                {describeReportPeriod(report.period)} · {report.daysLogged} of {report.totalDays} days logged
+                {' '}({report.previousDaysLogged} in the previous {kind})
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-4 mt-4 md:mt-0 print:hidden">
+            <button
+              onClick={() => navigate('/analytics')}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Analytics
+            </button>
+            <button
+              onClick={() => navigate('/dashboard')}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Dashboard
+            </button>
+          </div>
+        </div>
+
+        {/* Controls */}
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 mb-8 flex flex-wrap items-center justify-between gap-4 print:hidden">
+          <div className="flex flex-wrap items-center gap-2">
+            {REPORT_KINDS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setSearchParams({ period: option.value, date: anchor })}
+                className={`px-4 py-2 rounded-md text-sm transition-colors ${
+                  kind === option.value ? 'bg-cyan-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-gray-300'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+            <button
+              onClick={() => setSearchParams({ period: kind, date: shiftReportAnchor(kind, anchor, -1) })}
+              className="border border-slate-600 text-white px-3 py-2 rounded-md hover:bg-slate-800 transition-colors text-sm"
+              aria-label={`Previous ${kind}`}
+            >
+              ←
+            </button>
+            <button
+              onClick={() => setSearchParams({ period: kind, date: nextAnchor })}
+              disabled={isCurrentPeriod}
+              className="border border-slate-600 text-white px-3 py-2 rounded-md hover:bg-slate-800 transition-colors text-sm disabled:opacity-40"
+              aria-label={`Next ${kind}`}
+            >
+              →
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={handleDownload}
+              disabled={!report}
+              className="border border-slate-600 text-white px-4 py-2 rounded-md hover:bg-slate-800 transition-colors text-sm disabled:opacity-40"
+            >
+              Download HTML
+            </button>
+            <button
+              onClick={() => window.print()}
+              disabled={!report}
+              className="bg-cyan-600 hover:bg-cyan-700 text-white px-4 py-2 rounded-md transition-colors text-sm disabled:opacity-40"
+            >
+              Print / Save as PDF
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-900/20 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-500"></div>
+          </div>
+        ) : report && report.checkinCount === 0 ? (
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-12 text-center">
+            <h3 className="text-xl font-semibold text-white mb-2">Nothing Logged This {kind === 'week' ? 'Week' : 'Month'}</h3>
+            <p className="text-gray-400">Pick another period or add a check-in to build a report.</p>
+          </div>
+        ) : report && (
+          <div className="space-y-8 print:space-y-4">
+            {/* Headline stats */}
+            <div className={CARD}>
+              <h2 className="text-xl font-semibold text-white mb-1 print:text-black">Headlines</h2>
+              <p className="text-sm text-gray-400 mb-4 print:text-slate-600">
+                Daily averages, compared with {describeReportPeriod(report.previousPeriod)}
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {report.headlines.map(headline => {
+                  const change = formatHeadlineChange(headline);
+                  return (
+                    <div key={headline.metric}>
+                      <div className="text-sm text-gray-400 print:text-slate-600">{getMetricLabel(headline.metric)}</div>
+                      <div className="text-2xl font-bold text-white print:text-black">
+                        {formatMetricValue(headline.metric, headline.meanB!)}
+                      </div>
+                      <div className={`text-xs ${SENTIMENT_STYLES[headline.sentiment]}`}>
+                        {change ? `${change} vs previous` : 'No earlier data'}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Daily chart */}
+            <div className={CARD}>
+              <h2 className="text-xl font-semibold text-white mb-4 print:text-black">Daily Trends</h2>
+              <ResponsiveContainer width="100%" height={280}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="label" stroke="#9ca3af" fontSize={12} />
+                  <YAxis stroke="#9ca3af" fontSize={12} />
+                  <Tooltip contentStyle={TOOLTIP_STYLE} />
+                  <Legend />
+                  {REPORT_CHART_METRICS.map(metric => (
+                    <Line
+                      key={metric}
+                      type="monotone"
+                      dataKey={metric}
+                      name={getMetricLabel(metric)}
+                      stroke={getMetric(metric).color}
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                      // Printing snapshots the page before an animation would finish
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Best and worst days */}
+            <div className={`${CARD} grid grid-cols-1 md:grid-cols-2 gap-8 print:grid-cols-2`}>
+              {renderDays('Best Days', report.bestDays)}
+              {renderDays('Toughest Days', report.worstDays)}
+            </div>
+
+            {/* Goal hit-rates */}
+            {report.goals.length > 0 && (
+              <div className={CARD}>
+                <h2 className="text-xl font-semibold text-white mb-4 print:text-black">Goals</h2>
+                <div className="space-y-4">
+                  {report.goals.map(({ goal, description, daysMet, targetDays, hitRate, previousHitRate }) => (
+                    <div key={goal.id}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-gray-300 print:text-slate-700">{description}</span>
+                        <span className="text-white print:text-black">
+                          {daysMet} of {targetDays} days · {formatPercent(hitRate)}
+                          {previousHitRate !== null && (
+                            <span className="text-gray-400 print:text-slate-500"> (was {formatPercent(previousHitRate)})</span>
+                          )}
+                        </span>
+                      </div>
+                      <div className="h-2 bg-slate-700 rounded-full print:bg-slate-200">
+                        <div className="h-2 bg-cyan-500 rounded-full" style={{ width: formatPercent(hitRate) }} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Notable notes */}
+            {report.notes.length > 0 && (
+              <div className={CARD}>
+                <h2 className="text-xl font-semibold text-white mb-4 print:text-black">Notes</h2>
+                <div className="space-y-4">
+                  {report.notes.map(note => (
+                    <div key={`${note.date}-${note.text}`} className="border-l-2 border-cyan-600 pl-4 break-inside-avoid">
+                      <div className="text-xs text-gray-400 mb-1 print:text-slate-500">
+                        {formatDay(note.date)} · {NOTE_REASON_LABELS[note.reason]}
+                      </div>
+                      <p className="text-gray-200 text-sm whitespace-pre-line print:text-slate-800">{note.text}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500 print:text-slate-500">
+              Generated {new Date(report.generatedAt).toLocaleString('en-US')}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Reports;
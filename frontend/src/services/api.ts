@@ -9,10 +9,28 @@ export const api = axios.create({
   },
 });
 
+export interface AuthBinding {
+  getToken: () => string | null;
+  onUnauthorized: () => void; // The API rejected the token that was sent
+}
+
+// Set by AuthProvider, the single source of the token
+let auth: AuthBinding | null = null;
+
+/**
+ * Connect the client to the auth state; returns a function that disconnects it again
+ */
+export const bindAuth = (binding: AuthBinding): (() => void) => {
+  auth = binding;
+  return () => {
+    if (auth === binding) auth = null;
+  };
+};
+
 // Request interceptor: Add JWT token to all requests
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('token');
+    const token = auth?.getToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -23,15 +41,14 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor: Handle 401 (redirect to login)
+// Response interceptor: Handle 401 by ending the session and letting the page prompt a re-login,
+// so unsaved form input isn't lost to a hard redirect. A 401 without a token (bad login) is left to the caller.
 api.interceptors.response.use(
   (response) => response,
   (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
-      window.location.href = '/login';
+    if (error.response?.status === 401 && error.config?.headers?.Authorization) {
+      auth?.onUnauthorized();
     }
     return Promise.reject(error);
   }
-);
\ No newline at end of file
+);
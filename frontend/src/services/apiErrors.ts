@@ -0,0 +1,144 @@
+import axios from 'axios';
+
+// Validation messages per request field, keyed by the field's camelCase name as the client sends it
+export type FieldErrors = Record<string, string[]>;
+
+interface ApiErrorOptions {
+  status?: number | null;
+  traceId?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the service layer. The message is safe to show to the user.
+ */
+export class ApiError extends Error {
+  readonly status: number | null; // Null when no response came back
+  readonly traceId?: string; // From ErrorHandlingMiddleware, for matching server logs
+
+  constructor(message: string, { status = null, traceId, cause }: ApiErrorOptions = {}) {
+    super(message, { cause });
+    this.name = 'ApiError';
+    this.status = status;
+    this.traceId = traceId;
+  }
+}
+
+// 400 with the server's ModelState messages
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(message: string, fieldErrors: FieldErrors, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+
+  /**
+   * First message for a field, for showing next to its input
+   */
+  getFieldError(field: string): string | undefined {
+    return this.fieldErrors[field]?.[0];
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'ConflictError';
+  }
+}
+
+// The request never reached the server, e.g. offline
+export class NetworkError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'ServerError';
+  }
+}
+
+// The shapes the API answers errors with: { message } from controllers, ErrorResponse from
+// ErrorHandlingMiddleware, and ModelState either as ValidationProblemDetails or a bare dictionary
+interface ErrorPayload {
+  message?: string;
+  title?: string;
+  traceId?: string;
+  errors?: Record<string, string[] | string>;
+}
+
+// "SleepHours", "request.SleepHours", "$.sleepHours" and "Tags[0]" all map to the client's field name
+const toFieldName = (key: string): string => {
+  const name = key.replace(/\[.*?\]/g, '').split('.').pop() || '';
+  return name.charAt(0).toLowerCase() + name.slice(1);
+};
+
+const getFieldErrors = (payload: unknown): FieldErrors => {
+  if (!payload || typeof payload !== 'object') return {};
+  const { errors } = payload as ErrorPayload;
+  const source: Record<string, unknown> = errors && typeof errors === 'object' ? errors : (payload as Record<string, unknown>);
+
+  const fieldErrors: FieldErrors = {};
+  Object.entries(source).forEach(([key, value]) => {
+    const messages = (Array.isArray(value) ? value : [value]).filter((m): m is string => typeof m === 'string');
+    // A bare dictionary also holds ErrorResponse-style keys; only arrays are ModelState entries
+    if (messages.length === 0 || (!errors && !Array.isArray(value))) return;
+    const field = toFieldName(key);
+    fieldErrors[field] = [...(fieldErrors[field] || []), ...messages];
+  });
+  return fieldErrors;
+};
+
+/**
+ * Turn whatever a request threw into the matching ApiError subclass.
+ * The fallback message describes what failed and is used when the server gave no message of its own.
+ */
+export const toApiError = (error: unknown, fallbackMessage: string): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (!axios.isAxiosError(error)) {
+    return new ApiError(fallbackMessage, { cause: error });
+  }
+
+  if (!error.response) {
+    return new NetworkError("Couldn't reach the server. Check your connection and try again.", { cause: error });
+  }
+
+  const { status, data } = error.response;
+  const payload: ErrorPayload = data && typeof data === 'object' ? data : {};
+  const options: ApiErrorOptions = { status, traceId: payload.traceId, cause: error };
+  const serverMessage = payload.message;
+
+  if (status === 400) {
+    const fieldErrors = getFieldErrors(data);
+    const firstFieldMessage = Object.values(fieldErrors)[0]?.[0];
+    return new ValidationError(serverMessage || firstFieldMessage || fallbackMessage, fieldErrors, options);
+  }
+  if (status === 401 || status === 403) {
+    return new UnauthorizedError(serverMessage || 'Your session has ended. Please log in again.', options);
+  }
+  if (status === 404) return new NotFoundError(serverMessage || fallbackMessage, options);
+  if (status === 409) return new ConflictError(serverMessage || fallbackMessage, options);
+  if (status >= 500) return new ServerError(fallbackMessage, options);
+  return new ApiError(serverMessage || fallbackMessage, options);
+};
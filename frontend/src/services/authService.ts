@@ -1,39 +1,42 @@
 import { api } from './api';
-import { LoginRequest, RegisterRequest, AuthResponse } from '../types/auth';
+import { toApiError } from './apiErrors';
+import type { LoginRequest, RegisterRequest, AuthResponse, User } from '../types/auth';
 import { tokenStorage } from '../utils/tokenStorage';
 
+// Persists the session; components go through useAuth so every tab and the api client see the change
+const saveSession = (response: AuthResponse): void => {
+  const user: User = {
+    email: response.email,
+    firstName: response.firstName,
+    lastName: response.lastName,
+  };
+  tokenStorage.setToken(response.token, response.expiresAt);
+  tokenStorage.setUser(user);
+};
+
 export const authService = {
   async register(data: RegisterRequest): Promise<AuthResponse> {
-    const response = await api.post<AuthResponse>('/api/auth/register', data);
-    tokenStorage.setToken(response.data.token);
-    tokenStorage.setUser({
-      email: response.data.email,
-      firstName: response.data.firstName,
-      lastName: response.data.lastName,
-    });
-    return response.data;
+    try {
+      const response = await api.post<AuthResponse>('/api/auth/register', data);
+      saveSession(response.data);
+      return response.data;
+    } catch (error) {
+      throw toApiError(error, 'Registration failed. Please try again.');
+    }
   },
 
+  // A wrong email or password comes back as UnauthorizedError with the server's message
   async login(data: LoginRequest): Promise<AuthResponse> {
-    const response = await api.post<AuthResponse>('/api/auth/login', data);
-    tokenStorage.setToken(response.data.token);
-    tokenStorage.setUser({
-      email: response.data.email,
-      firstName: response.data.firstName,
-      lastName: response.data.lastName,
-    });
-    return response.data;
+    try {
+      const response = await api.post<AuthResponse>('/api/auth/login', data);
+      saveSession(response.data);
+      return response.data;
+    } catch (error) {
+      throw toApiError(error, 'Login failed. Please try again.');
+    }
   },
 
   logout(): void {
     tokenStorage.removeToken();
   },
-
-  isAuthenticated(): boolean {
-    return tokenStorage.isAuthenticated();
-  },
-
-  getCurrentUser(): any {
-    return tokenStorage.getUser();
-  },
-};
\ No newline at end of file
+};
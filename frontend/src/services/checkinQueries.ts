@@ -0,0 +1,186 @@
+import { queryOptions, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { QueryClient, QueryKey } from '@tanstack/react-query';
+import type { CheckinRequest, CheckinResponse } from '../types/checkin';
+import type { ReportKind } from '../utils/report';
+import CheckinService from './checkinService';
+
+/**
+ * Query keys for every CheckinService read. Everything under "list" caches CheckinResponse[],
+ * so mutations can patch all lists at once.
+ */
+export const checkinKeys = {
+  all: ['checkins'] as const,
+  lists: () => [...checkinKeys.all, 'list'] as const,
+  history: (startDate?: string, endDate?: string) =>
+    [...checkinKeys.lists(), 'history', { startDate, endDate }] as const,
+  range: (startDate: string, endDate: string) => [...checkinKeys.lists(), 'range', { startDate, endDate }] as const,
+  byDate: (date: string) => [...checkinKeys.lists(), 'date', date] as const,
+  recent: (days: number) => [...checkinKeys.lists(), 'recent', days] as const,
+  details: () => [...checkinKeys.all, 'detail'] as const,
+  detail: (id: number) => [...checkinKeys.details(), id] as const,
+  today: () => [...checkinKeys.all, 'today'] as const,
+  checkedInToday: () => [...checkinKeys.all, 'checkedInToday'] as const,
+  stats: (days: number) => [...checkinKeys.all, 'stats', days] as const,
+  report: (kind: ReportKind, anchorDate?: string) => [...checkinKeys.all, 'report', kind, anchorDate] as const
+};
+
+// Only the small dashboard queries poll, to pick up check-ins made on another device while the page
+// stays open; the rest refresh on window focus and after mutations
+const BACKGROUND_REFETCH_MS = 5 * 60 * 1000;
+
+export const checkinQueries = {
+  history: (startDate?: string, endDate?: string) => queryOptions({
+    queryKey: checkinKeys.history(startDate, endDate),
+    queryFn: () => CheckinService.getCheckinHistory(startDate, endDate)
+  }),
+
+  range: (startDate: string, endDate: string) => queryOptions({
+    queryKey: checkinKeys.range(startDate, endDate),
+    queryFn: () => CheckinService.getCheckinsByDateRange(startDate, endDate)
+  }),
+
+  byDate: (date: string) => queryOptions({
+    queryKey: checkinKeys.byDate(date),
+    queryFn: () => CheckinService.getCheckinsByDate(date)
+  }),
+
+  recent: (days: number = 7) => queryOptions({
+    queryKey: checkinKeys.recent(days),
+    queryFn: () => CheckinService.getRecentCheckins(days),
+    refetchInterval: BACKGROUND_REFETCH_MS
+  }),
+
+  detail: (id: number) => queryOptions({
+    queryKey: checkinKeys.detail(id),
+    queryFn: () => CheckinService.getCheckinById(id)
+  }),
+
+  today: () => queryOptions({
+    queryKey: checkinKeys.today(),
+    queryFn: () => CheckinService.getTodaysCheckin()
+  }),
+
+  checkedInToday: () => queryOptions({
+    queryKey: checkinKeys.checkedInToday(),
+    queryFn: () => CheckinService.hasCheckedInToday(),
+    refetchInterval: BACKGROUND_REFETCH_MS
+  }),
+
+  stats: (days: number = 30) => queryOptions({
+    queryKey: checkinKeys.stats(days),
+    queryFn: () => CheckinService.getCheckinStats(days)
+  }),
+
+  report: (kind: ReportKind, anchorDate?: string) => queryOptions({
+    queryKey: checkinKeys.report(kind, anchorDate),
+    queryFn: () => kind === 'week'
+      ? CheckinService.getWeeklySummary(anchorDate)
+      : CheckinService.getMonthlySummary(anchorDate)
+  })
+};
+
+type ListSnapshot = [QueryKey, CheckinResponse[] | undefined][];
+
+interface OptimisticContext {
+  lists: ListSnapshot;
+  detail?: CheckinResponse;
+}
+
+// Apply a change to every cached list, returning what they held so it can be rolled back
+const patchLists = async (
+  queryClient: QueryClient,
+  update: (checkins: CheckinResponse[]) => CheckinResponse[]
+): Promise<ListSnapshot> => {
+  await queryClient.cancelQueries({ queryKey: checkinKeys.lists() });
+  const snapshot = queryClient.getQueriesData<CheckinResponse[]>({ queryKey: checkinKeys.lists() });
+  queryClient.setQueriesData<CheckinResponse[]>({ queryKey: checkinKeys.lists() }, old => old && update(old));
+  return snapshot;
+};
+
+const rollback = (queryClient: QueryClient, id: number, context?: OptimisticContext) => {
+  context?.lists.forEach(([key, data]) => queryClient.setQueryData(key, data));
+  if (context?.detail) queryClient.setQueryData(checkinKeys.detail(id), context.detail);
+};
+
+// What the server sends for a field the request left out; an update replaces the whole check-in
+const CLEARED_FIELDS: { [K in Exclude<keyof CheckinRequest, 'date'>]-?: CheckinRequest[K] | null } = {
+  sleepHours: null,
+  sleepQuality: null,
+  sleepNotes: null,
+  energyMorning: null,
+  energyAfternoon: null,
+  energyEvening: null,
+  mood: null,
+  stressLevel: null,
+  exerciseType: null,
+  exerciseDuration: null,
+  exerciseIntensity: null,
+  caffeineMg: null,
+  waterGlasses: null,
+  ateBreakfast: null,
+  screenTimeBeforeBed: null,
+  deepWorkHours: null,
+  productivityRating: null,
+  notes: null,
+  customValues: {},
+  tags: []
+};
+
+// The check-in as the server will store it, so fields cleared in the form disappear straight away
+const applyEdit = (checkin: CheckinResponse, data: CheckinRequest): CheckinResponse =>
+  ({ ...checkin, ...CLEARED_FIELDS, ...data }) as CheckinResponse;
+
+/**
+ * Everything derived from check-ins is stale after a write, so refetch it
+ */
+export const invalidateCheckins = (queryClient: QueryClient) =>
+  queryClient.invalidateQueries({ queryKey: checkinKeys.all });
+
+export const useCreateCheckin = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CheckinRequest) => CheckinService.createCheckin(data),
+    onSuccess: created => {
+      queryClient.setQueryData(checkinKeys.detail(created.id), created);
+    },
+    onSettled: () => invalidateCheckins(queryClient)
+  });
+};
+
+// Shows the edit in every list straight away and undoes it if the server refuses
+export const useUpdateCheckin = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: CheckinRequest }) => CheckinService.updateCheckin(id, data),
+    onMutate: async ({ id, data }): Promise<OptimisticContext> => {
+      const lists = await patchLists(queryClient, checkins =>
+        checkins.map(checkin => (checkin.id === id ? applyEdit(checkin, data) : checkin))
+      );
+      await queryClient.cancelQueries({ queryKey: checkinKeys.detail(id) });
+      const detail = queryClient.getQueryData<CheckinResponse>(checkinKeys.detail(id));
+      if (detail) queryClient.setQueryData(checkinKeys.detail(id), applyEdit(detail, data));
+      return { lists, detail };
+    },
+    onError: (_error, { id }, context) => rollback(queryClient, id, context),
+    onSuccess: updated => {
+      queryClient.setQueryData(checkinKeys.detail(updated.id), updated);
+    },
+    onSettled: () => invalidateCheckins(queryClient)
+  });
+};
+
+// Removes the check-in from every list straight away and restores it if the server refuses
+export const useDeleteCheckin = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => CheckinService.deleteCheckin(id),
+    onMutate: async (id): Promise<OptimisticContext> => ({
+      lists: await patchLists(queryClient, checkins => checkins.filter(checkin => checkin.id !== id))
+    }),
+    onError: (_error, id, context) => rollback(queryClient, id, context),
+    onSuccess: (_result, id) => {
+      queryClient.removeQueries({ queryKey: checkinKeys.detail(id) });
+    },
+    onSettled: () => invalidateCheckins(queryClient)
+  });
+};
@@ -1,5 +1,30 @@
-import type { CheckinRequest, CheckinResponse } from '../types/checkin';
+import type { CheckinRequest, CheckinResponse, DailyCheckin } from '../types/checkin';
 import { api } from './api';
+import { NotFoundError, toApiError } from './apiErrors';
+import CustomMetricService from './customMetricService';
+import { toCsv, toJsonBundle } from '../utils/checkinExport';
+import type { ExportField, ExportFormat } from '../utils/checkinExport';
+import { computeCheckinStats, fromDayNumber, getAverageEnergy, toDayNumber } from '../utils/statistics';
+import type { CheckinStats } from '../utils/statistics';
+import { formatMetricValue, NUMERIC_METRICS, validateMetricValue } from '../utils/metricRegistry';
+import { customMetricStorage } from '../utils/customMetricStorage';
+import { formatCustomValue, validateCustomValues, validateTags } from '../utils/customMetrics';
+import { goalStorage } from '../utils/goalStorage';
+import { rollupDay } from '../utils/dailyRollup';
+import { buildReport, getReportPeriods, REPORT_BASELINE_DAYS } from '../utils/report';
+import type { CheckinReport, ReportKind } from '../utils/report';
+
+// Fields shown together under Sleep, Energy, Stress and Exercise in formatCheckinForDisplay
+const GROUPED_DISPLAY_FIELDS: string[] = [
+  'sleepHours',
+  'sleepQuality',
+  'energyMorning',
+  'energyAfternoon',
+  'energyEvening',
+  'stressLevel',
+  'exerciseDuration',
+  'exerciseIntensity'
+];
 
 export class CheckinService {
   private static readonly BASE_URL = '/api/checkin';
@@ -13,7 +38,7 @@ export class CheckinService {
       return response.data;
     } catch (error) {
       console.error('Failed to create check-in:', error);
-      throw new Error('Failed to create check-in');
+      throw toApiError(error, 'Failed to create check-in');
     }
   }
 
@@ -24,23 +49,24 @@ export class CheckinService {
     try {
       const response = await api.get<CheckinResponse[]>(`${this.BASE_URL}/date/${date}`);
       return response.data;
-    } catch (error: any) {
-      if (error.response?.status === 404) {
+    } catch (error) {
+      const apiError = toApiError(error, 'Failed to get check-ins');
+      if (apiError instanceof NotFoundError) {
         return []; // No check-ins found for this date
       }
       console.error(`Failed to get check-ins for date ${date}:`, error);
-      throw new Error('Failed to get check-ins');
+      throw apiError;
     }
   }
 
   /**
-   * Get the most recent check-in for today
+   * Get all of today's check-ins merged into one day record
    */
-  static async getTodaysCheckin(): Promise<CheckinResponse | null> {
+  static async getTodaysCheckin(): Promise<DailyCheckin | null> {
     try {
       const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
       const checkins = await this.getCheckinsByDate(today);
-      return checkins.length > 0 ? checkins[0] : null; // Return most recent (first in array)
+      return checkins.length > 0 ? rollupDay(checkins) : null;
     } catch (error) {
       console.error('Failed to get today\'s check-in:', error);
       return null;
@@ -54,25 +80,26 @@ export class CheckinService {
     try {
       const response = await api.get<CheckinResponse>(`${this.BASE_URL}/date/${date}/latest`);
       return response.data;
-    } catch (error: any) {
-      if (error.response?.status === 404) {
+    } catch (error) {
+      const apiError = toApiError(error, 'Failed to get latest check-in');
+      if (apiError instanceof NotFoundError) {
         return null; // No check-in found for this date
       }
       console.error(`Failed to get latest check-in for date ${date}:`, error);
-      throw new Error('Failed to get latest check-in');
+      throw apiError;
     }
   }
 
   /**
-   * Get recent check-ins (last N entries)
+   * Get check-ins from the last N days (1-90), every entry of each day included
    */
-  static async getRecentCheckins(limit: number = 7): Promise<CheckinResponse[]> {
+  static async getRecentCheckins(days: number = 7): Promise<CheckinResponse[]> {
     try {
-      const response = await api.get<CheckinResponse[]>(`${this.BASE_URL}/recent?limit=${limit}`);
+      const response = await api.get<CheckinResponse[]>(`${this.BASE_URL}/recent?days=${days}`);
       return response.data;
     } catch (error) {
       console.error('Failed to get recent check-ins:', error);
-      throw new Error('Failed to get recent check-ins');
+      throw toApiError(error, 'Failed to get recent check-ins');
     }
   }
 
@@ -90,7 +117,82 @@ export class CheckinService {
       return response.data;
     } catch (error) {
       console.error('Failed to get check-ins by date range:', error);
-      throw new Error('Failed to get check-ins');
+      throw toApiError(error, 'Failed to get check-ins');
+    }
+  }
+
+  /**
+   * Get the user's earliest check-in, or null when they have none
+   */
+  static async getFirstCheckin(): Promise<CheckinResponse | null> {
+    try {
+      const response = await api.get<CheckinResponse>(`${this.BASE_URL}/first`);
+      return response.data;
+    } catch (error) {
+      const apiError = toApiError(error, 'Failed to get first check-in');
+      if (apiError instanceof NotFoundError) {
+        return null; // No check-ins yet
+      }
+      console.error('Failed to get first check-in:', error);
+      throw apiError;
+    }
+  }
+
+  /**
+   * Get every check-in between two dates, paging through the range endpoint one year at a time.
+   * Without a start date, pages back to the user's first check-in.
+   */
+  static async getCheckinHistory(startDate?: string, endDate?: string): Promise<CheckinResponse[]> {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const PAGE_DAYS = 365;
+    const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+    const firstDate = startDate || (await this.getFirstCheckin())?.date.split('T')[0];
+    if (!firstDate) return [];
+
+    const end = new Date(`${endDate || toDateString(new Date())}T00:00:00Z`);
+    const start = new Date(`${firstDate}T00:00:00Z`);
+    const checkins: CheckinResponse[] = [];
+
+    let pageEnd = end;
+    while (pageEnd >= start) {
+      let pageStart = new Date(pageEnd.getTime() - (PAGE_DAYS - 1) * DAY_MS);
+      if (pageStart < start) pageStart = start;
+
+      const page = await this.getCheckinsByDateRange(toDateString(pageStart), toDateString(pageEnd));
+      checkins.push(...page);
+
+      pageEnd = new Date(pageStart.getTime() - DAY_MS);
+    }
+
+    return checkins;
+  }
+
+  /**
+   * Export check-in history as CSV or a versioned JSON bundle
+   */
+  static async exportCheckins(
+    format: ExportFormat,
+    fields: ExportField[],
+    startDate?: string,
+    endDate?: string
+  ): Promise<string> {
+    try {
+      const resolvedEndDate = endDate || new Date().toISOString().split('T')[0];
+      const checkins = await this.getCheckinHistory(startDate, resolvedEndDate);
+      const customMetrics = await CustomMetricService.getMetrics();
+
+      return format === 'csv'
+        ? toCsv(checkins, fields, customMetrics)
+        : toJsonBundle(
+            checkins,
+            fields,
+            { startDate: startDate || null, endDate: resolvedEndDate },
+            customMetrics
+          );
+    } catch (error) {
+      console.error('Failed to export check-ins:', error);
+      throw toApiError(error, 'Failed to export check-ins');
     }
   }
 
@@ -103,7 +205,7 @@ export class CheckinService {
       return response.data;
     } catch (error) {
       console.error(`Failed to get check-in with ID ${id}:`, error);
-      throw new Error('Check-in not found');
+      throw toApiError(error, 'Check-in not found');
     }
   }
 
@@ -116,7 +218,7 @@ export class CheckinService {
       return response.data;
     } catch (error) {
       console.error(`Failed to update check-in with ID ${id}:`, error);
-      throw new Error('Failed to update check-in');
+      throw toApiError(error, 'Failed to update check-in');
     }
   }
 
@@ -128,26 +230,24 @@ export class CheckinService {
       await api.delete(`${this.BASE_URL}/${id}`);
     } catch (error) {
       console.error(`Failed to delete check-in with ID ${id}:`, error);
-      throw new Error('Failed to delete check-in');
+      throw toApiError(error, 'Failed to delete check-in');
     }
   }
 
   /**
-   * Get check-in statistics for analytics
+   * Get check-in statistics for analytics, computed client-side over the last N days
    */
-  static async getCheckinStats(days: number = 30): Promise<{
-    totalCheckins: number;
-    averageMood: number;
-    averageEnergy: number;
-    averageSleep: number;
-    streakDays: number;
-  }> {
+  static async getCheckinStats(days: number = 30): Promise<CheckinStats> {
     try {
-      const response = await api.get(`${this.BASE_URL}/stats?days=${days}`);
-      return response.data;
+      const endDate = new Date().toISOString().split('T')[0];
+      const startDate = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000)
+        .toISOString().split('T')[0];
+
+      const checkins = await this.getCheckinsByDateRange(startDate, endDate);
+      return computeCheckinStats(checkins);
     } catch (error) {
       console.error('Failed to get check-in statistics:', error);
-      throw new Error('Failed to get statistics');
+      throw toApiError(error, 'Failed to get statistics');
     }
   }
 
@@ -165,37 +265,42 @@ export class CheckinService {
   }
 
   /**
-   * Get weekly summary of check-ins
+   * Weekly report for the Monday-Sunday week containing the anchor date (defaults to this week)
    */
-  static async getWeeklySummary(): Promise<CheckinResponse[]> {
+  static async getWeeklySummary(anchorDate?: string): Promise<CheckinReport> {
     try {
-      const endDate = new Date().toISOString().split('T')[0];
-      const startDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-        .toISOString().split('T')[0];
-      
-      return await this.getCheckinsByDateRange(startDate, endDate);
+      return await this.getReport('week', anchorDate);
     } catch (error) {
       console.error('Failed to get weekly summary:', error);
-      throw new Error('Failed to get weekly summary');
+      throw toApiError(error, 'Failed to get weekly summary');
     }
   }
 
   /**
-   * Get monthly summary of check-ins
+   * Monthly report for the calendar month containing the anchor date (defaults to this month)
    */
-  static async getMonthlySummary(): Promise<CheckinResponse[]> {
+  static async getMonthlySummary(anchorDate?: string): Promise<CheckinReport> {
     try {
-      const endDate = new Date().toISOString().split('T')[0];
-      const startDate = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
-        .toISOString().split('T')[0];
-      
-      return await this.getCheckinsByDateRange(startDate, endDate);
+      return await this.getReport('month', anchorDate);
     } catch (error) {
       console.error('Failed to get monthly summary:', error);
-      throw new Error('Failed to get monthly summary');
+      throw toApiError(error, 'Failed to get monthly summary');
     }
   }
 
+  /**
+   * Fetch a report period, the one before it and enough baseline to spot unusual days
+   */
+  private static async getReport(kind: ReportKind, anchorDate?: string): Promise<CheckinReport> {
+    const anchor = anchorDate || new Date().toISOString().split('T')[0];
+    const { period, previousPeriod } = getReportPeriods(kind, anchor);
+    const baselineStart = fromDayNumber(toDayNumber(period.startDate) - REPORT_BASELINE_DAYS);
+    const startDate = [previousPeriod.startDate, baselineStart].sort()[0];
+
+    const checkins = await this.getCheckinHistory(startDate, period.endDate);
+    return buildReport(kind, anchor, checkins, goalStorage.getGoals());
+  }
+
   /**
    * Validate check-in data before submission with context awareness
    */
@@ -213,63 +318,16 @@ export class CheckinService {
     // For editing, we don't require future time periods to be filled
     // For new entries, we only validate time periods that have already occurred
 
-    // Sleep validation (always valid since it's about last night)
-    if (data.sleepHours !== undefined && (data.sleepHours < 0 || data.sleepHours > 24)) {
-      errors.push('Sleep hours must be between 0 and 24');
-    }
-
-    if (data.sleepQuality !== undefined && (data.sleepQuality < 1 || data.sleepQuality > 10)) {
-      errors.push('Sleep quality must be between 1 and 10');
-    }
-
-    // Energy validation - only validate time periods that have occurred or are set
-    if (data.energyMorning !== undefined && (data.energyMorning < 1 || data.energyMorning > 10)) {
-      errors.push('Morning energy level must be between 1 and 10');
-    }
-
-    // Only validate afternoon energy if it's afternoon/evening OR if user provided a value
-    if (data.energyAfternoon !== undefined && (data.energyAfternoon < 1 || data.energyAfternoon > 10)) {
-      errors.push('Afternoon energy level must be between 1 and 10');
-    }
-
-    // Only validate evening energy if it's evening OR if user provided a value  
-    if (data.energyEvening !== undefined && (data.energyEvening < 1 || data.energyEvening > 10)) {
-      errors.push('Evening energy level must be between 1 and 10');
-    }
-
-    // Stress validation
-    if (data.stressLevel !== undefined && (data.stressLevel < 1 || data.stressLevel > 10)) {
-      errors.push('Stress level must be between 1 and 10');
-    }
+    // Ranges come from the metric registry, values that were not entered are skipped
+    NUMERIC_METRICS.forEach(({ key }) => {
+      const value = data[key];
+      if (value === undefined || value === null) return;
+      const message = validateMetricValue(key, value);
+      if (message) errors.push(message);
+    });
 
-    // Exercise validation - only validate if values are provided
-    if (data.exerciseDuration !== undefined && data.exerciseDuration < 0) {
-      errors.push('Exercise duration cannot be negative');
-    }
-
-    if (data.exerciseIntensity !== undefined && (data.exerciseIntensity < 1 || data.exerciseIntensity > 10)) {
-      errors.push('Exercise intensity must be between 1 and 10');
-    }
-
-    // Water validation
-    if (data.waterGlasses !== undefined && data.waterGlasses < 0) {
-      errors.push('Water glasses cannot be negative');
-    }
-
-    // Productivity validation - only validate if value is provided
-    if (data.productivityRating !== undefined && (data.productivityRating < 1 || data.productivityRating > 10)) {
-      errors.push('Productivity rating must be between 1 and 10');
-    }
-
-    // Deep work validation
-    if (data.deepWorkHours !== undefined && (data.deepWorkHours < 0 || data.deepWorkHours > 24)) {
-      errors.push('Deep work hours must be between 0 and 24');
-    }
-
-    // Caffeine validation
-    if (data.caffeineMg !== undefined && data.caffeineMg < 0) {
-      errors.push('Caffeine amount cannot be negative');
-    }
+    errors.push(...validateCustomValues(data.customValues, customMetricStorage.getMetrics()));
+    errors.push(...validateTags(data.tags));
 
     return errors;
   }
@@ -284,24 +342,23 @@ export class CheckinService {
   } {
     const date = new Date(checkin.createdAt).toLocaleDateString();
     
-    // Calculate average energy if multiple readings
-    const avgEnergy = [checkin.energyMorning, checkin.energyAfternoon, checkin.energyEvening]
-      .filter((energy): energy is number => energy !== undefined)
-      .reduce((sum, energy, _, arr) => sum + energy / arr.length, 0);
-    
-    const summary = `Energy: ${avgEnergy ? Math.round(avgEnergy) : 'N/A'}/10 • Mood: ${checkin.mood || 'N/A'} • Sleep: ${checkin.sleepHours || 'N/A'}h`;
+    const avgEnergy = getAverageEnergy(checkin);
+    const summary = `Energy: ${avgEnergy != null ? formatMetricValue('avgEnergy', avgEnergy) : 'N/A'} • Mood: ${checkin.mood || 'N/A'} • Sleep: ${checkin.sleepHours != null ? formatMetricValue('sleepHours', checkin.sleepHours) : 'N/A'}`;
     
     const details: Record<string, string> = {};
+    // The API sends unlogged fields as null, so check both null and undefined
+    const format = (key: typeof NUMERIC_METRICS[number]['key']) =>
+      checkin[key] != null ? formatMetricValue(key, checkin[key]) : undefined;
 
-    if (checkin.sleepHours) {
-      details['Sleep'] = `${checkin.sleepHours} hours${checkin.sleepQuality ? ` (Quality: ${checkin.sleepQuality}/10)` : ''}`;
+    if (checkin.sleepHours != null) {
+      details['Sleep'] = `${format('sleepHours')}${checkin.sleepQuality != null ? ` (Quality: ${format('sleepQuality')})` : ''}`;
     }
 
-    if (checkin.energyMorning || checkin.energyAfternoon || checkin.energyEvening) {
+    if (checkin.energyMorning != null || checkin.energyAfternoon != null || checkin.energyEvening != null) {
       const energyParts = [];
-      if (checkin.energyMorning) energyParts.push(`Morning: ${checkin.energyMorning}`);
-      if (checkin.energyAfternoon) energyParts.push(`Afternoon: ${checkin.energyAfternoon}`);
-      if (checkin.energyEvening) energyParts.push(`Evening: ${checkin.energyEvening}`);
+      if (checkin.energyMorning != null) energyParts.push(`Morning: ${checkin.energyMorning}`);
+      if (checkin.energyAfternoon != null) energyParts.push(`Afternoon: ${checkin.energyAfternoon}`);
+      if (checkin.energyEvening != null) energyParts.push(`Evening: ${checkin.energyEvening}`);
       details['Energy'] = energyParts.join(' • ');
     }
 
@@ -309,32 +366,33 @@ export class CheckinService {
       details['Mood'] = checkin.mood;
     }
 
-    if (checkin.stressLevel) {
-      details['Stress'] = `${checkin.stressLevel}/10`;
+    if (checkin.stressLevel != null) {
+      details['Stress'] = format('stressLevel')!;
     }
 
-    if (checkin.exerciseType || checkin.exerciseDuration) {
+    if (checkin.exerciseType || checkin.exerciseDuration != null) {
       const exerciseParts = [];
       if (checkin.exerciseType) exerciseParts.push(checkin.exerciseType);
-      if (checkin.exerciseDuration) exerciseParts.push(`${checkin.exerciseDuration} min`);
-      if (checkin.exerciseIntensity) exerciseParts.push(`intensity ${checkin.exerciseIntensity}/10`);
+      if (checkin.exerciseDuration != null) exerciseParts.push(format('exerciseDuration'));
+      if (checkin.exerciseIntensity != null) exerciseParts.push(`intensity ${format('exerciseIntensity')}`);
       details['Exercise'] = exerciseParts.join(', ') || 'None';
     }
 
-    if (checkin.waterGlasses) {
-      details['Water'] = `${checkin.waterGlasses} glasses`;
-    }
-
-    if (checkin.caffeineMg) {
-      details['Caffeine'] = `${checkin.caffeineMg}mg`;
-    }
+    // Every other metric, labelled and formatted by the registry
+    NUMERIC_METRICS
+      .filter(({ key }) => !GROUPED_DISPLAY_FIELDS.includes(key))
+      .forEach(({ key, label }) => {
+        const value = format(key);
+        if (value !== undefined) details[label] = value;
+      });
 
-    if (checkin.deepWorkHours) {
-      details['Deep Work'] = `${checkin.deepWorkHours} hours`;
-    }
+    customMetricStorage.getMetrics().forEach(metric => {
+      const value = checkin.customValues?.[metric.id];
+      if (value != null) details[metric.name] = formatCustomValue(metric, value);
+    });
 
-    if (checkin.productivityRating) {
-      details['Productivity'] = `${checkin.productivityRating}/10`;
+    if (checkin.tags && checkin.tags.length > 0) {
+      details['Tags'] = checkin.tags.join(', ');
     }
 
     if (checkin.notes) {
@@ -0,0 +1,51 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { QueryClient } from '@tanstack/react-query';
+import type { CustomMetric, CustomMetricInput } from '../types/customMetric';
+import { customMetricStorage } from '../utils/customMetricStorage';
+import CustomMetricService from './customMetricService';
+
+export const customMetricKeys = {
+  all: ['customMetrics'] as const
+};
+
+export const customMetricQueries = {
+  list: () => queryOptions({
+    queryKey: customMetricKeys.all,
+    queryFn: () => CustomMetricService.getMetrics(),
+    // Start from this device's copy, marked stale so the server's is fetched straight away
+    initialData: () => customMetricStorage.getMetrics(),
+    initialDataUpdatedAt: 0
+  })
+};
+
+/**
+ * The user's custom metric definitions, as stored on the server
+ */
+export const useCustomMetrics = (): CustomMetric[] => useQuery(customMetricQueries.list()).data;
+
+const invalidateCustomMetrics = (queryClient: QueryClient) =>
+  queryClient.invalidateQueries({ queryKey: customMetricKeys.all });
+
+export const useCreateCustomMetric = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: CustomMetricInput) => CustomMetricService.createMetric(input),
+    onSettled: () => invalidateCustomMetrics(queryClient)
+  });
+};
+
+export const useUpdateCustomMetric = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: CustomMetricInput }) => CustomMetricService.updateMetric(id, input),
+    onSettled: () => invalidateCustomMetrics(queryClient)
+  });
+};
+
+export const useDeleteCustomMetric = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => CustomMetricService.deleteMetric(id),
+    onSettled: () => invalidateCustomMetrics(queryClient)
+  });
+};
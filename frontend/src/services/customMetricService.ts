@@ -0,0 +1,70 @@
+import type { CustomMetric, CustomMetricInput } from '../types/customMetric';
+import { api } from './api';
+import { toApiError } from './apiErrors';
+import { customMetricStorage } from '../utils/customMetricStorage';
+
+export class CustomMetricService {
+  private static readonly BASE_URL = '/api/custommetric';
+
+  /**
+   * Get the user's custom metrics, first uploading any that were only kept on this device
+   */
+  static async getMetrics(): Promise<CustomMetric[]> {
+    try {
+      const metrics = (await api.get<CustomMetric[]>(this.BASE_URL)).data;
+
+      // Uploaded with their ids so values already saved on check-ins still match
+      const known = new Set(metrics.map(metric => metric.id));
+      for (const { id, name, type, unit, min, max, options } of customMetricStorage.getLegacyMetrics()) {
+        if (!known.has(id)) metrics.push(await this.createMetric({ name, type, unit, min, max, options }, id));
+      }
+      customMetricStorage.clearLegacyMetrics();
+
+      customMetricStorage.setMetrics(metrics);
+      return metrics;
+    } catch (error) {
+      console.error('Failed to get custom metrics:', error);
+      throw toApiError(error, 'Failed to get custom metrics');
+    }
+  }
+
+  /**
+   * Create a custom metric, with the given id or one picked by the server
+   */
+  static async createMetric(input: CustomMetricInput, id?: string): Promise<CustomMetric> {
+    try {
+      const response = await api.post<CustomMetric>(this.BASE_URL, { ...input, id });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to create custom metric:', error);
+      throw toApiError(error, 'Failed to create custom metric');
+    }
+  }
+
+  /**
+   * Update a custom metric; its id, and so the values saved on check-ins, stay the same
+   */
+  static async updateMetric(id: string, input: CustomMetricInput): Promise<CustomMetric> {
+    try {
+      const response = await api.put<CustomMetric>(`${this.BASE_URL}/${encodeURIComponent(id)}`, input);
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to update custom metric ${id}:`, error);
+      throw toApiError(error, 'Failed to update custom metric');
+    }
+  }
+
+  /**
+   * Delete a custom metric; values already saved on check-ins are kept, they just stop being shown
+   */
+  static async deleteMetric(id: string): Promise<void> {
+    try {
+      await api.delete(`${this.BASE_URL}/${encodeURIComponent(id)}`);
+    } catch (error) {
+      console.error(`Failed to delete custom metric ${id}:`, error);
+      throw toApiError(error, 'Failed to delete custom metric');
+    }
+  }
+}
+
+export default CustomMetricService;
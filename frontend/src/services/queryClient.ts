@@ -0,0 +1,22 @@
+import { QueryClient } from '@tanstack/react-query';
+
+declare global {
+  interface Window {
+    __TANSTACK_QUERY_CLIENT__?: QueryClient;
+  }
+}
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 60 * 1000, // Pages opened within a minute share what's cached instead of refetching
+      refetchOnWindowFocus: true,
+      retry: 1
+    }
+  }
+});
+
+// Lets the TanStack Query devtools browser extension inspect the cache during development
+if (import.meta.env.DEV) {
+  window.__TANSTACK_QUERY_CLIENT__ = queryClient;
+}
@@ -0,0 +1,289 @@
+import axios from 'axios';
+import type { CheckinRequest, CheckinResponse } from '../types/checkin';
+import type { SyncOrigin, SyncQueueItem } from '../types/sync';
+import { offlineStore, SYNC_QUEUE_STORE } from '../utils/offlineStore';
+import { tokenStorage } from '../utils/tokenStorage';
+import CheckinService from './checkinService';
+import { NetworkError } from './apiErrors';
+
+type SyncListener = (items: SyncQueueItem[]) => void;
+type SyncedListener = () => void;
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'object' && value !== null && Object.keys(value).length === 0);
+
+const normalizeText = (text: string): string => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Whether a queued value and what the server stored are the same entry. The server normalises
+// (trims and lowercases tags, drops empty fields, reorders jsonb keys), so compare loosely.
+const isEquivalent = (queued: unknown, stored: unknown): boolean => {
+  if (isBlank(queued) || isBlank(stored)) return isBlank(queued) && isBlank(stored);
+  if (typeof queued === 'number' && typeof stored === 'number') return Math.abs(queued - stored) < 1e-6;
+  if (typeof queued === 'string' && typeof stored === 'string') return normalizeText(queued) === normalizeText(stored);
+  if (Array.isArray(queued) && Array.isArray(stored)) {
+    const toSet = (values: unknown[]) => new Set(values.map(value => (typeof value === 'string' ? normalizeText(value) : value)));
+    const queuedSet = toSet(queued);
+    const storedSet = toSet(stored);
+    return queuedSet.size === storedSet.size && [...queuedSet].every(value => storedSet.has(value));
+  }
+  if (typeof queued === 'object' && typeof stored === 'object') {
+    const queuedRecord = queued as Record<string, unknown>;
+    const storedRecord = stored as Record<string, unknown>;
+    const keys = new Set([...Object.keys(queuedRecord), ...Object.keys(storedRecord)]);
+    return [...keys].every(key => isEquivalent(queuedRecord[key], storedRecord[key]));
+  }
+  return queued === stored;
+};
+
+export class SyncService {
+  private static listeners = new Set<SyncListener>();
+  private static syncedListeners = new Set<SyncedListener>();
+  private static processing: Promise<void> | null = null;
+  private static started = false;
+
+  /**
+   * Replay the queue now and whenever the browser comes back online
+   */
+  static start(): void {
+    if (this.started) return;
+    this.started = true;
+    window.addEventListener('online', () => {
+      this.processQueue();
+    });
+    this.processQueue();
+  }
+
+  /**
+   * True when a failed request never reached the server
+   */
+  static isNetworkError(error: unknown): boolean {
+    if (!navigator.onLine || error instanceof NetworkError) return true;
+    const cause = error instanceof Error && error.cause !== undefined ? error.cause : error;
+    return axios.isAxiosError(cause) && !cause.response;
+  }
+
+  /**
+   * Persist a new check-in to be created once back online
+   */
+  static async enqueueCreate(payload: CheckinRequest, origin: SyncOrigin = 'offline'): Promise<SyncQueueItem> {
+    return this.enqueue({ operation: 'create', payload, origin });
+  }
+
+  /**
+   * Persist an edit to be replayed once back online
+   */
+  static async enqueueUpdate(
+    checkinId: number,
+    payload: CheckinRequest,
+    baseUpdatedAt?: string
+  ): Promise<SyncQueueItem> {
+    return this.enqueue({ operation: 'update', payload, checkinId, baseUpdatedAt });
+  }
+
+  /**
+   * Queued items of the current user, in replay order
+   */
+  static async getQueue(): Promise<SyncQueueItem[]> {
+    const userEmail = tokenStorage.getUser()?.email;
+    if (!userEmail) return [];
+
+    try {
+      const items = await offlineStore.getAll<SyncQueueItem>(SYNC_QUEUE_STORE);
+      return items
+        .filter(item => item.userEmail === userEmail)
+        .sort((a, b) => (a.localId || 0) - (b.localId || 0));
+    } catch (error) {
+      console.error('Failed to read sync queue:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Subscribe to queue changes, returns the unsubscribe function
+   */
+  static subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to replays that reached the server, returns the unsubscribe function
+   */
+  static onSynced(listener: SyncedListener): () => void {
+    this.syncedListeners.add(listener);
+    return () => {
+      this.syncedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replay pending items in order, stopping at the first network failure
+   */
+  static processQueue(): Promise<void> {
+    if (!this.processing) {
+      this.processing = this.replayPending().finally(() => {
+        this.processing = null;
+      });
+    }
+    return this.processing;
+  }
+
+  /**
+   * Move a failed item back to pending and replay
+   */
+  static async retry(localId: number): Promise<void> {
+    const item = await offlineStore.get<SyncQueueItem>(SYNC_QUEUE_STORE, localId);
+    if (!item) return;
+    await this.save({ ...item, status: 'pending', error: undefined });
+    await this.processQueue();
+  }
+
+  /**
+   * Drop an item without sending it
+   */
+  static async discard(localId: number): Promise<void> {
+    await offlineStore.delete(SYNC_QUEUE_STORE, localId);
+    await this.notify();
+  }
+
+  /**
+   * Settle a conflicting update by keeping either the local edit or the server copy
+   */
+  static async resolveConflict(localId: number, keep: 'local' | 'server'): Promise<void> {
+    const item = await offlineStore.get<SyncQueueItem>(SYNC_QUEUE_STORE, localId);
+    if (!item || item.status !== 'conflict') return;
+
+    if (keep === 'server') {
+      await this.discard(localId);
+      return;
+    }
+
+    // Rebase the local edit on the server copy so it is sent as-is
+    await this.save({
+      ...item,
+      status: 'pending',
+      baseUpdatedAt: item.serverVersion?.updatedAt,
+      serverVersion: undefined,
+      error: undefined
+    });
+    await this.processQueue();
+  }
+
+  private static async enqueue(
+    item: Pick<SyncQueueItem, 'operation' | 'payload' | 'checkinId' | 'baseUpdatedAt' | 'origin'>
+  ): Promise<SyncQueueItem> {
+    const userEmail = tokenStorage.getUser()?.email;
+    if (!userEmail) {
+      throw new Error('Cannot queue check-ins without a signed-in user');
+    }
+
+    const queued: SyncQueueItem = {
+      ...item,
+      userEmail,
+      status: 'pending',
+      attempts: 0,
+      queuedAt: new Date().toISOString()
+    };
+    const localId = await offlineStore.put(SYNC_QUEUE_STORE, queued);
+    await this.notify();
+    return { ...queued, localId: localId as number };
+  }
+
+  private static async replayPending(): Promise<void> {
+    if (!navigator.onLine || !tokenStorage.isAuthenticated()) return;
+
+    const items = await this.getQueue();
+    let synced = 0;
+    try {
+      for (const item of items) {
+        if (item.status !== 'pending' && item.status !== 'syncing') continue;
+
+        // Count the attempt before sending so a reload mid-request still triggers reconciliation
+        const attempt: SyncQueueItem = { ...item, status: 'syncing', attempts: item.attempts + 1 };
+        try {
+          await this.save(attempt);
+          if (await this.replayItem(attempt)) synced++;
+        } catch (error) {
+          if (this.isNetworkError(error)) {
+            await this.save({ ...attempt, status: 'pending' });
+            return;
+          }
+          console.error('Failed to sync queued check-in:', error);
+          await this.save({
+            ...attempt,
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Sync failed'
+          });
+        }
+      }
+    } finally {
+      if (synced > 0) this.syncedListeners.forEach(listener => listener());
+    }
+  }
+
+  /**
+   * Send one queued change, true when the server now has it
+   */
+  private static async replayItem(item: SyncQueueItem): Promise<boolean> {
+    if (item.operation === 'create') {
+      // A previous attempt, or the submit that queued it, may have reached the server before the connection dropped
+      const mayExist = item.attempts > 1 || item.origin === 'failedSubmit';
+      const existing = mayExist ? await this.findServerCopy(item) : null;
+      if (!existing) {
+        await CheckinService.createCheckin(item.payload);
+      }
+      await offlineStore.delete(SYNC_QUEUE_STORE, item.localId!);
+      await this.notify();
+      return true;
+    }
+
+    const checkinId = item.checkinId!;
+    const serverVersion = await CheckinService.getCheckinById(checkinId);
+    if (item.baseUpdatedAt && serverVersion.updatedAt !== item.baseUpdatedAt) {
+      await this.save({
+        ...item,
+        status: 'conflict',
+        serverVersion,
+        error: 'This check-in was changed on another device'
+      });
+      return false;
+    }
+
+    await CheckinService.updateCheckin(checkinId, item.payload);
+    await offlineStore.delete(SYNC_QUEUE_STORE, item.localId!);
+    await this.notify();
+    return true;
+  }
+
+  /**
+   * Look for a server check-in created from this queue item: same day and equivalent values.
+   * Timestamps are not compared, the server and device clocks need not agree.
+   */
+  private static async findServerCopy(item: SyncQueueItem): Promise<CheckinResponse | null> {
+    const candidates = await CheckinService.getCheckinsByDate(item.payload.date);
+    return candidates.find(candidate =>
+      Object.entries(item.payload)
+        .filter(([key]) => key !== 'date') // Already matched by the lookup, the server adds a time part
+        .every(([key, value]) => isEquivalent(value, candidate[key as keyof CheckinRequest]))
+    ) || null;
+  }
+
+  private static async save(item: SyncQueueItem): Promise<void> {
+    await offlineStore.put(SYNC_QUEUE_STORE, item);
+    await this.notify();
+  }
+
+  private static async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    const items = await this.getQueue();
+    this.listeners.forEach(listener => listener(items));
+  }
+}
+
+export default SyncService;
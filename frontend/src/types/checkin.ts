@@ -1,3 +1,5 @@
+import type { CustomMetricValue } from './customMetric';
+
 export interface CheckinRequest {
   date: string; // ISO format "YYYY-MM-DD"
   sleepHours?: number; // 0-24, decimal allowed
@@ -18,6 +20,8 @@ export interface CheckinRequest {
   deepWorkHours?: number; // 0-24, decimal
   productivityRating?: number; // 1-10
   notes?: string; // max 1000 chars
+  customValues?: Record<string, CustomMetricValue>; // keyed by CustomMetric id
+  tags?: string[]; // lowercase, max 20
 }
 
 export interface CheckinResponse extends CheckinRequest {
@@ -27,6 +31,11 @@ export interface CheckinResponse extends CheckinRequest {
   updatedAt: string; // ISO timestamp
 }
 
+// All check-ins of one date merged into a single record, see utils/dailyRollup
+export interface DailyCheckin extends CheckinResponse {
+  entries: CheckinResponse[]; // The day's check-ins, oldest first; id and userId come from the latest
+}
+
 // Predefined options for UI
 export const MOOD_OPTIONS = [
   { value: 'excellent', label: 'Excellent 🌟', color: 'text-teal-500' },
@@ -53,6 +62,11 @@ export const EXERCISE_TYPES = [
   'Other'
 ] as const;
 
+// Numeric fields, described for display and validation in utils/metricRegistry
+export type NumericCheckinField = {
+  [K in keyof CheckinRequest]-?: NonNullable<CheckinRequest[K]> extends number ? K : never;
+}[keyof CheckinRequest];
+
 // Helper functions for rating displays
 export const getRatingEmoji = (rating: number): string => {
   if (rating <= 2) return '😴';
@@ -78,37 +92,13 @@ export const getStressEmoji = (stress: number): string => {
   return '🤯';
 };
 
-// Validation helpers (can be used with react-hook-form)
+// Validation helpers (can be used with react-hook-form); numeric ranges come from utils/metricRegistry
 export const VALIDATION_RULES = {
   date: { required: 'Date is required' },
-  sleepHours: { 
-    min: { value: 0, message: 'Sleep hours must be positive' },
-    max: { value: 24, message: 'Sleep hours cannot exceed 24' }
-  },
-  rating: {
-    min: { value: 1, message: 'Rating must be at least 1' },
-    max: { value: 10, message: 'Rating cannot exceed 10' }
-  },
   sleepNotes: {
     maxLength: { value: 500, message: 'Sleep notes cannot exceed 500 characters' }
   },
   notes: {
     maxLength: { value: 1000, message: 'Notes cannot exceed 1000 characters' }
-  },
-  exerciseDuration: {
-    min: { value: 0, message: 'Exercise duration must be positive' }
-  },
-  caffeine: {
-    min: { value: 0, message: 'Caffeine amount must be positive' }
-  },
-  water: {
-    min: { value: 0, message: 'Water glasses must be positive' }
-  },
-  deepWorkHours: {
-    min: { value: 0, message: 'Deep work hours must be positive' },
-    max: { value: 24, message: 'Deep work hours cannot exceed 24' }
-  },
-  screenTime: {
-    min: { value: 0, message: 'Screen time must be positive' }
   }
 } as const;
\ No newline at end of file
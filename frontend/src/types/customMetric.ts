@@ -0,0 +1,30 @@
+export type CustomMetricType = 'number' | 'scale' | 'boolean' | 'select';
+
+export type CustomMetricValue = number | boolean | string;
+
+export interface CustomMetric {
+  id: string;
+  name: string; // e.g. "Meditation", "Headache"
+  type: CustomMetricType;
+  unit?: string; // number only, e.g. "min"
+  min?: number; // number only
+  max?: number; // number only
+  options?: string[]; // select only
+  createdAt: string; // ISO timestamp
+}
+
+export type CustomMetricInput = Omit<CustomMetric, 'id' | 'createdAt'>;
+
+export const CUSTOM_METRIC_TYPES = [
+  { value: 'number', label: 'Number' },
+  { value: 'scale', label: '1-10 scale' },
+  { value: 'boolean', label: 'Yes / no' },
+  { value: 'select', label: 'Choice' },
+] as const;
+
+export const SCALE_RANGE = { min: 1, max: 10 } as const;
+
+export const TAG_RULES = {
+  maxTags: { value: 20, message: 'A check-in cannot have more than 20 tags' },
+  maxLength: { value: 30, message: 'Tags cannot exceed 30 characters' }
+} as const;
@@ -0,0 +1,19 @@
+import type { StatMetric } from '../utils/statistics';
+import type { Period } from '../utils/periodComparison';
+
+export type ExperimentWindow = 'baseline' | 'intervention';
+
+export type ExpectedDirection = 'increase' | 'decrease';
+
+export interface Experiment {
+  id: string;
+  name: string; // e.g. "No caffeine after 2pm"
+  hypothesis: string;
+  metric: StatMetric;
+  expectedDirection: ExpectedDirection;
+  baseline: Period;
+  intervention: Period;
+  createdAt: string; // ISO timestamp
+}
+
+export type ExperimentInput = Omit<Experiment, 'id' | 'createdAt'>;
@@ -0,0 +1,19 @@
+import type { StatMetric } from '../utils/statistics';
+
+export type GoalComparison = 'atLeast' | 'atMost';
+
+export interface Goal {
+  id: string;
+  metric: StatMetric;
+  comparison: GoalComparison;
+  target: number;
+  daysPerWeek: number; // 1-7, how many days a week the target should be hit
+  createdAt: string; // ISO timestamp
+}
+
+export type GoalInput = Omit<Goal, 'id' | 'createdAt'>;
+
+export const GOAL_COMPARISONS = [
+  { value: 'atLeast', label: 'at least', symbol: '≥' },
+  { value: 'atMost', label: 'at most', symbol: '≤' },
+] as const;
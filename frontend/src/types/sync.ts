@@ -0,0 +1,23 @@
+import type { CheckinRequest, CheckinResponse } from './checkin';
+
+export type SyncOperation = 'create' | 'update';
+
+export type SyncStatus = 'pending' | 'syncing' | 'failed' | 'conflict';
+
+// 'failedSubmit' when an online request failed mid-flight, so the server may already have it
+export type SyncOrigin = 'offline' | 'failedSubmit';
+
+export interface SyncQueueItem {
+  localId?: number; // Assigned by IndexedDB, also defines replay order
+  userEmail: string; // Queue is shared by the browser, items belong to one user
+  operation: SyncOperation;
+  origin?: SyncOrigin; // Missing on items queued before it was tracked
+  payload: CheckinRequest;
+  checkinId?: number; // Server id for updates
+  baseUpdatedAt?: string; // Server updatedAt the edit started from, used for conflict detection
+  serverVersion?: CheckinResponse; // Server copy when a conflict was detected
+  status: SyncStatus;
+  error?: string;
+  attempts: number;
+  queuedAt: string; // ISO timestamp
+}
@@ -0,0 +1,28 @@
+import type { StatMetric } from '../utils/statistics';
+
+export type WidgetType = 'stat' | 'sparkline' | 'goalRings' | 'streak' | 'calendar' | 'unusualDays' | 'latestNotes';
+
+export type WidgetSize = 'small' | 'medium' | 'large' | 'full'; // 1, 2, 3 or 4 columns on wide screens
+
+export interface DashboardWidget {
+  id: string;
+  type: WidgetType;
+  size: WidgetSize;
+  metric?: StatMetric; // Only for stat and sparkline widgets
+}
+
+export interface WidgetDefinition {
+  type: WidgetType;
+  label: string;
+  icon: string;
+  description: string;
+  sizes: WidgetSize[]; // Allowed sizes, the first is the default
+  hasMetric: boolean;
+}
+
+export const WIDGET_SIZES = [
+  { value: 'small', label: 'Small' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'large', label: 'Large' },
+  { value: 'full', label: 'Full width' },
+] as const;
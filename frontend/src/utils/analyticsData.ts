@@ -0,0 +1,42 @@
+import type { CheckinResponse, DailyCheckin } from '../types/checkin';
+import { getAverageEnergy, getMoodScore } from './statistics';
+import { rollupCheckins } from './dailyRollup';
+
+export interface AnalyticsData {
+  date: string;
+  sleepHours: number;
+  sleepQuality: number;
+  avgEnergy: number;
+  mood: string;
+  moodScore: number;
+  stressLevel: number;
+  exerciseDuration: number;
+  productivityRating: number;
+  waterGlasses: number;
+  caffeine: number;
+  checkin: DailyCheckin; // The day's merged check-ins, keeps fields that were not recorded as undefined
+}
+
+/**
+ * Shape check-ins (newest first, as returned by the API) into chronological chart rows, one per day
+ */
+export const processCheckinData = (checkins: CheckinResponse[]): AnalyticsData[] => {
+  return rollupCheckins(checkins).map(checkin => {
+    const avgEnergy = getAverageEnergy(checkin) || 0;
+
+    return {
+      date: new Date(checkin.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      sleepHours: checkin.sleepHours || 0,
+      sleepQuality: checkin.sleepQuality || 0,
+      avgEnergy: Math.round(avgEnergy * 10) / 10,
+      mood: checkin.mood || 'okay',
+      moodScore: getMoodScore(checkin.mood) || 3,
+      stressLevel: checkin.stressLevel || 0,
+      exerciseDuration: checkin.exerciseDuration || 0,
+      productivityRating: checkin.productivityRating || 0,
+      waterGlasses: checkin.waterGlasses || 0,
+      caffeine: checkin.caffeineMg || 0,
+      checkin
+    };
+  }).reverse(); // Reverse to show chronological order
+};
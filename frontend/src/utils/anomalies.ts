@@ -0,0 +1,106 @@
+import type { CheckinResponse } from '../types/checkin';
+import { getDailyMetricValues, getMetricValue, median, toDayNumber } from './statistics';
+import type { StatMetric } from './statistics';
+
+export interface Anomaly {
+  key: string; // "date:metric", used to store explanations
+  date: string; // "YYYY-MM-DD"
+  metric: StatMetric;
+  value: number; // Daily average
+  baselineMedian: number;
+  score: number | null; // Robust z-score, null when the baseline never varied
+  direction: 'high' | 'low';
+  checkinIds: number[]; // Check-ins on that day that recorded the metric
+}
+
+export interface AnomalyOptions {
+  windowDays: number; // Days before the value that form its baseline
+  minHistory: number; // Baseline days needed before a value can be flagged
+  threshold: number; // Robust z-score above which a value is unusual
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = {
+  windowDays: 28,
+  minHistory: 7,
+  threshold: 3.5
+};
+
+// Metrics worth flagging, with the smallest change from the median that can count as unusual
+export const ANOMALY_METRICS: { metric: StatMetric; minDeviation: number }[] = [
+  { metric: 'sleepHours', minDeviation: 1.5 },
+  { metric: 'sleepQuality', minDeviation: 2 },
+  { metric: 'avgEnergy', minDeviation: 2 },
+  { metric: 'moodScore', minDeviation: 2 },
+  { metric: 'stressLevel', minDeviation: 2 },
+  { metric: 'productivityRating', minDeviation: 2 },
+  { metric: 'caffeineMg', minDeviation: 100 },
+  { metric: 'waterGlasses', minDeviation: 3 },
+  { metric: 'screenTimeBeforeBed', minDeviation: 60 },
+  { metric: 'deepWorkHours', minDeviation: 2 }
+];
+
+export const getAnomalyKey = (date: string, metric: StatMetric): string => `${date}:${metric}`;
+
+/**
+ * Robust z-score of a value against a baseline: (x - median) / (1.4826 * MAD).
+ * Falls back to the mean absolute deviation when more than half the baseline is identical.
+ */
+export const robustZScore = (value: number, baseline: number[]): number | null => {
+  const center = median(baseline)!;
+  const deviations = baseline.map(x => Math.abs(x - center));
+  const mad = median(deviations)!;
+  if (mad > 0) return (value - center) / (1.4826 * mad);
+
+  const meanDeviation = deviations.reduce((sum, d) => sum + d, 0) / deviations.length;
+  if (meanDeviation > 0) return (value - center) / (1.2533 * meanDeviation);
+  return null;
+};
+
+/**
+ * Flag days whose value is far from the rolling median of the days before it
+ */
+export const detectAnomalies = (
+  checkins: CheckinResponse[],
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS,
+  metrics: { metric: StatMetric; minDeviation: number }[] = ANOMALY_METRICS
+): Anomaly[] => {
+  const anomalies: Anomaly[] = [];
+
+  metrics.forEach(({ metric, minDeviation }) => {
+    const days = [...getDailyMetricValues(checkins, metric).entries()]
+      .map(([date, value]) => ({ date, day: toDayNumber(date), value }))
+      .sort((a, b) => a.day - b.day);
+
+    days.forEach((current, index) => {
+      const baseline = days
+        .slice(0, index)
+        .filter(previous => previous.day >= current.day - options.windowDays)
+        .map(previous => previous.value);
+      if (baseline.length < options.minHistory) return;
+
+      const center = median(baseline)!;
+      if (Math.abs(current.value - center) < minDeviation) return;
+
+      // A baseline that never varied makes any sizeable change unusual
+      const score = robustZScore(current.value, baseline);
+      if (score !== null && Math.abs(score) < options.threshold) return;
+
+      anomalies.push({
+        key: getAnomalyKey(current.date, metric),
+        date: current.date,
+        metric,
+        value: current.value,
+        baselineMedian: center,
+        score,
+        direction: current.value > center ? 'high' : 'low',
+        checkinIds: checkins
+          .filter(checkin =>
+            checkin.date.split('T')[0] === current.date && getMetricValue(checkin, metric) !== undefined
+          )
+          .map(checkin => checkin.id)
+      });
+    });
+  });
+
+  return anomalies.sort((a, b) => b.date.localeCompare(a.date));
+};
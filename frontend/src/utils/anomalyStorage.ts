@@ -0,0 +1,28 @@
+import { userStorage } from './userStorage';
+
+export interface AnomalyExplanation {
+  note: string;
+  explainedAt: string; // ISO timestamp
+}
+
+const EXPLANATIONS_KEY = 'anomalyExplanations';
+
+// Keyed by Anomaly.key ("date:metric")
+export const anomalyStorage = {
+  getExplanations: (): Record<string, AnomalyExplanation> => {
+    return userStorage.get<Record<string, AnomalyExplanation>>(EXPLANATIONS_KEY, {});
+  },
+
+  explain: (key: string, note: string): void => {
+    userStorage.set(EXPLANATIONS_KEY, {
+      ...anomalyStorage.getExplanations(),
+      [key]: { note, explainedAt: new Date().toISOString() }
+    });
+  },
+
+  removeExplanation: (key: string): void => {
+    const explanations = anomalyStorage.getExplanations();
+    delete explanations[key];
+    userStorage.set(EXPLANATIONS_KEY, explanations);
+  },
+};
@@ -0,0 +1,138 @@
+import type { CheckinResponse } from '../types/checkin';
+import type { CustomMetric } from '../types/customMetric';
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportField = Exclude<keyof CheckinResponse, 'userId'>;
+
+export interface CheckinExportBundle {
+  format: 'momentum-checkins';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  range: { startDate: string | null; endDate: string };
+  fields: ExportField[];
+  count: number;
+  customMetrics: CustomMetric[]; // Definitions for the ids used in customValues
+  checkins: Partial<CheckinResponse>[];
+}
+
+// Bump when the bundle layout changes so downstream notebooks can branch on it
+export const EXPORT_BUNDLE_VERSION = 2;
+
+// Separates tags within their single CSV column
+export const TAG_SEPARATOR = ';';
+
+// One column per CheckinRequest field plus record metadata, in the order they appear in the form
+export const EXPORT_FIELDS: { key: ExportField; label: string }[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'date', label: 'Date' },
+  { key: 'sleepHours', label: 'Sleep Hours' },
+  { key: 'sleepQuality', label: 'Sleep Quality' },
+  { key: 'sleepNotes', label: 'Sleep Notes' },
+  { key: 'energyMorning', label: 'Morning Energy' },
+  { key: 'energyAfternoon', label: 'Afternoon Energy' },
+  { key: 'energyEvening', label: 'Evening Energy' },
+  { key: 'mood', label: 'Mood' },
+  { key: 'stressLevel', label: 'Stress Level' },
+  { key: 'exerciseType', label: 'Exercise Type' },
+  { key: 'exerciseDuration', label: 'Exercise Duration' },
+  { key: 'exerciseIntensity', label: 'Exercise Intensity' },
+  { key: 'caffeineMg', label: 'Caffeine (mg)' },
+  { key: 'waterGlasses', label: 'Water Glasses' },
+  { key: 'ateBreakfast', label: 'Ate Breakfast' },
+  { key: 'screenTimeBeforeBed', label: 'Screen Time Before Bed' },
+  { key: 'deepWorkHours', label: 'Deep Work Hours' },
+  { key: 'productivityRating', label: 'Productivity' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'customValues', label: 'Custom Metrics' },
+  { key: 'createdAt', label: 'Created At' },
+  { key: 'updatedAt', label: 'Updated At' },
+];
+
+const escapeCsvValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+
+  // Keep spreadsheets from evaluating free text as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** CSV header for a custom metric's column, e.g. "custom:Meditation" */
+export const getCustomColumnHeader = (metric: CustomMetric): string => `custom:${metric.name}`;
+
+/**
+ * Serialize check-ins to CSV, using field keys as the header row; custom values get a column per metric
+ */
+export const toCsv = (
+  checkins: CheckinResponse[],
+  fields: ExportField[],
+  customMetrics: CustomMetric[] = []
+): string => {
+  const columns = fields.flatMap(field =>
+    field === 'customValues'
+      ? customMetrics.map(metric => ({
+          header: getCustomColumnHeader(metric),
+          getValue: (checkin: CheckinResponse) => checkin.customValues?.[metric.id]
+        }))
+      : [{
+          header: field,
+          getValue: (checkin: CheckinResponse) =>
+            field === 'tags' ? checkin.tags?.join(TAG_SEPARATOR) : checkin[field]
+        }]
+  );
+
+  const header = columns.map(column => escapeCsvValue(column.header)).join(',');
+  const rows = checkins.map(checkin =>
+    columns.map(column => escapeCsvValue(column.getValue(checkin))).join(',')
+  );
+  return [header, ...rows].join('\r\n');
+};
+
+/**
+ * Serialize check-ins to a versioned JSON bundle
+ */
+export const toJsonBundle = (
+  checkins: CheckinResponse[],
+  fields: ExportField[],
+  range: { startDate: string | null; endDate: string },
+  customMetrics: CustomMetric[] = []
+): string => {
+  const bundle: CheckinExportBundle = {
+    format: 'momentum-checkins',
+    version: EXPORT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    range,
+    fields,
+    count: checkins.length,
+    customMetrics: fields.includes('customValues') ? customMetrics : [],
+    checkins: checkins.map(checkin => {
+      const picked: Partial<Record<ExportField, unknown>> = {};
+      fields.forEach(field => {
+        if (checkin[field] !== undefined && checkin[field] !== null) {
+          picked[field] = checkin[field];
+        }
+      });
+      return picked as Partial<CheckinResponse>;
+    })
+  };
+  return JSON.stringify(bundle, null, 2);
+};
+
+/**
+ * Trigger a browser download for generated content
+ */
+export const downloadFile = (content: string, filename: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,134 @@
+import type { CheckinRequest, CheckinResponse, NumericCheckinField } from '../types/checkin';
+import { getMetricValue } from './statistics';
+import type { StatMetric } from './statistics';
+import { getCustomMetricId, getCustomMetricValue, isCustomMetricKey, toCustomNumber } from './customMetrics';
+import type { CustomMetricKey } from './customMetrics';
+
+export type HistorySortKey = 'date' | 'mood' | StatMetric;
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface RangeFilter {
+  field: NumericCheckinField | CustomMetricKey;
+  min?: number;
+  max?: number;
+  equals?: string; // Custom choice metrics match one option instead of a range
+}
+
+export interface CheckinFilters {
+  startDate?: string; // "YYYY-MM-DD", inclusive
+  endDate?: string; // "YYYY-MM-DD", inclusive
+  mood?: string;
+  exerciseType?: string;
+  search?: string; // Matched against notes and sleepNotes
+  tags: string[]; // Check-ins must carry every one of these
+  ranges: RangeFilter[];
+}
+
+export interface Page<T> {
+  items: T[];
+  page: number; // 1-based, clamped to the available pages
+  totalPages: number;
+  totalItems: number;
+}
+
+export const EMPTY_FILTERS: CheckinFilters = { tags: [], ranges: [] };
+
+export const countActiveFilters = (filters: CheckinFilters): number =>
+  [filters.startDate, filters.endDate, filters.mood, filters.exerciseType, filters.search?.trim()]
+    .filter(Boolean).length + filters.tags.length + filters.ranges.length;
+
+const isInRange = (value: number | undefined, range: RangeFilter): boolean => {
+  if (value === undefined || value === null) return false;
+  if (range.min !== undefined && value < range.min) return false;
+  if (range.max !== undefined && value > range.max) return false;
+  return true;
+};
+
+const matchesRange = (checkin: CheckinResponse, range: RangeFilter): boolean => {
+  if (isCustomMetricKey(range.field)) {
+    const raw = getCustomMetricValue(checkin, getCustomMetricId(range.field));
+    if (range.equals !== undefined) return raw === range.equals;
+    return isInRange(toCustomNumber(raw), range);
+  }
+  return isInRange(checkin[range.field], range);
+};
+
+/**
+ * Check-ins matching every active filter; text search is case-insensitive
+ */
+export const filterCheckins = (
+  checkins: CheckinResponse[],
+  filters: CheckinFilters
+): CheckinResponse[] => {
+  const search = filters.search?.trim().toLowerCase();
+
+  return checkins.filter(checkin => {
+    const date = checkin.date.split('T')[0];
+    if (filters.startDate && date < filters.startDate) return false;
+    if (filters.endDate && date > filters.endDate) return false;
+    if (filters.mood && checkin.mood?.toLowerCase() !== filters.mood.toLowerCase()) return false;
+    if (filters.exerciseType && checkin.exerciseType?.toLowerCase() !== filters.exerciseType.toLowerCase()) {
+      return false;
+    }
+
+    if (search) {
+      const text = `${checkin.notes || ''}\n${checkin.sleepNotes || ''}`.toLowerCase();
+      if (!text.includes(search)) return false;
+    }
+
+    if (!filters.tags.every(tag => checkin.tags?.includes(tag))) return false;
+
+    // A range filter excludes check-ins that did not record the field
+    return filters.ranges.every(range => matchesRange(checkin, range));
+  });
+};
+
+/**
+ * Sort check-ins by a column; missing values always go last
+ */
+export const sortCheckins = (
+  checkins: CheckinResponse[],
+  key: HistorySortKey,
+  direction: SortDirection
+): CheckinResponse[] => {
+  const factor = direction === 'asc' ? 1 : -1;
+
+  return [...checkins].sort((a, b) => {
+    if (key === 'date') {
+      return factor * (a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+    }
+    if (key === 'mood') {
+      if (!a.mood || !b.mood) return a.mood ? -1 : b.mood ? 1 : 0;
+      return factor * a.mood.localeCompare(b.mood);
+    }
+
+    const aValue = getMetricValue(a, key);
+    const bValue = getMetricValue(b, key);
+    if (aValue === undefined || bValue === undefined) {
+      return aValue !== undefined ? -1 : bValue !== undefined ? 1 : 0;
+    }
+    return factor * (aValue - bValue);
+  });
+};
+
+export const paginate = <T>(items: T[], page: number, pageSize: number): Page<T> => {
+  const totalPages = Math.max(Math.ceil(items.length / pageSize), 1);
+  const current = Math.min(Math.max(page, 1), totalPages);
+  return {
+    items: items.slice((current - 1) * pageSize, current * pageSize),
+    page: current,
+    totalPages,
+    totalItems: items.length
+  };
+};
+
+/**
+ * Copy of a check-in as a new request for another date, without server-owned fields
+ */
+export const duplicateCheckin = (checkin: CheckinResponse, date: string): CheckinRequest => {
+  const request: CheckinRequest = { ...checkin, date };
+  const serverFields = ['id', 'userId', 'createdAt', 'updatedAt'] as const;
+  serverFields.forEach(field => delete (request as Partial<CheckinResponse>)[field]);
+  return request;
+};
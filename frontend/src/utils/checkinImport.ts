@@ -0,0 +1,284 @@
+import type { CheckinRequest, CheckinResponse } from '../types/checkin';
+import { MOOD_OPTIONS, VALIDATION_RULES } from '../types/checkin';
+import type { CustomMetric, CustomMetricValue } from '../types/customMetric';
+import CheckinService from '../services/checkinService';
+import { EXPORT_FIELDS, getCustomColumnHeader, TAG_SEPARATOR } from './checkinExport';
+import { NUMERIC_METRICS } from './metricRegistry';
+import { getCustomMetricId, getCustomMetricKey, isCustomMetricKey, normalizeTag } from './customMetrics';
+import type { CustomMetricKey } from './customMetrics';
+
+export type ImportField = Exclude<keyof CheckinRequest, 'customValues'>;
+
+// Column index in the CSV for each mapped field, custom metrics keyed by getCustomMetricKey
+export type ColumnMapping = Partial<Record<ImportField | CustomMetricKey, number>>;
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+  lineNumbers: number[]; // 1-based line in the file where each row starts
+}
+
+export interface ImportRow {
+  rowNumber: number; // 1-based line in the file where the row starts
+  data: CheckinRequest;
+  errors: string[];
+  duplicateOf: CheckinResponse[]; // Existing check-ins on the same date
+}
+
+type TextRule = { maxLength: { value: number; message: string } };
+
+// CheckinRequest fields that can be imported, reusing the export columns so exports round-trip
+export const IMPORT_FIELDS = EXPORT_FIELDS.filter(
+  (field): field is { key: ImportField; label: string } =>
+    field.key !== 'id' && field.key !== 'createdAt' && field.key !== 'updatedAt' && field.key !== 'customValues'
+);
+
+// Custom values are exported as one column per metric, so each metric is mapped on its own
+export const getCustomImportFields = (metrics: CustomMetric[]): { key: CustomMetricKey; label: string }[] =>
+  metrics.map(metric => ({ key: getCustomMetricKey(metric), label: metric.name }));
+
+const NUMERIC_FIELDS: ImportField[] = NUMERIC_METRICS.map(field => field.key);
+
+const TEXT_FIELD_RULES: Partial<Record<ImportField, TextRule>> = {
+  sleepNotes: VALIDATION_RULES.sleepNotes,
+  notes: VALIDATION_RULES.notes,
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+/**
+ * Parse CSV text (RFC 4180 quoting, comma separated, first row is the header)
+ */
+export const parseCsv = (text: string): ParsedCsv => {
+  const records: { cells: string[]; line: number }[] = [];
+  let record: string[] = [];
+  let value = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    // Quoted cells can span lines, so count them wherever they occur
+    if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+        line++;
+      }
+      record.push(value);
+      records.push({ cells: record, line: recordLine });
+      record = [];
+      value = '';
+      recordLine = line;
+    } else {
+      value += char;
+    }
+  }
+  if (value !== '' || record.length > 0) {
+    record.push(value);
+    records.push({ cells: record, line: recordLine });
+  }
+
+  const nonEmpty = records.filter(r => r.cells.some(cell => cell.trim() !== ''));
+  const [headers, ...rows] = nonEmpty;
+  return {
+    headers: (headers?.cells ?? []).map(h => h.trim()),
+    rows: rows.map(r => r.cells),
+    lineNumbers: rows.map(r => r.line)
+  };
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guess the column for each field from the header names (field key or label)
+ */
+export const guessColumnMapping = (headers: string[], customMetrics: CustomMetric[] = []): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+
+  IMPORT_FIELDS.forEach(field => {
+    const candidates = [normalizeHeader(field.key), normalizeHeader(field.label)];
+    const index = normalized.findIndex(header => candidates.includes(header));
+    if (index !== -1) mapping[field.key] = index;
+  });
+
+  customMetrics.forEach(metric => {
+    const candidates = [normalizeHeader(getCustomColumnHeader(metric)), normalizeHeader(metric.name)];
+    const index = normalized.findIndex(header => candidates.includes(header));
+    if (index !== -1) mapping[getCustomMetricKey(metric)] = index;
+  });
+
+  return mapping;
+};
+
+// YYYY-MM-DD for a calendar date, null when the month or day is out of range (Date.UTC would roll it over)
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Normalize common spreadsheet date formats to YYYY-MM-DD, or explain why the value isn't a date
+ */
+export const normalizeDate = (value: string): { date: string } | { error: string } => {
+  const trimmed = value.trim();
+  const invalid = { error: `"${trimmed}" is not a valid date` };
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const date = toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    return date ? { date } : invalid;
+  }
+
+  // M/D/YYYY as exported by most US spreadsheets
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) {
+    const [first, second, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    const date = toIsoDate(year, first, second);
+    if (date) return { date };
+    // Only valid read as D/M/YYYY, so the file likely uses day-first dates throughout
+    if (toIsoDate(year, second, first)) {
+      return { error: `Date "${trimmed}" looks like day/month/year, use month/day/year or YYYY-MM-DD` };
+    }
+    return invalid;
+  }
+
+  const parsed = new Date(trimmed);
+  if (isNaN(parsed.getTime())) return { error: `Unrecognized date "${trimmed}"` };
+  const month = String(parsed.getMonth() + 1).padStart(2, '0');
+  const day = String(parsed.getDate()).padStart(2, '0');
+  return { date: `${parsed.getFullYear()}-${month}-${day}` };
+};
+
+const normalizeMood = (value: string): string => {
+  const lower = value.trim().toLowerCase();
+  const option = MOOD_OPTIONS.find(mood =>
+    mood.value === lower || mood.label.toLowerCase().startsWith(lower)
+  );
+  return option ? option.value : value.trim();
+};
+
+const parseBoolean = (raw: string): boolean | undefined => {
+  const lower = raw.toLowerCase();
+  if (TRUE_VALUES.includes(lower)) return true;
+  if (FALSE_VALUES.includes(lower)) return false;
+  return undefined;
+};
+
+const parseCustomValue = (metric: CustomMetric, raw: string): CustomMetricValue | string => {
+  if (metric.type === 'boolean') {
+    return parseBoolean(raw) ?? `${metric.name} must be yes/no, got "${raw}"`;
+  }
+  if (metric.type === 'select') {
+    return metric.options?.find(option => option.toLowerCase() === raw.toLowerCase()) ?? raw;
+  }
+  const number = Number(raw);
+  return isNaN(number) ? `${metric.name} must be a number, got "${raw}"` : number;
+};
+
+/**
+ * Convert one CSV row into a check-in request, collecting conversion and validation errors
+ */
+export const buildImportRow = (
+  cells: string[],
+  mapping: ColumnMapping,
+  rowNumber: number,
+  customMetrics: CustomMetric[] = []
+): ImportRow => {
+  const errors: string[] = [];
+  const data: Record<string, unknown> = {};
+  const customValues: Record<string, CustomMetricValue> = {};
+
+  (Object.entries(mapping) as [ImportField | CustomMetricKey, number][]).forEach(([field, column]) => {
+    // Drop the quote escapeCsvValue puts before =, +, - and @ so exported text round-trips
+    const raw = (cells[column] ?? '').trim().replace(/^'(?=[=+\-@])/, '');
+    if (raw === '') return;
+
+    if (isCustomMetricKey(field)) {
+      const metric = customMetrics.find(m => m.id === getCustomMetricId(field));
+      if (!metric) return;
+      const value = parseCustomValue(metric, raw);
+      // Ranges and choices are checked by validateCheckinData below
+      if (metric.type !== 'select' && typeof value === 'string') errors.push(value);
+      else customValues[metric.id] = value;
+    } else if (field === 'date') {
+      const result = normalizeDate(raw);
+      if ('date' in result) data.date = result.date;
+      else errors.push(result.error);
+    } else if (field === 'ateBreakfast') {
+      const value = parseBoolean(raw);
+      if (value !== undefined) data.ateBreakfast = value;
+      else errors.push(`Ate Breakfast must be yes/no, got "${raw}"`);
+    } else if (field === 'tags') {
+      data.tags = Array.from(new Set(raw.split(TAG_SEPARATOR).map(normalizeTag).filter(Boolean)));
+    } else if (field === 'mood') {
+      data.mood = normalizeMood(raw);
+    } else if (NUMERIC_FIELDS.includes(field)) {
+      const number = Number(raw);
+      if (isNaN(number)) {
+        errors.push(`${IMPORT_FIELDS.find(f => f.key === field)?.label} must be a number, got "${raw}"`);
+        return;
+      }
+      data[field] = number; // Ranges are checked by validateCheckinData below
+    } else {
+      const rule = TEXT_FIELD_RULES[field];
+      if (rule && raw.length > rule.maxLength.value) errors.push(rule.maxLength.message);
+      data[field] = raw;
+    }
+  });
+
+  if (Object.keys(customValues).length > 0) {
+    data.customValues = customValues;
+  }
+
+  if (!data.date) {
+    errors.push(VALIDATION_RULES.date.required);
+  }
+
+  const checkin = data as unknown as CheckinRequest;
+  CheckinService.validateCheckinData(checkin).forEach(message => {
+    if (!errors.includes(message)) errors.push(message);
+  });
+
+  return { rowNumber, data: checkin, errors, duplicateOf: [] };
+};
+
+/**
+ * Flag rows that fall on dates which already have check-ins on the server
+ */
+export const markDuplicates = (rows: ImportRow[], existing: CheckinResponse[]): ImportRow[] => {
+  const byDate = new Map<string, CheckinResponse[]>();
+  existing.forEach(checkin => {
+    const date = checkin.date.split('T')[0];
+    const list = byDate.get(date) || [];
+    list.push(checkin);
+    byDate.set(date, list);
+  });
+
+  return rows.map(row => ({
+    ...row,
+    duplicateOf: row.data.date ? byDate.get(row.data.date) || [] : []
+  }));
+};
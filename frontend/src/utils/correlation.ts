@@ -0,0 +1,208 @@
+import type { AnalyticsData } from './analyticsData';
+import type { CustomMetric } from '../types/customMetric';
+import { NUMERIC_METRICS } from './metricRegistry';
+import { getMoodScore, mean } from './statistics';
+import { getCustomMetricKey, getCustomMetricNumber, getTagKey, isNumericCustomMetric } from './customMetrics';
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+export interface CorrelationVariable {
+  key: string;
+  label: string;
+  getValue: (row: AnalyticsData) => number | undefined;
+}
+
+export interface CorrelationCell {
+  coefficient: number | null; // null when there are too few paired samples
+  sampleSize: number;
+}
+
+export interface CorrelationMatrix {
+  variables: CorrelationVariable[];
+  cells: CorrelationCell[][];
+}
+
+export interface RegressionLine {
+  slope: number;
+  intercept: number;
+}
+
+export interface PairedPoint {
+  x: number;
+  y: number;
+  date: string;
+}
+
+// Pearson needs at least three paired points to be anything but ±1
+export const MIN_CORRELATION_SAMPLES = 3;
+
+// Every numeric check-in field plus the mood score
+export const CORRELATION_VARIABLES: CorrelationVariable[] = [
+  ...NUMERIC_METRICS.map(field => ({
+    key: field.key,
+    label: field.label,
+    getValue: (row: AnalyticsData) => row.checkin[field.key]
+  })),
+  {
+    key: 'moodScore',
+    label: 'Mood Score',
+    getValue: (row: AnalyticsData) => getMoodScore(row.checkin.mood)
+  }
+];
+
+/**
+ * Built-in variables plus numeric custom metrics and, as 1/0 per check-in, the given tags
+ */
+export const getCorrelationVariables = (
+  customMetrics: CustomMetric[],
+  tags: string[] = []
+): CorrelationVariable[] => [
+  ...CORRELATION_VARIABLES,
+  ...customMetrics.filter(isNumericCustomMetric).map(metric => ({
+    key: getCustomMetricKey(metric),
+    label: metric.name,
+    getValue: (row: AnalyticsData) => getCustomMetricNumber(row.checkin, metric.id)
+  })),
+  ...tags.map(tag => ({
+    key: getTagKey(tag),
+    label: `#${tag}`,
+    getValue: (row: AnalyticsData) => (row.checkin.tags?.includes(tag) ? 1 : 0)
+  }))
+];
+
+/**
+ * Rank values (1-based), giving tied values the average of their ranks
+ */
+export const rankValues = (values: number[]): number[] => {
+  const order = values
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) => a.value - b.value);
+
+  const ranks = new Array<number>(values.length);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = averageRank;
+    i = j + 1;
+  }
+  return ranks;
+};
+
+/**
+ * Pearson correlation coefficient, or null when either series has no variance
+ */
+export const pearson = (xs: number[], ys: number[]): number | null => {
+  if (xs.length !== ys.length || xs.length < MIN_CORRELATION_SAMPLES) return null;
+
+  const meanX = mean(xs)!;
+  const meanY = mean(ys)!;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+
+  for (let i = 0; i < xs.length; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+/**
+ * Spearman rank correlation (Pearson over tie-averaged ranks)
+ */
+export const spearman = (xs: number[], ys: number[]): number | null =>
+  pearson(rankValues(xs), rankValues(ys));
+
+/**
+ * Ordinary least squares fit of y on x
+ */
+export const linearRegression = (xs: number[], ys: number[]): RegressionLine | null => {
+  if (xs.length !== ys.length || xs.length < 2) return null;
+
+  const meanX = mean(xs)!;
+  const meanY = mean(ys)!;
+  let numerator = 0;
+  let denominator = 0;
+
+  for (let i = 0; i < xs.length; i++) {
+    numerator += (xs[i] - meanX) * (ys[i] - meanY);
+    denominator += (xs[i] - meanX) ** 2;
+  }
+
+  if (denominator === 0) return null;
+  const slope = numerator / denominator;
+  return { slope, intercept: meanY - slope * meanX };
+};
+
+/**
+ * Collect the rows where both variables were recorded (pairwise deletion)
+ */
+export const getPairedPoints = (
+  data: AnalyticsData[],
+  x: CorrelationVariable,
+  y: CorrelationVariable
+): PairedPoint[] => {
+  const points: PairedPoint[] = [];
+  data.forEach(row => {
+    const xValue = x.getValue(row);
+    const yValue = y.getValue(row);
+    if (xValue !== undefined && xValue !== null && yValue !== undefined && yValue !== null) {
+      points.push({ x: xValue, y: yValue, date: row.date });
+    }
+  });
+  return points;
+};
+
+export const correlate = (
+  points: PairedPoint[],
+  method: CorrelationMethod
+): number | null => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return method === 'pearson' ? pearson(xs, ys) : spearman(xs, ys);
+};
+
+/**
+ * Build a symmetric correlation matrix over the given variables
+ */
+export const buildCorrelationMatrix = (
+  data: AnalyticsData[],
+  method: CorrelationMethod,
+  variables: CorrelationVariable[] = CORRELATION_VARIABLES
+): CorrelationMatrix => {
+  const cells: CorrelationCell[][] = variables.map(() => []);
+
+  for (let i = 0; i < variables.length; i++) {
+    for (let j = i; j < variables.length; j++) {
+      const points = getPairedPoints(data, variables[i], variables[j]);
+      const cell: CorrelationCell = {
+        coefficient: i === j && points.length > 0 ? 1 : correlate(points, method),
+        sampleSize: points.length
+      };
+      cells[i][j] = cell;
+      cells[j][i] = cell;
+    }
+  }
+
+  return { variables, cells };
+};
+
+/**
+ * Plain-language strength label for a correlation coefficient
+ */
+export const describeCorrelation = (coefficient: number | null): string => {
+  if (coefficient === null) return 'Not enough data';
+  const strength = Math.abs(coefficient);
+  const direction = coefficient > 0 ? 'positive' : 'negative';
+  if (strength >= 0.7) return `Strong ${direction}`;
+  if (strength >= 0.4) return `Moderate ${direction}`;
+  if (strength >= 0.2) return `Weak ${direction}`;
+  return 'No clear relationship';
+};
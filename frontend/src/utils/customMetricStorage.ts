@@ -0,0 +1,25 @@
+import type { CustomMetric } from '../types/customMetric';
+import { userStorage } from './userStorage';
+
+// Definitions kept only on this device before they were stored on the server
+const LEGACY_METRICS_KEY = 'customMetrics';
+const METRIC_CACHE_KEY = 'customMetricCache';
+
+// Last definitions fetched from the server, for code that needs them outside of React Query
+export const customMetricStorage = {
+  getMetrics: (): CustomMetric[] => {
+    return userStorage.get<CustomMetric[]>(METRIC_CACHE_KEY, []);
+  },
+
+  setMetrics: (metrics: CustomMetric[]): void => {
+    userStorage.set(METRIC_CACHE_KEY, metrics);
+  },
+
+  getLegacyMetrics: (): CustomMetric[] => {
+    return userStorage.get<CustomMetric[]>(LEGACY_METRICS_KEY, []);
+  },
+
+  clearLegacyMetrics: (): void => {
+    userStorage.remove(LEGACY_METRICS_KEY);
+  },
+};
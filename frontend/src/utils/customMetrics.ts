@@ -0,0 +1,114 @@
+import type { CheckinResponse } from '../types/checkin';
+import type { CustomMetric, CustomMetricValue } from '../types/customMetric';
+import { SCALE_RANGE, TAG_RULES } from '../types/customMetric';
+import { rollupCheckins } from './dailyRollup';
+
+// Keys for custom metrics and tags wherever they sit next to built-in fields (correlations, filters)
+export type CustomMetricKey = `custom:${string}`;
+export type TagKey = `tag:${string}`;
+
+export const getCustomMetricKey = (metric: CustomMetric): CustomMetricKey => `custom:${metric.id}`;
+
+export const getTagKey = (tag: string): TagKey => `tag:${tag}`;
+
+export const isCustomMetricKey = (key: string): key is CustomMetricKey => key.startsWith('custom:');
+
+export const getCustomMetricId = (key: CustomMetricKey): string => key.slice('custom:'.length);
+
+/** Choice metrics have no numeric value, every other type can be charted and correlated */
+export const isNumericCustomMetric = (metric: CustomMetric): boolean => metric.type !== 'select';
+
+/**
+ * Lowercase a tag and collapse its whitespace, the same way the API stores it
+ */
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * A custom value as a number (yes/no as 1/0), or undefined when missing or a choice
+ */
+export const toCustomNumber = (value: CustomMetricValue | undefined): number | undefined => {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return typeof value === 'number' ? value : undefined;
+};
+
+export const getCustomMetricValue = (checkin: CheckinResponse, metricId: string): CustomMetricValue | undefined =>
+  checkin.customValues?.[metricId];
+
+export const getCustomMetricNumber = (checkin: CheckinResponse, metricId: string): number | undefined =>
+  toCustomNumber(getCustomMetricValue(checkin, metricId));
+
+export const formatCustomValue = (metric: CustomMetric, value: CustomMetricValue): string => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (metric.type === 'scale') return `${value}/${SCALE_RANGE.max}`;
+  return metric.unit ? `${value} ${metric.unit}` : String(value);
+};
+
+/**
+ * A numeric custom metric per calendar day from the daily rollup (yes/no as 1/0)
+ */
+export const getDailyCustomValues = (checkins: CheckinResponse[], metric: CustomMetric): Map<string, number> => {
+  const values = new Map<string, number>();
+  rollupCheckins(checkins).forEach(day => {
+    const value = getCustomMetricNumber(day, metric.id);
+    if (value !== undefined) values.set(day.date.split('T')[0], value);
+  });
+  return values;
+};
+
+/**
+ * Every tag used in the check-ins, most frequent first
+ */
+export const getTagCounts = (checkins: CheckinResponse[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  checkins.forEach(checkin => {
+    checkin.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+/**
+ * Error message for a custom value that does not fit its metric, or null when it is valid
+ */
+export const validateCustomValue = (metric: CustomMetric, value: CustomMetricValue): string | null => {
+  switch (metric.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${metric.name} must be a number`;
+      if (metric.min !== undefined && value < metric.min) return `${metric.name} must be at least ${metric.min}`;
+      if (metric.max !== undefined && value > metric.max) return `${metric.name} cannot exceed ${metric.max}`;
+      return null;
+    case 'scale':
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < SCALE_RANGE.min || value > SCALE_RANGE.max) {
+        return `${metric.name} must be between ${SCALE_RANGE.min} and ${SCALE_RANGE.max}`;
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${metric.name} must be yes or no`;
+    case 'select':
+      return typeof value === 'string' && (metric.options || []).includes(value)
+        ? null
+        : `${metric.name} must be one of: ${(metric.options || []).join(', ')}`;
+  }
+};
+
+/**
+ * Validate custom values against their metric definitions; values of deleted metrics are left alone
+ */
+export const validateCustomValues = (
+  values: Record<string, CustomMetricValue> | undefined,
+  metrics: CustomMetric[]
+): string[] => {
+  if (!values) return [];
+  return metrics
+    .filter(metric => values[metric.id] !== undefined)
+    .map(metric => validateCustomValue(metric, values[metric.id]))
+    .filter((message): message is string => message !== null);
+};
+
+export const validateTags = (tags: string[] | undefined): string[] => {
+  if (!tags) return [];
+  const errors: string[] = [];
+  if (tags.length > TAG_RULES.maxTags.value) errors.push(TAG_RULES.maxTags.message);
+  if (tags.some(tag => tag.length > TAG_RULES.maxLength.value)) errors.push(TAG_RULES.maxLength.message);
+  return errors;
+};
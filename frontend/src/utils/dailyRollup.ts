@@ -0,0 +1,97 @@
+import type { CheckinResponse, DailyCheckin } from '../types/checkin';
+import type { MetricAggregation } from './metricRegistry';
+import { NUMERIC_METRICS } from './metricRegistry';
+
+export type MergePolicy = MetricAggregation | 'concat' | 'any' | 'union';
+
+type TextField = 'sleepNotes' | 'mood' | 'exerciseType' | 'ateBreakfast' | 'notes' | 'tags' | 'customValues';
+
+// Numeric fields merge as their registry aggregation says; everything else is listed here
+export const FIELD_MERGE_POLICIES: Record<TextField, MergePolicy> = {
+  sleepNotes: 'concat',
+  mood: 'latest',
+  exerciseType: 'latest',
+  ateBreakfast: 'any',
+  notes: 'concat',
+  tags: 'union',
+  customValues: 'latest' // Per metric, the latest entry that recorded it wins
+};
+
+// Joins notes from several check-ins on the same day
+export const NOTE_SEPARATOR = '\n\n';
+
+const isPresent = <T,>(value: T | null | undefined): value is T =>
+  value !== undefined && value !== null && value !== '';
+
+/**
+ * Group check-ins by their calendar date, so several check-ins on one day count once
+ */
+export const groupByDay = (checkins: CheckinResponse[]): Map<string, CheckinResponse[]> => {
+  const days = new Map<string, CheckinResponse[]>();
+  checkins.forEach(checkin => {
+    const date = checkin.date.split('T')[0];
+    const day = days.get(date) || [];
+    day.push(checkin);
+    days.set(date, day);
+  });
+  return days;
+};
+
+const mergeText = (values: string[], policy: MergePolicy): string | undefined => {
+  if (values.length === 0) return undefined;
+  return policy === 'concat' ? values.map(value => value.trim()).join(NOTE_SEPARATOR) : values[values.length - 1];
+};
+
+/**
+ * Merge the check-ins of one date into a single day record using each field's merge policy
+ */
+export const rollupDay = (entries: CheckinResponse[]): DailyCheckin => {
+  const ordered = [...entries].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const latest = ordered[ordered.length - 1];
+  if (ordered.length === 1) return { ...latest, entries: ordered };
+
+  const day: DailyCheckin = {
+    id: latest.id,
+    userId: latest.userId,
+    date: latest.date,
+    createdAt: ordered[0].createdAt,
+    updatedAt: ordered.map(entry => entry.updatedAt).sort().reverse()[0],
+    entries: ordered
+  };
+
+  NUMERIC_METRICS.forEach(({ key, aggregation }) => {
+    const values = ordered.map(entry => entry[key]).filter(isPresent);
+    if (values.length === 0) return;
+    if (aggregation === 'sum') day[key] = values.reduce((sum, value) => sum + value, 0);
+    else if (aggregation === 'max') day[key] = Math.max(...values);
+    else day[key] = values[values.length - 1];
+  });
+
+  const pick = (field: 'sleepNotes' | 'mood' | 'exerciseType' | 'notes'): string | undefined =>
+    mergeText(ordered.map(entry => entry[field]).filter(isPresent), FIELD_MERGE_POLICIES[field]);
+  day.sleepNotes = pick('sleepNotes');
+  day.mood = pick('mood');
+  day.exerciseType = pick('exerciseType');
+  day.notes = pick('notes');
+
+  const breakfast = ordered.map(entry => entry.ateBreakfast).filter(isPresent);
+  if (breakfast.length > 0) day.ateBreakfast = breakfast.some(Boolean);
+
+  const tags = Array.from(new Set(ordered.flatMap(entry => entry.tags || [])));
+  if (tags.length > 0) day.tags = tags;
+
+  const customValues = ordered.reduce((values, entry) => ({ ...values, ...entry.customValues }), {});
+  if (Object.keys(customValues).length > 0) day.customValues = customValues;
+
+  return day;
+};
+
+/**
+ * One record per date, newest first like the API; day records passed back in are expanded to their entries first
+ */
+export const rollupCheckins = (checkins: CheckinResponse[]): DailyCheckin[] => {
+  const entries = checkins.flatMap(checkin => (checkin as Partial<DailyCheckin>).entries ?? [checkin]);
+  return [...groupByDay(entries).values()]
+    .map(rollupDay)
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
@@ -0,0 +1,117 @@
+import type { DashboardWidget, WidgetDefinition, WidgetSize, WidgetType } from '../types/widget';
+import type { StatMetric } from './statistics';
+
+export const WIDGET_LIBRARY: WidgetDefinition[] = [
+  {
+    type: 'stat',
+    label: 'Stat',
+    icon: '📊',
+    description: "A metric's average over the last week",
+    sizes: ['small', 'medium'],
+    hasMetric: true
+  },
+  {
+    type: 'sparkline',
+    label: 'Sparkline',
+    icon: '📈',
+    description: 'Latest value and smoothed trend of a metric',
+    sizes: ['small', 'medium'],
+    hasMetric: true
+  },
+  {
+    type: 'streak',
+    label: 'Streak',
+    icon: '🔥',
+    description: 'Current and longest check-in streaks',
+    sizes: ['small', 'medium'],
+    hasMetric: false
+  },
+  {
+    type: 'goalRings',
+    label: 'Goal rings',
+    icon: '🎯',
+    description: 'Progress towards this week\'s goals',
+    sizes: ['full', 'large', 'medium'],
+    hasMetric: false
+  },
+  {
+    type: 'calendar',
+    label: 'Consistency calendar',
+    icon: '📅',
+    description: 'A year of check-ins and habits as a heatmap',
+    sizes: ['full', 'large'],
+    hasMetric: false
+  },
+  {
+    type: 'unusualDays',
+    label: 'Unusual days',
+    icon: '🔍',
+    description: 'Recent values far from your usual range',
+    sizes: ['full', 'large', 'medium'],
+    hasMetric: false
+  },
+  {
+    type: 'latestNotes',
+    label: 'Latest notes',
+    icon: '📝',
+    description: 'Notes from your most recent check-ins',
+    sizes: ['medium', 'large', 'full', 'small'],
+    hasMetric: false
+  }
+];
+
+// Column spans for each size; literal class names so Tailwind keeps them
+export const WIDGET_SIZE_CLASSES: Record<WidgetSize, string> = {
+  small: '',
+  medium: 'md:col-span-2',
+  large: 'md:col-span-2 lg:col-span-3',
+  full: 'md:col-span-2 lg:col-span-4'
+};
+
+export const getWidgetDefinition = (type: WidgetType): WidgetDefinition =>
+  WIDGET_LIBRARY.find(definition => definition.type === type) || WIDGET_LIBRARY[0];
+
+export const createWidget = (type: WidgetType, metric?: StatMetric): DashboardWidget => {
+  const definition = getWidgetDefinition(type);
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    size: definition.sizes[0],
+    ...(definition.hasMetric ? { metric: metric || 'sleepHours' } : {})
+  };
+};
+
+// Mirrors the dashboard as it was before it became configurable
+export const DEFAULT_LAYOUT: DashboardWidget[] = [
+  { id: 'default-streak', type: 'streak', size: 'small' },
+  { id: 'default-stat-productivity', type: 'stat', size: 'small', metric: 'productivityRating' },
+  { id: 'default-stat-sleep', type: 'stat', size: 'small', metric: 'sleepHours' },
+  { id: 'default-stat-energy', type: 'stat', size: 'small', metric: 'avgEnergy' },
+  { id: 'default-goal-rings', type: 'goalRings', size: 'full' },
+  { id: 'default-unusual-days', type: 'unusualDays', size: 'full' },
+  { id: 'default-calendar', type: 'calendar', size: 'full' },
+  { id: 'default-spark-sleep', type: 'sparkline', size: 'small', metric: 'sleepHours' },
+  { id: 'default-spark-energy', type: 'sparkline', size: 'small', metric: 'avgEnergy' },
+  { id: 'default-spark-productivity', type: 'sparkline', size: 'small', metric: 'productivityRating' },
+  { id: 'default-spark-sleep-quality', type: 'sparkline', size: 'small', metric: 'sleepQuality' }
+];
+
+/**
+ * Move the widget at one index to another, shifting the widgets in between
+ */
+export const moveWidget = (layout: DashboardWidget[], from: number, to: number): DashboardWidget[] => {
+  if (from === to || from < 0 || to < 0 || from >= layout.length || to >= layout.length) return layout;
+  const next = [...layout];
+  const [widget] = next.splice(from, 1);
+  next.splice(to, 0, widget);
+  return next;
+};
+
+export const updateWidget = (
+  layout: DashboardWidget[],
+  id: string,
+  changes: Partial<Omit<DashboardWidget, 'id' | 'type'>>
+): DashboardWidget[] => layout.map(widget => (widget.id === id ? { ...widget, ...changes } : widget));
+
+export const removeWidget = (layout: DashboardWidget[], id: string): DashboardWidget[] =>
+  layout.filter(widget => widget.id !== id);
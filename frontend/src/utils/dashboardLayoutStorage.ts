@@ -0,0 +1,22 @@
+import type { DashboardWidget } from '../types/widget';
+import { DEFAULT_LAYOUT, WIDGET_LIBRARY } from './dashboardLayout';
+import { userStorage } from './userStorage';
+
+const LAYOUT_KEY = 'dashboardLayout';
+
+export const dashboardLayoutStorage = {
+  getLayout: (): DashboardWidget[] => {
+    // Drop widgets whose type no longer exists
+    const layout = userStorage.get<DashboardWidget[]>(LAYOUT_KEY, DEFAULT_LAYOUT);
+    return layout.filter(widget => WIDGET_LIBRARY.some(definition => definition.type === widget.type));
+  },
+
+  saveLayout: (layout: DashboardWidget[]): void => {
+    userStorage.set(LAYOUT_KEY, layout);
+  },
+
+  resetLayout: (): DashboardWidget[] => {
+    userStorage.remove(LAYOUT_KEY);
+    return DEFAULT_LAYOUT;
+  },
+};
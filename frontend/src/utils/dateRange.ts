@@ -0,0 +1,112 @@
+import { fromDayNumber, startOfWeek, toDayNumber } from './statistics';
+
+export type DateRangePreset = '7d' | '30d' | '90d' | 'thisWeek' | 'lastMonth' | 'ytd' | 'all' | 'custom';
+
+export interface DateRange {
+  preset: DateRangePreset;
+  startDate?: string; // Only used by 'custom'
+  endDate?: string; // Only used by 'custom'
+}
+
+export interface ResolvedDateRange {
+  startDate?: string; // Undefined means from the first check-in
+  endDate: string;
+}
+
+export const DEFAULT_DATE_RANGE: DateRange = { preset: '30d' };
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: 'thisWeek', label: 'This week' },
+  { value: 'lastMonth', label: 'Last month' },
+  { value: 'ytd', label: 'Year to date' },
+  { value: 'all', label: 'All time' },
+  { value: 'custom', label: 'Custom range' }
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value: string | null | undefined): value is string =>
+  !!value && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+
+/**
+ * Concrete start and end dates for a range, inclusive on both ends
+ */
+export const resolveDateRange = (
+  range: DateRange,
+  today: string = new Date().toISOString().split('T')[0]
+): ResolvedDateRange => {
+  const todayNumber = toDayNumber(today);
+  const [year, month] = today.split('-').map(Number);
+
+  switch (range.preset) {
+    case '7d':
+      return { startDate: fromDayNumber(todayNumber - 6), endDate: today };
+    case '30d':
+      return { startDate: fromDayNumber(todayNumber - 29), endDate: today };
+    case '90d':
+      return { startDate: fromDayNumber(todayNumber - 89), endDate: today };
+    case 'thisWeek':
+      return { startDate: startOfWeek(today), endDate: today };
+    case 'lastMonth': {
+      const firstOfThisMonth = toDayNumber(`${year}-${String(month).padStart(2, '0')}-01`);
+      const lastOfPreviousMonth = fromDayNumber(firstOfThisMonth - 1);
+      return { startDate: `${lastOfPreviousMonth.slice(0, 7)}-01`, endDate: lastOfPreviousMonth };
+    }
+    case 'ytd':
+      return { startDate: `${year}-01-01`, endDate: today };
+    case 'all':
+      return { endDate: today };
+    case 'custom':
+      return { startDate: range.startDate, endDate: range.endDate || today };
+  }
+};
+
+/**
+ * Read a range from "?range=30d" or "?range=custom&from=2025-01-01&to=2025-03-31", falling back to the default
+ */
+export const parseDateRange = (params: URLSearchParams): DateRange => {
+  const preset = params.get('range') as DateRangePreset | null;
+  if (!preset || !DATE_RANGE_PRESETS.some(p => p.value === preset)) return DEFAULT_DATE_RANGE;
+
+  if (preset === 'custom') {
+    const startDate = params.get('from');
+    const endDate = params.get('to');
+    if (!isValidDate(startDate) || !isValidDate(endDate) || startDate > endDate) return DEFAULT_DATE_RANGE;
+    return { preset, startDate, endDate };
+  }
+
+  return { preset };
+};
+
+/**
+ * Write a range into URL search params, keeping any other params
+ */
+export const toSearchParams = (range: DateRange, params: URLSearchParams = new URLSearchParams()): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  next.set('range', range.preset);
+  if (range.preset === 'custom' && range.startDate && range.endDate) {
+    next.set('from', range.startDate);
+    next.set('to', range.endDate);
+  } else {
+    next.delete('from');
+    next.delete('to');
+  }
+  return next;
+};
+
+/**
+ * e.g. "Last 30 days" or "Mar 1, 2025 – Mar 31, 2025"
+ */
+export const describeDateRange = (range: DateRange): string => {
+  if (range.preset !== 'custom') {
+    return DATE_RANGE_PRESETS.find(p => p.value === range.preset)?.label || range.preset;
+  }
+  const format = (date?: string) =>
+    date
+      ? new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+      : '…';
+  return `${format(range.startDate)} – ${format(range.endDate)}`;
+};
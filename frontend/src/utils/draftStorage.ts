@@ -0,0 +1,39 @@
+import { userStorage } from './userStorage';
+
+export interface FormDraft<T> {
+  data: T;
+  savedAt: string; // ISO timestamp
+}
+
+const DRAFTS_KEY = 'drafts';
+
+// Drafts older than this are ignored rather than restored
+export const DRAFT_MAX_AGE_DAYS = 7;
+
+const isStale = (draft: FormDraft<unknown>): boolean =>
+  Date.now() - new Date(draft.savedAt).getTime() > DRAFT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+
+// Unsaved form input, keyed by form (e.g. "checkin:new" or "checkin:<id>") so it survives a re-login
+export const draftStorage = {
+  getDrafts: (): Record<string, FormDraft<unknown>> => {
+    return userStorage.get<Record<string, FormDraft<unknown>>>(DRAFTS_KEY, {});
+  },
+
+  getDraft: <T>(key: string): FormDraft<T> | null => {
+    const draft = draftStorage.getDrafts()[key];
+    return draft && !isStale(draft) ? (draft as FormDraft<T>) : null;
+  },
+
+  saveDraft: <T>(key: string, data: T): void => {
+    userStorage.set(DRAFTS_KEY, {
+      ...draftStorage.getDrafts(),
+      [key]: { data, savedAt: new Date().toISOString() }
+    });
+  },
+
+  clearDraft: (key: string): void => {
+    const drafts = draftStorage.getDrafts();
+    delete drafts[key];
+    userStorage.set(DRAFTS_KEY, drafts);
+  },
+};
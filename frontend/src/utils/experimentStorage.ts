@@ -0,0 +1,31 @@
+import type { Experiment, ExperimentInput } from '../types/experiment';
+import { userStorage } from './userStorage';
+
+const EXPERIMENTS_KEY = 'experiments';
+
+export const experimentStorage = {
+  getExperiments: (): Experiment[] => {
+    return userStorage.get<Experiment[]>(EXPERIMENTS_KEY, []);
+  },
+
+  getExperiment: (id: string): Experiment | undefined => {
+    return experimentStorage.getExperiments().find(experiment => experiment.id === id);
+  },
+
+  addExperiment: (input: ExperimentInput): Experiment => {
+    const experiment: Experiment = {
+      ...input,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: new Date().toISOString()
+    };
+    userStorage.set(EXPERIMENTS_KEY, [...experimentStorage.getExperiments(), experiment]);
+    return experiment;
+  },
+
+  removeExperiment: (id: string): void => {
+    userStorage.set(
+      EXPERIMENTS_KEY,
+      experimentStorage.getExperiments().filter(experiment => experiment.id !== id)
+    );
+  },
+};
@@ -0,0 +1,195 @@
+import type { CheckinResponse } from '../types/checkin';
+import type { Experiment, ExperimentWindow } from '../types/experiment';
+import type { Period } from './periodComparison';
+import { getDailyMetricValues, mean, percentile } from './statistics';
+import { formatMetricValue, getMetricLabel } from './metricRegistry';
+
+export type ExperimentStatus = 'planned' | 'baseline' | 'between' | 'intervention' | 'completed';
+
+export type ExperimentVerdict = 'supported' | 'contradicted' | 'inconclusive' | 'insufficient';
+
+export interface ExperimentTag {
+  experiment: Experiment;
+  window: ExperimentWindow;
+}
+
+export interface ExperimentResult {
+  baselineMean: number | null;
+  interventionMean: number | null;
+  difference: number | null; // Intervention minus baseline
+  effectSize: number | null; // Cohen's d
+  confidenceInterval: [number, number] | null; // 95% bootstrap interval for the difference
+  baselineDays: number;
+  interventionDays: number;
+  verdict: ExperimentVerdict;
+}
+
+// Fewer days per window than this and the verdict is "insufficient"
+export const MIN_EXPERIMENT_DAYS = 5;
+export const BOOTSTRAP_ITERATIONS = 2000;
+
+const inPeriod = (date: string, period: Period): boolean => {
+  const day = date.split('T')[0];
+  return day >= period.startDate && day <= period.endDate;
+};
+
+/**
+ * Which window of an experiment a date falls in, if any
+ */
+export const getExperimentWindow = (experiment: Experiment, date: string): ExperimentWindow | null => {
+  if (inPeriod(date, experiment.intervention)) return 'intervention';
+  if (inPeriod(date, experiment.baseline)) return 'baseline';
+  return null;
+};
+
+/**
+ * Tag each check-in with the experiment windows its date falls in
+ */
+export const tagCheckins = (
+  experiments: Experiment[],
+  checkins: CheckinResponse[]
+): Map<number, ExperimentTag[]> => {
+  const tags = new Map<number, ExperimentTag[]>();
+  checkins.forEach(checkin => {
+    experiments.forEach(experiment => {
+      const window = getExperimentWindow(experiment, checkin.date);
+      if (!window) return;
+      tags.set(checkin.id, [...(tags.get(checkin.id) || []), { experiment, window }]);
+    });
+  });
+  return tags;
+};
+
+export const getExperimentStatus = (
+  experiment: Experiment,
+  today: string = new Date().toISOString().split('T')[0]
+): ExperimentStatus => {
+  if (today > experiment.intervention.endDate) return 'completed';
+  if (inPeriod(today, experiment.intervention)) return 'intervention';
+  if (inPeriod(today, experiment.baseline)) return 'baseline';
+  return today < experiment.baseline.startDate ? 'planned' : 'between';
+};
+
+// Small seeded generator (mulberry32) so the interval does not jump between renders
+const createRandom = (seed: string): (() => number) => {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * 95% percentile bootstrap interval for mean(b) - mean(a)
+ */
+export const bootstrapMeanDifference = (
+  a: number[],
+  b: number[],
+  iterations: number = BOOTSTRAP_ITERATIONS,
+  random: () => number = Math.random
+): [number, number] | null => {
+  if (a.length === 0 || b.length === 0) return null;
+
+  const resampleMean = (values: number[]) => {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) sum += values[Math.floor(random() * values.length)];
+    return sum / values.length;
+  };
+
+  const differences: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    differences.push(resampleMean(b) - resampleMean(a));
+  }
+  return [percentile(differences, 2.5)!, percentile(differences, 97.5)!];
+};
+
+/**
+ * Cohen's d using the pooled standard deviation
+ */
+export const cohensD = (a: number[], b: number[]): number | null => {
+  if (a.length < 2 || b.length < 2) return null;
+  const meanA = mean(a)!;
+  const meanB = mean(b)!;
+  const varianceA = a.reduce((sum, x) => sum + (x - meanA) ** 2, 0) / (a.length - 1);
+  const varianceB = b.reduce((sum, x) => sum + (x - meanB) ** 2, 0) / (b.length - 1);
+  const pooled = Math.sqrt(((a.length - 1) * varianceA + (b.length - 1) * varianceB) / (a.length + b.length - 2));
+  return pooled === 0 ? null : (meanB - meanA) / pooled;
+};
+
+/**
+ * Compare the target metric between the two windows, one averaged value per day
+ */
+export const analyzeExperiment = (experiment: Experiment, checkins: CheckinResponse[]): ExperimentResult => {
+  const daily = getDailyMetricValues(checkins, experiment.metric);
+  const baseline: number[] = [];
+  const intervention: number[] = [];
+  daily.forEach((value, date) => {
+    const window = getExperimentWindow(experiment, date);
+    if (window === 'baseline') baseline.push(value);
+    if (window === 'intervention') intervention.push(value);
+  });
+
+  const baselineMean = mean(baseline);
+  const interventionMean = mean(intervention);
+  const difference = baselineMean !== null && interventionMean !== null ? interventionMean - baselineMean : null;
+  const confidenceInterval = bootstrapMeanDifference(
+    baseline,
+    intervention,
+    BOOTSTRAP_ITERATIONS,
+    createRandom(`${experiment.id}-${baseline.length}-${intervention.length}`)
+  );
+
+  let verdict: ExperimentVerdict = 'insufficient';
+  if (confidenceInterval && baseline.length >= MIN_EXPERIMENT_DAYS && intervention.length >= MIN_EXPERIMENT_DAYS) {
+    const [low, high] = confidenceInterval;
+    const expectsIncrease = experiment.expectedDirection === 'increase';
+    if (low > 0) verdict = expectsIncrease ? 'supported' : 'contradicted';
+    else if (high < 0) verdict = expectsIncrease ? 'contradicted' : 'supported';
+    else verdict = 'inconclusive';
+  }
+
+  return {
+    baselineMean,
+    interventionMean,
+    difference,
+    effectSize: cohensD(baseline, intervention),
+    confidenceInterval,
+    baselineDays: baseline.length,
+    interventionDays: intervention.length,
+    verdict
+  };
+};
+
+export const describeEffectSize = (d: number | null): string => {
+  if (d === null) return 'n/a';
+  const size = Math.abs(d);
+  if (size >= 0.8) return 'large';
+  if (size >= 0.5) return 'medium';
+  if (size >= 0.2) return 'small';
+  return 'negligible';
+};
+
+/**
+ * Plain-language summary, e.g. "During the intervention, sleep quality was 1.2/10 higher (95% CI …)"
+ */
+export const describeExperimentResult = (experiment: Experiment, result: ExperimentResult): string => {
+  const label = getMetricLabel(experiment.metric).toLowerCase();
+
+  if (result.verdict === 'insufficient') {
+    return `Not enough data yet: each window needs at least ${MIN_EXPERIMENT_DAYS} days with ${label} recorded ` +
+      `(baseline has ${result.baselineDays}, intervention has ${result.interventionDays}).`;
+  }
+
+  const difference = result.difference!;
+  const [low, high] = result.confidenceInterval!;
+  const direction = difference >= 0 ? 'higher' : 'lower';
+  const change = `During the intervention, ${label} was ${formatMetricValue(experiment.metric, Math.abs(difference))} ${direction} ` +
+    `(95% CI ${Math.round(low * 10) / 10} to ${Math.round(high * 10) / 10}).`;
+
+  if (result.verdict === 'supported') return `${change} The data supports your hypothesis.`;
+  if (result.verdict === 'contradicted') return `${change} This is the opposite of what you expected.`;
+  return `${change} The interval includes no change, so the result is inconclusive.`;
+};
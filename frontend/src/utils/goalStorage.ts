@@ -0,0 +1,31 @@
+import type { Goal, GoalInput } from '../types/goal';
+import { userStorage } from './userStorage';
+
+const GOALS_KEY = 'goals';
+
+export const goalStorage = {
+  getGoals: (): Goal[] => {
+    return userStorage.get<Goal[]>(GOALS_KEY, []);
+  },
+
+  addGoal: (input: GoalInput): Goal => {
+    const goal: Goal = {
+      ...input,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: new Date().toISOString()
+    };
+    userStorage.set(GOALS_KEY, [...goalStorage.getGoals(), goal]);
+    return goal;
+  },
+
+  updateGoal: (id: string, input: GoalInput): void => {
+    userStorage.set(
+      GOALS_KEY,
+      goalStorage.getGoals().map(goal => (goal.id === id ? { ...goal, ...input } : goal))
+    );
+  },
+
+  removeGoal: (id: string): void => {
+    userStorage.set(GOALS_KEY, goalStorage.getGoals().filter(goal => goal.id !== id));
+  },
+};
@@ -0,0 +1,127 @@
+import type { CheckinResponse } from '../types/checkin';
+import type { Goal } from '../types/goal';
+import { GOAL_COMPARISONS } from '../types/goal';
+import type { StatMetric } from './statistics';
+import { fromDayNumber, getDailyMetricValues, mean, startOfWeek, toDayNumber } from './statistics';
+import { formatMetricValue, getMetricLabel } from './metricRegistry';
+
+export interface GoalWeek {
+  weekStart: string; // Monday, "YYYY-MM-DD"
+  daysMet: number;
+  daysLogged: number; // Days that recorded the goal's metric
+  hit: boolean;
+}
+
+export interface GoalProgress {
+  goal: Goal;
+  daysMet: number; // This week so far
+  progress: number; // 0-1 towards daysPerWeek
+  history: GoalWeek[]; // Oldest first, the last entry is the current week
+  hitRate: number | null; // Share of completed weeks with data that hit the goal
+}
+
+export interface GoalRecommendation {
+  goal: Goal;
+  average: number;
+  gap: number; // Relative distance from the target, 0-1+
+  message: string;
+}
+
+export const GOAL_HISTORY_WEEKS = 8;
+
+// What to try when a goal is being missed
+const GOAL_TIPS: Partial<Record<StatMetric, string>> = {
+  sleepHours: 'Try a consistent bedtime and wind down earlier to reach your sleep goal',
+  sleepQuality: 'Cut screens and caffeine in the evening to improve sleep quality',
+  avgEnergy: 'Consider adjusting your sleep schedule or exercise routine',
+  energyMorning: 'A regular wake time and morning light can lift morning energy',
+  productivityRating: 'Experiment with different work environments or techniques',
+  deepWorkHours: 'Block out distraction-free time early in the day for deep work',
+  moodScore: 'Practice stress management techniques like meditation',
+  stressLevel: 'Schedule short breaks and practice stress management techniques',
+  caffeineMg: 'Swap an afternoon coffee for water or decaf',
+  screenTimeBeforeBed: 'Put devices away earlier and read before bed instead',
+  waterGlasses: 'Keep a water bottle nearby and refill it regularly',
+  exerciseDuration: 'Add a short walk or workout to hit your exercise goal'
+};
+
+/**
+ * e.g. "Sleep Hours ≥ 7.5h on 5 days/week"
+ */
+export const describeGoal = (goal: Goal): string => {
+  const symbol = GOAL_COMPARISONS.find(c => c.value === goal.comparison)?.symbol;
+  return `${getMetricLabel(goal.metric)} ${symbol} ${formatMetricValue(goal.metric, goal.target)} on ${goal.daysPerWeek} day${goal.daysPerWeek !== 1 ? 's' : ''}/week`;
+};
+
+export const meetsTarget = (goal: Goal, value: number): boolean =>
+  goal.comparison === 'atLeast' ? value >= goal.target : value <= goal.target;
+
+/**
+ * This week's progress and the weekly hit history of a goal
+ */
+export const evaluateGoal = (
+  goal: Goal,
+  checkins: CheckinResponse[],
+  weeks: number = GOAL_HISTORY_WEEKS,
+  today: string = new Date().toISOString().split('T')[0]
+): GoalProgress => {
+  const dailyValues = getDailyMetricValues(checkins, goal.metric);
+  const currentWeek = toDayNumber(startOfWeek(today));
+
+  const history: GoalWeek[] = [];
+  for (let week = weeks - 1; week >= 0; week--) {
+    const weekStart = currentWeek - week * 7;
+    let daysMet = 0;
+    let daysLogged = 0;
+    for (let day = weekStart; day < weekStart + 7; day++) {
+      const value = dailyValues.get(fromDayNumber(day));
+      if (value === undefined) continue;
+      daysLogged++;
+      if (meetsTarget(goal, value)) daysMet++;
+    }
+    history.push({
+      weekStart: fromDayNumber(weekStart),
+      daysMet,
+      daysLogged,
+      hit: daysMet >= goal.daysPerWeek
+    });
+  }
+
+  const thisWeek = history[history.length - 1];
+  const completedWeeks = history.slice(0, -1).filter(week => week.daysLogged > 0);
+
+  return {
+    goal,
+    daysMet: thisWeek.daysMet,
+    progress: Math.min(thisWeek.daysMet / goal.daysPerWeek, 1),
+    history,
+    hitRate: completedWeeks.length
+      ? completedWeeks.filter(week => week.hit).length / completedWeeks.length
+      : null
+  };
+};
+
+/**
+ * Recommendations for goals whose average over the check-ins misses the target, biggest gap first
+ */
+export const getGoalRecommendations = (
+  goals: Goal[],
+  checkins: CheckinResponse[]
+): GoalRecommendation[] => {
+  const recommendations: GoalRecommendation[] = [];
+
+  goals.forEach(goal => {
+    const average = mean([...getDailyMetricValues(checkins, goal.metric).values()]);
+    if (average === null || meetsTarget(goal, average)) return;
+
+    recommendations.push({
+      goal,
+      average,
+      gap: Math.abs(average - goal.target) / Math.max(Math.abs(goal.target), 1),
+      message: GOAL_TIPS[goal.metric] ||
+        `Aim for ${getMetricLabel(goal.metric).toLowerCase()} ${goal.comparison === 'atLeast' ? 'of at least' : 'of at most'} ${formatMetricValue(goal.metric, goal.target)}`
+    });
+  });
+
+  return recommendations.sort((a, b) => b.gap - a.gap);
+};
@@ -0,0 +1,49 @@
+import { userStorage } from './userStorage';
+
+export interface InsightFeedback {
+  status: 'dismissed' | 'snoozed';
+  until?: string; // "YYYY-MM-DD", snoozed insights come back on this day
+  updatedAt: string; // ISO timestamp
+}
+
+const FEEDBACK_KEY = 'insightFeedback';
+
+export const INSIGHT_SNOOZE_DAYS = 7;
+
+/**
+ * Whether feedback still hides its insight on the given day
+ */
+export const isInsightHidden = (
+  feedback: InsightFeedback | undefined,
+  today: string = new Date().toISOString().split('T')[0]
+): boolean => {
+  if (!feedback) return false;
+  return feedback.status === 'dismissed' || (feedback.until !== undefined && today < feedback.until);
+};
+
+// Keyed by Insight.id
+export const insightStorage = {
+  getFeedback: (): Record<string, InsightFeedback> => {
+    return userStorage.get<Record<string, InsightFeedback>>(FEEDBACK_KEY, {});
+  },
+
+  dismiss: (id: string): void => {
+    userStorage.set(FEEDBACK_KEY, {
+      ...insightStorage.getFeedback(),
+      [id]: { status: 'dismissed', updatedAt: new Date().toISOString() }
+    });
+  },
+
+  snooze: (id: string, until: string): void => {
+    userStorage.set(FEEDBACK_KEY, {
+      ...insightStorage.getFeedback(),
+      [id]: { status: 'snoozed', until, updatedAt: new Date().toISOString() }
+    });
+  },
+
+  restore: (id: string): void => {
+    const feedback = insightStorage.getFeedback();
+    delete feedback[id];
+    userStorage.set(FEEDBACK_KEY, feedback);
+  },
+};
@@ -0,0 +1,321 @@
+import type { CheckinResponse } from '../types/checkin';
+import type { Goal } from '../types/goal';
+import type { StatMetric } from './statistics';
+import { fromDayNumber, getDailyMetricValues, mean, standardDeviation, toDayNumber } from './statistics';
+import { formatMetricValue, getChangeSentiment, getMetric, getMetricLabel } from './metricRegistry';
+import { compareMetric, getCheckinsInPeriod, getSignificance } from './periodComparison';
+import { describeGoal, getGoalRecommendations } from './goals';
+
+export type InsightPriority = 'high' | 'medium' | 'low';
+
+export type InsightSentiment = 'better' | 'worse' | 'neutral';
+
+export interface InsightEvidence {
+  label: string;
+  value: string;
+}
+
+export interface Insight {
+  id: string; // "ruleId" or "ruleId:subject", used to dismiss or snooze
+  ruleId: string;
+  title: string;
+  detail: string;
+  explanation: string; // "Why am I seeing this?"
+  evidence: InsightEvidence[];
+  priority: InsightPriority;
+  score: number; // Ranking score, priority weight times strength of the finding
+  sentiment: InsightSentiment;
+}
+
+// Compares an outcome on days where an input crossed a threshold with the other days
+export interface SplitRule {
+  kind: 'split';
+  id: string;
+  priority: InsightPriority;
+  input: StatMetric;
+  comparison: 'above' | 'below';
+  threshold: number;
+  outcome: StatMetric;
+  lagDays: 0 | 1; // 1 compares the outcome on the following day
+  minEffect: number; // Smallest difference in the outcome worth mentioning
+}
+
+// Flags a recent average on the wrong side of a threshold
+export interface LevelRule {
+  kind: 'level';
+  id: string;
+  priority: InsightPriority;
+  metric: StatMetric;
+  comparison: 'above' | 'below';
+  threshold: number;
+  days: number;
+  advice: string;
+}
+
+// Compares the last `days` days with the `days` before them
+export interface TrendRule {
+  kind: 'trend';
+  id: string;
+  priority: InsightPriority;
+  metric: StatMetric;
+  days: number;
+  minChange: number;
+}
+
+// Goals whose average misses the target
+export interface GoalRule {
+  kind: 'goals';
+  id: string;
+  priority: InsightPriority;
+}
+
+export type InsightRule = SplitRule | LevelRule | TrendRule | GoalRule;
+
+export interface InsightContext {
+  checkins: CheckinResponse[];
+  goals: Goal[];
+  endDate: string; // Last day of the analysed history, "YYYY-MM-DD"
+}
+
+export const PRIORITY_WEIGHTS: Record<InsightPriority, number> = { high: 3, medium: 2, low: 1 };
+
+// Days needed on each side of a split before it can produce an insight
+export const MIN_SPLIT_DAYS = 5;
+
+/**
+ * The rule library, evaluated in order and ranked by score.
+ * Adding a rule here is enough for it to appear in the insights panel.
+ */
+export const INSIGHT_RULES: InsightRule[] = [
+  { kind: 'goals', id: 'goals-off-target', priority: 'high' },
+  {
+    kind: 'split', id: 'exercise-productivity', priority: 'medium',
+    input: 'exerciseDuration', comparison: 'above', threshold: 30, outcome: 'productivityRating', lagDays: 0, minEffect: 0.5
+  },
+  {
+    kind: 'split', id: 'exercise-mood', priority: 'low',
+    input: 'exerciseDuration', comparison: 'above', threshold: 30, outcome: 'moodScore', lagDays: 0, minEffect: 0.4
+  },
+  {
+    kind: 'split', id: 'screen-time-sleep', priority: 'medium',
+    input: 'screenTimeBeforeBed', comparison: 'above', threshold: 60, outcome: 'sleepQuality', lagDays: 1, minEffect: 0.5
+  },
+  {
+    kind: 'split', id: 'caffeine-sleep', priority: 'medium',
+    input: 'caffeineMg', comparison: 'above', threshold: 200, outcome: 'sleepQuality', lagDays: 1, minEffect: 0.5
+  },
+  {
+    kind: 'split', id: 'short-sleep-energy', priority: 'high',
+    input: 'sleepHours', comparison: 'below', threshold: 7, outcome: 'avgEnergy', lagDays: 0, minEffect: 0.5
+  },
+  {
+    kind: 'split', id: 'stress-sleep', priority: 'medium',
+    input: 'stressLevel', comparison: 'above', threshold: 6, outcome: 'sleepQuality', lagDays: 1, minEffect: 0.5
+  },
+  {
+    kind: 'split', id: 'deep-work-productivity', priority: 'low',
+    input: 'deepWorkHours', comparison: 'above', threshold: 3, outcome: 'productivityRating', lagDays: 0, minEffect: 0.5
+  },
+  {
+    kind: 'split', id: 'water-energy', priority: 'low',
+    input: 'waterGlasses', comparison: 'below', threshold: 6, outcome: 'avgEnergy', lagDays: 0, minEffect: 0.5
+  },
+  {
+    kind: 'level', id: 'low-sleep', priority: 'high', metric: 'sleepHours', comparison: 'below', threshold: 7, days: 14,
+    advice: 'Try a consistent bedtime and wind down earlier'
+  },
+  {
+    kind: 'level', id: 'high-stress', priority: 'high', metric: 'stressLevel', comparison: 'above', threshold: 6, days: 14,
+    advice: 'Schedule short breaks and practice stress management techniques'
+  },
+  {
+    kind: 'level', id: 'low-energy', priority: 'medium', metric: 'avgEnergy', comparison: 'below', threshold: 6, days: 14,
+    advice: 'Consider adjusting your sleep schedule or exercise routine'
+  },
+  {
+    kind: 'level', id: 'low-productivity', priority: 'medium', metric: 'productivityRating', comparison: 'below', threshold: 6, days: 14,
+    advice: 'Experiment with different work environments or techniques'
+  },
+  { kind: 'trend', id: 'sleep-trend', priority: 'medium', metric: 'sleepHours', days: 7, minChange: 0.5 },
+  { kind: 'trend', id: 'energy-trend', priority: 'medium', metric: 'avgEnergy', days: 7, minChange: 0.8 },
+  { kind: 'trend', id: 'stress-trend', priority: 'medium', metric: 'stressLevel', days: 7, minChange: 0.8 },
+  { kind: 'trend', id: 'mood-trend', priority: 'low', metric: 'moodScore', days: 7, minChange: 0.5 }
+];
+
+/**
+ * A difference in a metric's own terms: "1.8 points" for ratings, "25 min" otherwise
+ */
+const formatDifference = (metric: StatMetric, value: number): string => {
+  const { unit } = getMetric(metric);
+  if (unit !== '/10') return formatMetricValue(metric, value);
+  const points = Math.round(value * 10) / 10;
+  return `${points} point${points !== 1 ? 's' : ''}`;
+};
+
+const lowerLabel = (metric: StatMetric): string => getMetricLabel(metric).toLowerCase();
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const describeCondition = (rule: SplitRule): string =>
+  `${lowerLabel(rule.input)} ${rule.comparison} ${formatMetricValue(rule.input, rule.threshold)}`;
+
+const evaluateSplit = (rule: SplitRule, { checkins }: InsightContext): Insight[] => {
+  const inputs = getDailyMetricValues(checkins, rule.input);
+  const outcomes = getDailyMetricValues(checkins, rule.outcome);
+
+  const matched: number[] = [];
+  const others: number[] = [];
+  inputs.forEach((value, date) => {
+    const outcome = outcomes.get(fromDayNumber(toDayNumber(date) + rule.lagDays));
+    if (outcome === undefined) return;
+    const crosses = rule.comparison === 'above' ? value > rule.threshold : value < rule.threshold;
+    (crosses ? matched : others).push(outcome);
+  });
+  if (matched.length < MIN_SPLIT_DAYS || others.length < MIN_SPLIT_DAYS) return [];
+
+  const effect = mean(matched)! - mean(others)!;
+  if (Math.abs(effect) < rule.minEffect) return [];
+
+  const significance = getSignificance(others, matched);
+  if (significance === 'insufficient') return [];
+
+  // Effect size in standard deviations of the outcome, halved when it could be noise
+  const spread = standardDeviation([...matched, ...others]) || 1;
+  const strength = Math.min(Math.abs(effect) / spread, 1) * (significance === 'likely' ? 1 : 0.5);
+  const when = rule.lagDays === 1 ? 'the day after' : 'on days with';
+
+  return [{
+    id: `${rule.id}:${effect > 0 ? 'higher' : 'lower'}`,
+    ruleId: rule.id,
+    title: `${capitalize(lowerLabel(rule.outcome))} is ${formatDifference(rule.outcome, Math.abs(effect))} ${effect > 0 ? 'higher' : 'lower'} ${when} ${describeCondition(rule)}`,
+    detail: significance === 'likely'
+      ? 'The gap is consistent enough that it is unlikely to be chance.'
+      : 'The gap is noticeable but could still be chance; keep logging to confirm it.',
+    explanation: `We compared your ${lowerLabel(rule.outcome)} ${rule.lagDays === 1 ? 'on the day after each day' : 'on each day'} ` +
+      `with ${describeCondition(rule)} (${matched.length} days) against the rest (${others.length} days). ` +
+      `Differences under ${formatDifference(rule.outcome, rule.minEffect)} or with fewer than ${MIN_SPLIT_DAYS} days on either side are not shown. ` +
+      'This shows the two move together, not that one causes the other.',
+    evidence: [
+      { label: `With ${describeCondition(rule)}`, value: formatMetricValue(rule.outcome, mean(matched)!) },
+      { label: 'Other days', value: formatMetricValue(rule.outcome, mean(others)!) },
+      { label: 'Days compared', value: `${matched.length} vs ${others.length}` }
+    ],
+    priority: rule.priority,
+    score: PRIORITY_WEIGHTS[rule.priority] * strength,
+    sentiment: getChangeSentiment(rule.outcome, effect)
+  }];
+};
+
+const evaluateLevel = (rule: LevelRule, { checkins, endDate }: InsightContext): Insight[] => {
+  const startDate = fromDayNumber(toDayNumber(endDate) - rule.days + 1);
+  const values = [...getDailyMetricValues(getCheckinsInPeriod(checkins, { startDate, endDate }), rule.metric).values()];
+  // A couple of days is not enough to call it a pattern
+  if (values.length < Math.ceil(rule.days / 3)) return [];
+
+  const average = mean(values)!;
+  const misses = rule.comparison === 'above' ? average > rule.threshold : average < rule.threshold;
+  if (!misses) return [];
+
+  const gap = Math.abs(average - rule.threshold) / Math.max(Math.abs(rule.threshold), 1);
+  return [{
+    id: rule.id,
+    ruleId: rule.id,
+    title: `Your ${lowerLabel(rule.metric)} has averaged ${formatMetricValue(rule.metric, average)} over the last ${rule.days} days`,
+    detail: rule.advice,
+    explanation: `Shown when your average ${lowerLabel(rule.metric)} over the last ${rule.days} days is ` +
+      `${rule.comparison} ${formatMetricValue(rule.metric, rule.threshold)} and at least ${Math.ceil(rule.days / 3)} of those days were logged.`,
+    evidence: [
+      { label: `${rule.days}-day average`, value: formatMetricValue(rule.metric, average) },
+      { label: 'Threshold', value: formatMetricValue(rule.metric, rule.threshold) },
+      { label: 'Days logged', value: String(values.length) }
+    ],
+    priority: rule.priority,
+    score: PRIORITY_WEIGHTS[rule.priority] * Math.min(0.5 + gap * 2, 1),
+    sentiment: 'worse'
+  }];
+};
+
+const evaluateTrend = (rule: TrendRule, { checkins, endDate }: InsightContext): Insight[] => {
+  const end = toDayNumber(endDate);
+  const recent = getCheckinsInPeriod(checkins, { startDate: fromDayNumber(end - rule.days + 1), endDate });
+  const before = getCheckinsInPeriod(checkins, {
+    startDate: fromDayNumber(end - rule.days * 2 + 1),
+    endDate: fromDayNumber(end - rule.days)
+  });
+
+  const comparison = compareMetric(before, recent, rule.metric);
+  if (comparison.delta === null || Math.abs(comparison.delta) < rule.minChange) return [];
+  if (comparison.significance === 'insufficient') return [];
+
+  const sentiment = getChangeSentiment(rule.metric, comparison.delta);
+  const strength = Math.min(Math.abs(comparison.delta) / (rule.minChange * 3), 1) *
+    (comparison.significance === 'likely' ? 1 : 0.5);
+
+  return [{
+    id: `${rule.id}:${comparison.delta > 0 ? 'up' : 'down'}`,
+    ruleId: rule.id,
+    title: `${getMetricLabel(rule.metric)} is ${comparison.delta > 0 ? 'up' : 'down'} ${formatDifference(rule.metric, Math.abs(comparison.delta))} this ${rule.days === 7 ? 'week' : `${rule.days}-day stretch`}`,
+    detail: sentiment === 'better'
+      ? 'Nice work, whatever changed is paying off.'
+      : sentiment === 'worse'
+        ? 'Worth a look at what changed recently.'
+        : 'A noticeable shift from your recent routine.',
+    explanation: `We compared your average ${lowerLabel(rule.metric)} over the last ${rule.days} days ` +
+      `with the ${rule.days} days before. Changes smaller than ${formatDifference(rule.metric, rule.minChange)} are not shown.`,
+    evidence: [
+      { label: `Last ${rule.days} days`, value: formatMetricValue(rule.metric, comparison.meanB!) },
+      { label: `Previous ${rule.days} days`, value: formatMetricValue(rule.metric, comparison.meanA!) },
+      { label: 'Days compared', value: `${comparison.daysB} vs ${comparison.daysA}` }
+    ],
+    priority: rule.priority,
+    score: PRIORITY_WEIGHTS[rule.priority] * strength,
+    sentiment
+  }];
+};
+
+const evaluateGoals = (rule: GoalRule, { checkins, goals }: InsightContext): Insight[] =>
+  getGoalRecommendations(goals, checkins).map(recommendation => ({
+    id: `${rule.id}:${recommendation.goal.id}`,
+    ruleId: rule.id,
+    title: `${getMetricLabel(recommendation.goal.metric)} is off your goal`,
+    detail: recommendation.message,
+    explanation: `You set the goal "${describeGoal(recommendation.goal)}". ` +
+      `Your average over the analysed check-ins misses its target.`,
+    evidence: [
+      { label: 'Average', value: formatMetricValue(recommendation.goal.metric, recommendation.average) },
+      { label: 'Target', value: formatMetricValue(recommendation.goal.metric, recommendation.goal.target) }
+    ],
+    priority: rule.priority,
+    score: PRIORITY_WEIGHTS[rule.priority] * Math.min(0.5 + recommendation.gap, 1),
+    sentiment: 'worse'
+  }));
+
+export const evaluateRule = (rule: InsightRule, context: InsightContext): Insight[] => {
+  switch (rule.kind) {
+    case 'split':
+      return evaluateSplit(rule, context);
+    case 'level':
+      return evaluateLevel(rule, context);
+    case 'trend':
+      return evaluateTrend(rule, context);
+    case 'goals':
+      return evaluateGoals(rule, context);
+  }
+};
+
+/**
+ * Run every rule over the check-ins and rank the results, strongest first
+ */
+export const generateInsights = (
+  checkins: CheckinResponse[],
+  goals: Goal[],
+  rules: InsightRule[] = INSIGHT_RULES
+): Insight[] => {
+  if (checkins.length === 0) return [];
+  const endDate = checkins.map(checkin => checkin.date.split('T')[0]).sort().reverse()[0];
+  const context: InsightContext = { checkins, goals, endDate };
+
+  return rules
+    .flatMap(rule => evaluateRule(rule, context))
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,25 @@
+/**
+ * Claims of a JWT, or null when it cannot be read. The signature is not checked; the API does that.
+ */
+export const decodeJwtPayload = (token: string): Record<string, unknown> | null => {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=');
+    const json = decodeURIComponent(
+      Array.from(atob(base64), char => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+    );
+    const claims = JSON.parse(json);
+    return typeof claims === 'object' && claims !== null ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Expiry of a JWT from its "exp" claim, as an ISO timestamp
+ */
+export const getJwtExpiry = (token: string): string | null => {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? new Date(exp * 1000).toISOString() : null;
+};
@@ -0,0 +1,182 @@
+import type { CheckinResponse, NumericCheckinField } from '../types/checkin';
+import { pearson, MIN_CORRELATION_SAMPLES } from './correlation';
+import { getDailyMetricValues, inverseNormalCdf, mean, toDayNumber } from './statistics';
+import { getMetricLabel } from './metricRegistry';
+
+export const MAX_LAG_DAYS = 3;
+
+export type LagConfidence = 'low' | 'medium' | 'high';
+
+export interface LagEffect {
+  input: NumericCheckinField;
+  outcome: NumericCheckinField;
+  lagDays: number;
+  coefficient: number; // Pearson r between input on day D and outcome on day D + lag
+  slope: number; // Change in outcome per unit of input
+  sampleSize: number;
+  confidenceInterval: [number, number]; // 95% interval for r (Fisher z), Bonferroni-widened for a best-of-lags lever
+  confidence: LagConfidence;
+}
+
+// Habits the user controls, and the results they care about
+export const DEFAULT_LAG_INPUTS: NumericCheckinField[] = [
+  'caffeineMg',
+  'screenTimeBeforeBed',
+  'exerciseDuration',
+  'waterGlasses',
+  'deepWorkHours',
+  'stressLevel'
+];
+
+export const DEFAULT_LAG_OUTCOMES: NumericCheckinField[] = [
+  'sleepQuality',
+  'sleepHours',
+  'energyMorning',
+  'productivityRating'
+];
+
+export const getFieldLabel = (field: NumericCheckinField): string => getMetricLabel(field);
+
+/**
+ * A field per calendar day (averaged or summed as the registry says), skipping check-ins that did not record it
+ */
+export const buildDailySeries = (
+  checkins: CheckinResponse[],
+  field: NumericCheckinField
+): Map<number, number> => {
+  const series = new Map<number, number>();
+  getDailyMetricValues(checkins, field).forEach((value, date) => series.set(toDayNumber(date), value));
+  return series;
+};
+
+// Two-sided normal critical values for 95% coverage: a single test, and the best of the lags 0 through
+// MAX_LAG_DAYS tested per pair (Bonferroni)
+const ALPHA = 0.05;
+const LAGS_TESTED = MAX_LAG_DAYS + 1;
+const Z_95 = inverseNormalCdf(1 - ALPHA / 2);
+const Z_95_ACROSS_LAGS = inverseNormalCdf(1 - ALPHA / (2 * LAGS_TESTED));
+
+const getConfidenceInterval = (r: number, n: number, critical: number = Z_95): [number, number] => {
+  if (n <= 3) return [-1, 1];
+  const clamped = Math.max(Math.min(r, 0.999999), -0.999999);
+  const z = Math.atanh(clamped);
+  const margin = critical / Math.sqrt(n - 3);
+  return [Math.tanh(z - margin), Math.tanh(z + margin)];
+};
+
+const getConfidence = (interval: [number, number], n: number): LagConfidence => {
+  const excludesZero = interval[0] > 0 || interval[1] < 0;
+  if (excludesZero && n >= 20) return 'high';
+  if (excludesZero || n >= 14) return 'medium';
+  return 'low';
+};
+
+/**
+ * Effect of an input on an outcome measured lagDays later, or null when there are too few paired days
+ */
+export const computeLagEffect = (
+  checkins: CheckinResponse[],
+  input: NumericCheckinField,
+  outcome: NumericCheckinField,
+  lagDays: number
+): LagEffect | null => {
+  const inputSeries = buildDailySeries(checkins, input);
+  const outcomeSeries = buildDailySeries(checkins, outcome);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  inputSeries.forEach((value, day) => {
+    const outcomeValue = outcomeSeries.get(day + lagDays);
+    if (outcomeValue !== undefined) {
+      xs.push(value);
+      ys.push(outcomeValue);
+    }
+  });
+
+  if (xs.length < MIN_CORRELATION_SAMPLES) return null;
+  const coefficient = pearson(xs, ys);
+  if (coefficient === null) return null;
+
+  const meanX = mean(xs)!;
+  const meanY = mean(ys)!;
+  const sdX = Math.sqrt(xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0) / xs.length);
+  const sdY = Math.sqrt(ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0) / ys.length);
+  const confidenceInterval = getConfidenceInterval(coefficient, xs.length);
+
+  return {
+    input,
+    outcome,
+    lagDays,
+    coefficient,
+    slope: coefficient * (sdY / sdX),
+    sampleSize: xs.length,
+    confidenceInterval,
+    confidence: getConfidence(confidenceInterval, xs.length)
+  };
+};
+
+/**
+ * Effects for lags 0 through MAX_LAG_DAYS of a single input/outcome pair
+ */
+export const computeLagProfile = (
+  checkins: CheckinResponse[],
+  input: NumericCheckinField,
+  outcome: NumericCheckinField
+): (LagEffect | null)[] => {
+  const profile: (LagEffect | null)[] = [];
+  for (let lag = 0; lag <= MAX_LAG_DAYS; lag++) {
+    profile.push(computeLagEffect(checkins, input, outcome, lag));
+  }
+  return profile;
+};
+
+/**
+ * Re-rate an effect picked as the strongest of all lags, so searching several lags doesn't make
+ * chance correlations look confident
+ */
+const correctForLagSearch = (effect: LagEffect): LagEffect => {
+  const confidenceInterval = getConfidenceInterval(effect.coefficient, effect.sampleSize, Z_95_ACROSS_LAGS);
+  return { ...effect, confidenceInterval, confidence: getConfidence(confidenceInterval, effect.sampleSize) };
+};
+
+/**
+ * Rank the strongest input/outcome effects, keeping the best lag for each pair
+ */
+export const findStrongestLevers = (
+  checkins: CheckinResponse[],
+  inputs: NumericCheckinField[] = DEFAULT_LAG_INPUTS,
+  outcomes: NumericCheckinField[] = DEFAULT_LAG_OUTCOMES,
+  limit: number = 5
+): LagEffect[] => {
+  const levers: LagEffect[] = [];
+
+  inputs.forEach(input => {
+    outcomes.forEach(outcome => {
+      if (input === outcome) return;
+      const best = computeLagProfile(checkins, input, outcome)
+        .filter((effect): effect is LagEffect => effect !== null)
+        .sort((a, b) => Math.abs(b.coefficient) - Math.abs(a.coefficient))[0];
+      if (best) levers.push(correctForLagSearch(best));
+    });
+  });
+
+  // Confident effects first, then by strength
+  const confidenceRank: Record<LagConfidence, number> = { high: 2, medium: 1, low: 0 };
+  return levers
+    .sort((a, b) =>
+      confidenceRank[b.confidence] - confidenceRank[a.confidence] ||
+      Math.abs(b.coefficient) - Math.abs(a.coefficient)
+    )
+    .slice(0, limit);
+};
+
+/**
+ * Human-readable summary, e.g. "More caffeine → lower sleep quality the next day"
+ */
+export const describeLagEffect = (effect: LagEffect): string => {
+  const when = effect.lagDays === 0
+    ? 'the same day'
+    : effect.lagDays === 1 ? 'the next day' : `${effect.lagDays} days later`;
+  const direction = effect.coefficient >= 0 ? 'higher' : 'lower';
+  return `More ${getFieldLabel(effect.input).toLowerCase()} → ${direction} ${getFieldLabel(effect.outcome).toLowerCase()} ${when}`;
+};
@@ -0,0 +1,208 @@
+import type { NumericCheckinField } from '../types/checkin';
+import type { StatMetric } from './statistics';
+
+export type MetricDirection = 'higherIsBetter' | 'lowerIsBetter' | 'neutral';
+
+// How several check-ins on the same day merge into that day's value, see utils/dailyRollup
+export type MetricAggregation = 'latest' | 'sum' | 'max';
+
+export type MetricInputType = 'number' | 'slider';
+
+export interface MetricDefinition {
+  key: StatMetric;
+  label: string;
+  unit: string; // Appended to formatted values, e.g. "h", " mg" or "/10"
+  unitName?: string; // Spelled out for form labels, e.g. "minutes"
+  range: { min: number; max?: number };
+  step: number;
+  decimals: number; // Decimals kept when formatting
+  direction: MetricDirection;
+  color: string;
+  aggregation: MetricAggregation;
+  input: MetricInputType | null; // Null for metrics derived from other fields
+  placeholder?: string;
+  scaleLabels?: [string, string]; // Slider end labels, defaults to the range
+  icon: string;
+}
+
+const rating = (
+  key: StatMetric,
+  label: string,
+  color: string,
+  icon: string,
+  direction: MetricDirection = 'higherIsBetter',
+  scaleLabels?: [string, string]
+): MetricDefinition => ({
+  key,
+  label,
+  unit: '/10',
+  range: { min: 1, max: 10 },
+  step: 1,
+  decimals: 1,
+  direction,
+  color,
+  aggregation: 'latest',
+  input: 'slider',
+  scaleLabels,
+  icon
+});
+
+/**
+ * Every numeric check-in field plus the derived metrics, in form order.
+ * Adding a metric here puts it in the form, validation, charts, stats and widgets.
+ */
+export const METRIC_REGISTRY: Record<StatMetric, MetricDefinition> = {
+  sleepHours: {
+    key: 'sleepHours',
+    label: 'Sleep Hours',
+    unit: 'h',
+    range: { min: 0, max: 24 },
+    step: 0.5,
+    decimals: 1,
+    direction: 'higherIsBetter',
+    color: '#3b82f6',
+    aggregation: 'latest',
+    input: 'number',
+    placeholder: '8.0',
+    icon: '😴'
+  },
+  sleepQuality: rating('sleepQuality', 'Sleep Quality', '#60a5fa', '🛌', 'higherIsBetter', ['Poor', 'Excellent']),
+  energyMorning: rating('energyMorning', 'Morning Energy', '#fbbf24', '🌅'),
+  energyAfternoon: rating('energyAfternoon', 'Afternoon Energy', '#f59e0b', '☀️'),
+  energyEvening: rating('energyEvening', 'Evening Energy', '#d97706', '🌙'),
+  stressLevel: rating('stressLevel', 'Stress Level', '#ef4444', '😰', 'lowerIsBetter', ['Low', 'High']),
+  exerciseDuration: {
+    key: 'exerciseDuration',
+    label: 'Exercise Duration',
+    unit: ' min',
+    unitName: 'minutes',
+    range: { min: 0 },
+    step: 1,
+    decimals: 0,
+    direction: 'higherIsBetter',
+    color: '#06b6d4',
+    aggregation: 'sum',
+    input: 'number',
+    placeholder: '30',
+    icon: '🏃'
+  },
+  exerciseIntensity: rating('exerciseIntensity', 'Exercise Intensity', '#0891b2', '💪', 'neutral'),
+  caffeineMg: {
+    key: 'caffeineMg',
+    label: 'Caffeine',
+    unit: ' mg',
+    unitName: 'mg',
+    range: { min: 0 },
+    step: 1,
+    decimals: 0,
+    direction: 'neutral',
+    color: '#a16207',
+    aggregation: 'sum',
+    input: 'number',
+    placeholder: '95',
+    icon: '☕'
+  },
+  waterGlasses: {
+    key: 'waterGlasses',
+    label: 'Water Glasses',
+    unit: ' glasses',
+    range: { min: 0 },
+    step: 1,
+    decimals: 1,
+    direction: 'higherIsBetter',
+    color: '#38bdf8',
+    aggregation: 'sum',
+    input: 'number',
+    placeholder: '8',
+    icon: '💧'
+  },
+  screenTimeBeforeBed: {
+    key: 'screenTimeBeforeBed',
+    label: 'Screen Time Before Bed',
+    unit: ' min',
+    unitName: 'minutes',
+    range: { min: 0 },
+    step: 1,
+    decimals: 0,
+    direction: 'lowerIsBetter',
+    color: '#f472b6',
+    aggregation: 'latest',
+    input: 'number',
+    placeholder: '30',
+    icon: '📱'
+  },
+  deepWorkHours: {
+    key: 'deepWorkHours',
+    label: 'Deep Work Hours',
+    unit: 'h',
+    range: { min: 0, max: 24 },
+    step: 0.5,
+    decimals: 1,
+    direction: 'higherIsBetter',
+    color: '#34d399',
+    aggregation: 'max',
+    input: 'number',
+    placeholder: '4.0',
+    icon: '🧠'
+  },
+  productivityRating: rating('productivityRating', 'Productivity', '#10b981', '🚀'),
+  avgEnergy: { ...rating('avgEnergy', 'Average Energy', '#f59e0b', '⚡'), input: null },
+  moodScore: {
+    key: 'moodScore',
+    label: 'Mood Score',
+    unit: '/6',
+    range: { min: 1, max: 6 },
+    step: 1,
+    decimals: 1,
+    direction: 'higherIsBetter',
+    color: '#8b5cf6',
+    aggregation: 'latest',
+    input: null,
+    icon: '😊'
+  }
+};
+
+export const getMetric = (metric: StatMetric): MetricDefinition => METRIC_REGISTRY[metric];
+
+export const getMetricLabel = (metric: StatMetric): string => METRIC_REGISTRY[metric].label;
+
+// Metrics entered directly on the form, as opposed to derived ones
+export const NUMERIC_METRICS = Object.values(METRIC_REGISTRY).filter(
+  (definition): definition is MetricDefinition & { key: NumericCheckinField } => definition.input !== null
+);
+
+/**
+ * Value with its unit, e.g. "7.5h", "200 mg" or "6/10"
+ */
+export const formatMetricValue = (metric: StatMetric, value: number): string => {
+  const { unit, decimals } = getMetric(metric);
+  const factor = 10 ** decimals;
+  return `${Math.round(value * factor) / factor}${unit}`;
+};
+
+/**
+ * Whether a change from one value to another is an improvement, a decline or neither
+ */
+export const getChangeSentiment = (metric: StatMetric, delta: number): 'better' | 'worse' | 'neutral' => {
+  const { direction } = getMetric(metric);
+  if (delta === 0 || direction === 'neutral') return 'neutral';
+  return (delta > 0) === (direction === 'higherIsBetter') ? 'better' : 'worse';
+};
+
+/**
+ * Range error for a single value, null when it is valid
+ */
+export const validateMetricValue = (metric: StatMetric, value: number): string | null => {
+  const { label, range, step } = getMetric(metric);
+  // Fields entered in whole steps are integers on the server
+  if (Number.isInteger(step) && !Number.isInteger(value)) {
+    return `${label} must be a whole number`;
+  }
+  if (range.max !== undefined && (value < range.min || value > range.max)) {
+    return `${label} must be between ${range.min} and ${range.max}`;
+  }
+  if (value < range.min) {
+    return range.min === 0 ? `${label} cannot be negative` : `${label} must be at least ${range.min}`;
+  }
+  return null;
+};
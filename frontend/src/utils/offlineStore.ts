@@ -0,0 +1,59 @@
+const DB_NAME = 'momentum-offline';
+const DB_VERSION = 1;
+
+export const SYNC_QUEUE_STORE = 'syncQueue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SYNC_QUEUE_STORE)) {
+          db.createObjectStore(SYNC_QUEUE_STORE, { keyPath: 'localId', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Minimal promise wrapper around IndexedDB for data that must survive reloads while offline
+export const offlineStore = {
+  getAll: <T>(storeName: string): Promise<T[]> => {
+    return runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+  },
+
+  get: <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+    return runRequest<T | undefined>(storeName, 'readonly', store => store.get(key));
+  },
+
+  put: <T>(storeName: string, value: T): Promise<IDBValidKey> => {
+    return runRequest<IDBValidKey>(storeName, 'readwrite', store => store.put(value));
+  },
+
+  delete: (storeName: string, key: IDBValidKey): Promise<undefined> => {
+    return runRequest<undefined>(storeName, 'readwrite', store => store.delete(key));
+  },
+};
@@ -0,0 +1,96 @@
+import type { CheckinResponse } from '../types/checkin';
+import { compareMetric } from './periodComparison';
+import type { MetricComparison } from './periodComparison';
+import { getDailyMetricValues, getWeekdayIndex, mean } from './statistics';
+import { getMetricLabel } from './metricRegistry';
+import type { StatMetric } from './statistics';
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export const TIME_OF_DAY_FIELDS = [
+  { key: 'energyMorning', label: 'Morning' },
+  { key: 'energyAfternoon', label: 'Afternoon' },
+  { key: 'energyEvening', label: 'Evening' },
+] as const;
+
+export const WEEKEND_COMPARISON_METRICS: StatMetric[] = ['sleepHours', 'moodScore', 'productivityRating'];
+
+// Metrics on the radar, each scaled against its own maximum so they share one axis
+export const RADAR_METRICS: { metric: StatMetric; max: number }[] = [
+  { metric: 'sleepHours', max: 10 },
+  { metric: 'sleepQuality', max: 10 },
+  { metric: 'avgEnergy', max: 10 },
+  { metric: 'moodScore', max: 6 },
+  { metric: 'productivityRating', max: 10 },
+  { metric: 'stressLevel', max: 10 },
+  { metric: 'deepWorkHours', max: 8 }
+];
+
+// One row per time of day, one column per weekday (0 = Monday) plus the all-days average
+export type EnergyCurveRow = { timeOfDay: string; all: number | null } & Record<string, number | null | string>;
+
+export interface RadarRow {
+  metric: string;
+  a: number; // 0-100
+  b: number; // 0-100
+  rawA: number | null;
+  rawB: number | null;
+}
+
+const isWeekend = (date: string): boolean => getWeekdayIndex(date) >= 5;
+
+/**
+ * Mean of a metric's daily values for each weekday, Monday first
+ */
+export const averageByWeekday = (checkins: CheckinResponse[], metric: StatMetric): (number | null)[] => {
+  const buckets: number[][] = WEEKDAY_LABELS.map(() => []);
+  getDailyMetricValues(checkins, metric).forEach((value, date) => {
+    buckets[getWeekdayIndex(date)].push(value);
+  });
+  return buckets.map(values => mean(values));
+};
+
+/**
+ * Morning → afternoon → evening energy averaged per weekday
+ */
+export const buildEnergyCurves = (checkins: CheckinResponse[]): EnergyCurveRow[] =>
+  TIME_OF_DAY_FIELDS.map(field => {
+    const row: EnergyCurveRow = {
+      timeOfDay: field.label,
+      all: mean([...getDailyMetricValues(checkins, field.key).values()])
+    };
+    averageByWeekday(checkins, field.key).forEach((value, weekday) => {
+      row[WEEKDAY_LABELS[weekday]] = value;
+    });
+    return row;
+  });
+
+/**
+ * Weekdays (A) against weekends (B) for the given metrics
+ */
+export const compareWeekdaysToWeekends = (
+  checkins: CheckinResponse[],
+  metrics: StatMetric[] = WEEKEND_COMPARISON_METRICS
+): MetricComparison[] => {
+  const weekdays = checkins.filter(checkin => !isWeekend(checkin.date));
+  const weekends = checkins.filter(checkin => isWeekend(checkin.date));
+  return metrics.map(metric => compareMetric(weekdays, weekends, metric));
+};
+
+/**
+ * Typical values of two weekdays side by side, scaled 0-100 for a radar chart
+ */
+export const buildWeekdayRadar = (
+  checkins: CheckinResponse[],
+  weekdayA: number,
+  weekdayB: number
+): RadarRow[] =>
+  RADAR_METRICS.map(({ metric, max }) => {
+    const byWeekday = averageByWeekday(checkins, metric);
+    const rawA = byWeekday[weekdayA];
+    const rawB = byWeekday[weekdayB];
+    const scale = (value: number | null) => (value === null ? 0 : Math.min((value / max) * 100, 100));
+    return { metric: getMetricLabel(metric), a: scale(rawA), b: scale(rawB), rawA, rawB };
+  });
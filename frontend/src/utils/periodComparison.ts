@@ -0,0 +1,217 @@
+import type { CheckinResponse } from '../types/checkin';
+import type { StatMetric } from './statistics';
+import {
+  fromDayNumber,
+  getDailyMetricValues,
+  mean,
+  startOfWeek,
+  toDayNumber
+} from './statistics';
+
+export interface Period {
+  startDate: string; // "YYYY-MM-DD", inclusive
+  endDate: string; // "YYYY-MM-DD", inclusive
+}
+
+export type SignificanceHint = 'likely' | 'unclear' | 'insufficient';
+
+export interface MetricComparison {
+  metric: StatMetric;
+  meanA: number | null;
+  meanB: number | null;
+  delta: number | null; // B - A
+  percentChange: number | null; // Relative to A
+  daysA: number; // Days in A that recorded the metric
+  daysB: number;
+  tStatistic: number | null;
+  significance: SignificanceHint;
+}
+
+export interface AlignedDay {
+  day: number; // 1-based day of period
+  dateA?: string;
+  dateB?: string;
+  a?: number;
+  b?: number;
+}
+
+export type ComparisonPreset = 'week' | 'month' | '30d' | 'beforeAfter';
+
+export const COMPARISON_PRESETS: { value: ComparisonPreset; label: string }[] = [
+  { value: 'week', label: 'This week vs last week' },
+  { value: 'month', label: 'This month vs last month' },
+  { value: '30d', label: 'Last 30 days vs the 30 before' },
+  { value: 'beforeAfter', label: 'Before / after a date' }
+];
+
+// Two-sided 95% critical values of Student's t for 1-30 degrees of freedom
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042
+];
+
+const getCriticalValue = (degreesOfFreedom: number): number => {
+  const df = Math.floor(degreesOfFreedom);
+  if (df < 1) return Infinity;
+  return df <= T_CRITICAL_95.length ? T_CRITICAL_95[df - 1] : 1.96;
+};
+
+export const getPeriodLength = (period: Period): number =>
+  toDayNumber(period.endDate) - toDayNumber(period.startDate) + 1;
+
+/**
+ * Period A (earlier) and B (later) for a preset; beforeAfter uses `days` on each side of `pivot`
+ */
+export const getPresetPeriods = (
+  preset: ComparisonPreset,
+  today: string = new Date().toISOString().split('T')[0],
+  pivot: string = today,
+  days: number = 14
+): { a: Period; b: Period } => {
+  const todayNumber = toDayNumber(today);
+
+  switch (preset) {
+    case 'week': {
+      const thisWeek = toDayNumber(startOfWeek(today));
+      return {
+        a: { startDate: fromDayNumber(thisWeek - 7), endDate: fromDayNumber(thisWeek - 1) },
+        b: { startDate: fromDayNumber(thisWeek), endDate: fromDayNumber(thisWeek + 6) }
+      };
+    }
+    case 'month': {
+      const firstOfMonth = toDayNumber(`${today.slice(0, 7)}-01`);
+      const lastOfPrevious = fromDayNumber(firstOfMonth - 1);
+      const [year, month] = today.split('-').map(Number);
+      const lastOfMonth = toDayNumber(
+        month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, '0')}-01`
+      ) - 1;
+      return {
+        a: { startDate: `${lastOfPrevious.slice(0, 7)}-01`, endDate: lastOfPrevious },
+        b: { startDate: fromDayNumber(firstOfMonth), endDate: fromDayNumber(lastOfMonth) }
+      };
+    }
+    case '30d':
+      return {
+        a: { startDate: fromDayNumber(todayNumber - 59), endDate: fromDayNumber(todayNumber - 30) },
+        b: { startDate: fromDayNumber(todayNumber - 29), endDate: today }
+      };
+    case 'beforeAfter': {
+      const pivotNumber = toDayNumber(pivot);
+      return {
+        a: { startDate: fromDayNumber(pivotNumber - days), endDate: fromDayNumber(pivotNumber - 1) },
+        b: { startDate: pivot, endDate: fromDayNumber(pivotNumber + days - 1) }
+      };
+    }
+  }
+};
+
+const inPeriod = (date: string, period: Period): boolean => {
+  const day = date.split('T')[0];
+  return day >= period.startDate && day <= period.endDate;
+};
+
+export const getCheckinsInPeriod = (checkins: CheckinResponse[], period: Period): CheckinResponse[] =>
+  checkins.filter(checkin => inPeriod(checkin.date, period));
+
+/**
+ * Welch's t statistic and degrees of freedom for two independent samples
+ */
+export const welchTTest = (
+  a: number[],
+  b: number[]
+): { t: number; degreesOfFreedom: number } | null => {
+  if (a.length < 2 || b.length < 2) return null;
+  const meanA = mean(a)!;
+  const meanB = mean(b)!;
+  const varianceA = a.reduce((sum, x) => sum + (x - meanA) ** 2, 0) / (a.length - 1);
+  const varianceB = b.reduce((sum, x) => sum + (x - meanB) ** 2, 0) / (b.length - 1);
+  const errorA = varianceA / a.length;
+  const errorB = varianceB / b.length;
+  const standardError = Math.sqrt(errorA + errorB);
+
+  // Two constant samples: any difference is certain, no difference is none
+  if (standardError === 0) {
+    return meanA === meanB ? { t: 0, degreesOfFreedom: a.length + b.length - 2 } : null;
+  }
+
+  const degreesOfFreedom = (errorA + errorB) ** 2 /
+    (errorA ** 2 / (a.length - 1) + errorB ** 2 / (b.length - 1));
+  return { t: (meanB - meanA) / standardError, degreesOfFreedom };
+};
+
+/**
+ * Whether two samples likely differ at the 95% level (Welch's t-test)
+ */
+export const getSignificance = (a: number[], b: number[]): SignificanceHint => {
+  const test = welchTTest(a, b);
+  if (test) return Math.abs(test.t) > getCriticalValue(test.degreesOfFreedom) ? 'likely' : 'unclear';
+  // Both samples constant but different
+  return a.length >= 2 && b.length >= 2 ? 'likely' : 'insufficient';
+};
+
+/**
+ * Compare a metric between two periods using one averaged value per day
+ */
+export const compareMetric = (
+  checkinsA: CheckinResponse[],
+  checkinsB: CheckinResponse[],
+  metric: StatMetric
+): MetricComparison => {
+  const valuesA = [...getDailyMetricValues(checkinsA, metric).values()];
+  const valuesB = [...getDailyMetricValues(checkinsB, metric).values()];
+  const meanA = mean(valuesA);
+  const meanB = mean(valuesB);
+  const delta = meanA !== null && meanB !== null ? meanB - meanA : null;
+  const test = welchTTest(valuesA, valuesB);
+
+  return {
+    metric,
+    meanA,
+    meanB,
+    delta,
+    percentChange: delta !== null && meanA ? (delta / Math.abs(meanA)) * 100 : null,
+    daysA: valuesA.length,
+    daysB: valuesB.length,
+    tStatistic: test ? test.t : null,
+    significance: getSignificance(valuesA, valuesB)
+  };
+};
+
+/**
+ * Daily values of both periods side by side, day 1 of A next to day 1 of B
+ */
+export const alignByDayOfPeriod = (
+  checkinsA: CheckinResponse[],
+  checkinsB: CheckinResponse[],
+  periodA: Period,
+  periodB: Period,
+  metric: StatMetric
+): AlignedDay[] => {
+  const dailyA = getDailyMetricValues(checkinsA, metric);
+  const dailyB = getDailyMetricValues(checkinsB, metric);
+  const startA = toDayNumber(periodA.startDate);
+  const startB = toDayNumber(periodB.startDate);
+  const lengthA = getPeriodLength(periodA);
+  const lengthB = getPeriodLength(periodB);
+
+  const rows: AlignedDay[] = [];
+  for (let offset = 0; offset < Math.max(lengthA, lengthB); offset++) {
+    const dateA = offset < lengthA ? fromDayNumber(startA + offset) : undefined;
+    const dateB = offset < lengthB ? fromDayNumber(startB + offset) : undefined;
+    rows.push({
+      day: offset + 1,
+      dateA,
+      dateB,
+      a: dateA ? dailyA.get(dateA) : undefined,
+      b: dateB ? dailyB.get(dateB) : undefined
+    });
+  }
+  return rows;
+};
+
+export const describeSignificance = (hint: SignificanceHint): string => {
+  if (hint === 'likely') return 'Likely a real change';
+  if (hint === 'unclear') return 'Could be day-to-day noise';
+  return 'Not enough days to tell';
+};
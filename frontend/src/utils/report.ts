@@ -0,0 +1,269 @@
+import type { CheckinResponse } from '../types/checkin';
+import type { Goal } from '../types/goal';
+import type { StatMetric } from './statistics';
+import { fromDayNumber, getDailyMetricValues, mean, round, startOfWeek, toDayNumber } from './statistics';
+import { compareMetric, getCheckinsInPeriod, getPeriodLength, getPresetPeriods } from './periodComparison';
+import type { MetricComparison, Period } from './periodComparison';
+import { formatMetricValue, getChangeSentiment } from './metricRegistry';
+import { describeGoal, meetsTarget } from './goals';
+import { detectAnomalies } from './anomalies';
+
+export type ReportKind = 'week' | 'month';
+
+export type ReportSentiment = 'better' | 'worse' | 'neutral';
+
+export interface ReportHeadline extends MetricComparison {
+  sentiment: ReportSentiment;
+}
+
+export interface ReportDay {
+  date: string; // "YYYY-MM-DD"
+  score: number; // 0-10, see getDayScore
+  values: Partial<Record<StatMetric, number>>;
+}
+
+export interface ReportGoal {
+  goal: Goal;
+  description: string;
+  daysMet: number;
+  daysLogged: number;
+  targetDays: number; // daysPerWeek scaled to the period length
+  hitRate: number; // daysMet / targetDays, capped at 1
+  previousHitRate: number | null; // null when the previous period logged nothing
+}
+
+export type ReportNoteReason = 'best' | 'worst' | 'unusual' | 'note';
+
+export interface ReportNote {
+  date: string;
+  text: string;
+  reason: ReportNoteReason;
+}
+
+export type ReportSeriesPoint = { date: string } & Partial<Record<StatMetric, number>>;
+
+export interface CheckinReport {
+  kind: ReportKind;
+  period: Period;
+  previousPeriod: Period;
+  generatedAt: string; // ISO timestamp
+  checkinCount: number;
+  daysLogged: number;
+  previousDaysLogged: number;
+  totalDays: number;
+  headlines: ReportHeadline[];
+  bestDays: ReportDay[];
+  worstDays: ReportDay[];
+  goals: ReportGoal[];
+  notes: ReportNote[];
+  series: ReportSeriesPoint[]; // One row per day of the period, oldest first
+}
+
+// Summarized at the top of every report, in this order
+export const REPORT_METRICS: StatMetric[] = [
+  'sleepHours',
+  'sleepQuality',
+  'avgEnergy',
+  'productivityRating',
+  'stressLevel',
+  'moodScore',
+  'exerciseDuration',
+  'deepWorkHours'
+];
+
+// Drawn on the report's daily chart; all of them fit a 0-10 axis
+export const REPORT_CHART_METRICS: StatMetric[] = ['sleepHours', 'avgEnergy', 'productivityRating', 'stressLevel'];
+
+// Anomaly detection needs a few weeks of history before the period starts
+export const REPORT_BASELINE_DAYS = 28;
+
+export const NOTE_REASON_LABELS: Record<ReportNoteReason, string> = {
+  best: 'Best day',
+  worst: 'Toughest day',
+  unusual: 'Unusual day',
+  note: 'Note'
+};
+
+const RANKED_DAYS = 3;
+const MAX_NOTES = 6;
+
+/**
+ * The week (Monday to Sunday) or calendar month containing the anchor date, and the one before it
+ */
+export const getReportPeriods = (kind: ReportKind, anchor: string): { period: Period; previousPeriod: Period } => {
+  const { a, b } = getPresetPeriods(kind, anchor);
+  return { period: b, previousPeriod: a };
+};
+
+/**
+ * A date inside the next (+1) or previous (-1) report period
+ */
+export const shiftReportAnchor = (kind: ReportKind, anchor: string, step: 1 | -1): string => {
+  if (kind === 'week') return fromDayNumber(toDayNumber(startOfWeek(anchor)) + step * 7);
+  const [year, month] = anchor.split('-').map(Number);
+  const shifted = new Date(year, month - 1 + step, 1);
+  return `${shifted.getFullYear()}-${String(shifted.getMonth() + 1).padStart(2, '0')}-01`;
+};
+
+/**
+ * How good a day was on a 0-10 scale: energy, productivity, sleep quality, mood and (inverted) stress
+ */
+export const getDayScore = (values: Partial<Record<StatMetric, number>>): number | null => {
+  const parts: number[] = [];
+  if (values.avgEnergy !== undefined) parts.push(values.avgEnergy);
+  if (values.productivityRating !== undefined) parts.push(values.productivityRating);
+  if (values.sleepQuality !== undefined) parts.push(values.sleepQuality);
+  if (values.moodScore !== undefined) parts.push((values.moodScore / 6) * 10);
+  if (values.stressLevel !== undefined) parts.push(11 - values.stressLevel);
+  return parts.length >= 2 ? mean(parts) : null;
+};
+
+const getDailyValues = (checkins: CheckinResponse[]): Map<string, Partial<Record<StatMetric, number>>> => {
+  const days = new Map<string, Partial<Record<StatMetric, number>>>();
+  REPORT_METRICS.forEach(metric => {
+    getDailyMetricValues(checkins, metric).forEach((value, date) => {
+      days.set(date, { ...days.get(date), [metric]: value });
+    });
+  });
+  return days;
+};
+
+const countDays = (checkins: CheckinResponse[]): number =>
+  new Set(checkins.map(checkin => checkin.date.split('T')[0])).size;
+
+const evaluateReportGoal = (
+  goal: Goal,
+  checkins: CheckinResponse[],
+  period: Period
+): { daysMet: number; daysLogged: number; targetDays: number; hitRate: number } => {
+  const values = [...getDailyMetricValues(checkins, goal.metric).values()];
+  const daysMet = values.filter(value => meetsTarget(goal, value)).length;
+  const targetDays = Math.max(Math.round((goal.daysPerWeek * getPeriodLength(period)) / 7), 1);
+  return { daysMet, daysLogged: values.length, targetDays, hitRate: Math.min(daysMet / targetDays, 1) };
+};
+
+/**
+ * Turn the check-ins of a period (plus earlier history for comparisons) into a structured report
+ */
+export const buildReport = (
+  kind: ReportKind,
+  anchor: string,
+  checkins: CheckinResponse[],
+  goals: Goal[]
+): CheckinReport => {
+  const { period, previousPeriod } = getReportPeriods(kind, anchor);
+  const current = getCheckinsInPeriod(checkins, period);
+  const previous = getCheckinsInPeriod(checkins, previousPeriod);
+  const dailyValues = getDailyValues(current);
+
+  const headlines = REPORT_METRICS
+    .map(metric => compareMetric(previous, current, metric))
+    .filter(comparison => comparison.daysB > 0)
+    .map(comparison => ({
+      ...comparison,
+      sentiment: comparison.delta !== null ? getChangeSentiment(comparison.metric, comparison.delta) : 'neutral'
+    }));
+
+  const rankedDays = [...dailyValues]
+    .map(([date, values]) => ({ date, values, score: getDayScore(values) }))
+    .filter((day): day is ReportDay => day.score !== null)
+    .map(day => ({ ...day, score: round(day.score)! }))
+    .sort((a, b) => b.score - a.score || a.date.localeCompare(b.date));
+  const bestDays = rankedDays.slice(0, RANKED_DAYS);
+  const worstDays = rankedDays.slice(-RANKED_DAYS).reverse().filter(day => !bestDays.includes(day));
+
+  const reportGoals = goals.map(goal => {
+    const result = evaluateReportGoal(goal, current, period);
+    const previousResult = evaluateReportGoal(goal, previous, previousPeriod);
+    return {
+      goal,
+      description: describeGoal(goal),
+      ...result,
+      previousHitRate: previousResult.daysLogged > 0 ? previousResult.hitRate : null
+    };
+  });
+
+  // Notes from the days that stood out come first, then the most recent ones
+  const unusualDates = new Set(
+    detectAnomalies(checkins)
+      .filter(anomaly => anomaly.date >= period.startDate && anomaly.date <= period.endDate)
+      .map(anomaly => anomaly.date)
+  );
+  const getReason = (date: string): ReportNoteReason => {
+    if (bestDays.some(day => day.date === date)) return 'best';
+    if (worstDays.some(day => day.date === date)) return 'worst';
+    return unusualDates.has(date) ? 'unusual' : 'note';
+  };
+  const reasonRank: Record<ReportNoteReason, number> = { best: 0, worst: 0, unusual: 1, note: 2 };
+  const notes = current
+    .filter(checkin => checkin.notes?.trim())
+    .map(checkin => {
+      const date = checkin.date.split('T')[0];
+      return { date, text: checkin.notes!.trim(), reason: getReason(date) };
+    })
+    .sort((a, b) => reasonRank[a.reason] - reasonRank[b.reason] || b.date.localeCompare(a.date))
+    .slice(0, MAX_NOTES);
+
+  const series: ReportSeriesPoint[] = [];
+  for (let day = toDayNumber(period.startDate); day <= toDayNumber(period.endDate); day++) {
+    const date = fromDayNumber(day);
+    const values = dailyValues.get(date) || {};
+    const point: ReportSeriesPoint = { date };
+    REPORT_CHART_METRICS.forEach(metric => {
+      if (values[metric] !== undefined) point[metric] = round(values[metric]!)!;
+    });
+    series.push(point);
+  }
+
+  return {
+    kind,
+    period,
+    previousPeriod,
+    generatedAt: new Date().toISOString(),
+    checkinCount: current.length,
+    daysLogged: countDays(current),
+    previousDaysLogged: countDays(previous),
+    totalDays: getPeriodLength(period),
+    headlines,
+    bestDays,
+    worstDays,
+    goals: reportGoals,
+    notes,
+    series
+  };
+};
+
+const formatReportDate = (date: string, options: Intl.DateTimeFormatOptions): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', options);
+
+/**
+ * "Week of Oct 13, 2026" or "October 2026"
+ */
+export const getReportTitle = (report: CheckinReport): string =>
+  report.kind === 'week'
+    ? `Week of ${formatReportDate(report.period.startDate, { month: 'short', day: 'numeric', year: 'numeric' })}`
+    : formatReportDate(report.period.startDate, { month: 'long', year: 'numeric' });
+
+/**
+ * "Oct 13 – Oct 19, 2026"
+ */
+export const describeReportPeriod = (period: Period): string =>
+  `${formatReportDate(period.startDate, { month: 'short', day: 'numeric' })} – ${formatReportDate(period.endDate, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+/**
+ * File name for a downloaded report, e.g. "momentum-week-2026-10-13.html"
+ */
+export const getReportFilename = (report: CheckinReport, extension: string): string =>
+  `momentum-${report.kind}-${report.period.startDate}.${extension}`;
+
+/**
+ * Change against the previous period, e.g. "+0.5h (+7%)", or null without earlier data
+ */
+export const formatHeadlineChange = (headline: ReportHeadline): string | null => {
+  if (headline.delta === null) return null;
+  const sign = headline.delta > 0 ? '+' : '';
+  const percent = headline.percentChange !== null
+    ? ` (${headline.percentChange > 0 ? '+' : ''}${Math.round(headline.percentChange)}%)`
+    : '';
+  return `${sign}${formatMetricValue(headline.metric, headline.delta)}${percent}`;
+};
@@ -0,0 +1,167 @@
+import type { CheckinReport, ReportDay, ReportSentiment } from './report';
+import {
+  describeReportPeriod,
+  formatHeadlineChange,
+  getReportTitle,
+  NOTE_REASON_LABELS,
+  REPORT_CHART_METRICS
+} from './report';
+import { formatMetricValue, getMetric, getMetricLabel } from './metricRegistry';
+
+const SENTIMENT_COLORS: Record<ReportSentiment, string> = {
+  better: '#047857',
+  worse: '#c2410c',
+  neutral: '#64748b'
+};
+
+const CHART = { width: 720, height: 220, padding: 32 };
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #0f172a; max-width: 800px; margin: 32px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 28px; margin: 0 0 4px; }
+  h2 { font-size: 18px; margin: 32px 0 12px; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; }
+  .muted { color: #64748b; font-size: 14px; }
+  .grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; }
+  .stat { border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px; }
+  .stat .label { color: #64748b; font-size: 12px; }
+  .stat .value { font-size: 22px; font-weight: 600; }
+  .stat .change { font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; }
+  .bar { background: #e2e8f0; border-radius: 4px; height: 8px; }
+  .bar > div { background: #0891b2; border-radius: 4px; height: 8px; }
+  .note { border-left: 3px solid #0891b2; padding: 4px 12px; margin-bottom: 12px; }
+  .legend span { display: inline-block; margin-right: 16px; font-size: 12px; }
+  .legend i { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 4px; }
+  section, .stat, .note { break-inside: avoid; }
+  @media print { body { margin: 0; max-width: none; } }
+`;
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const formatPercent = (rate: number): string => `${Math.round(rate * 100)}%`;
+
+/**
+ * Daily lines for the chart metrics as an inline SVG, broken where a day was not logged
+ */
+const renderChart = (report: CheckinReport): string => {
+  const { width, height, padding } = CHART;
+  const values = report.series.flatMap(point => REPORT_CHART_METRICS.map(metric => point[metric] ?? 0));
+  const maxValue = Math.max(10, ...values);
+  const step = (width - padding * 2) / Math.max(report.series.length - 1, 1);
+  const x = (index: number) => padding + index * step;
+  const y = (value: number) => height - padding - (value / maxValue) * (height - padding * 2);
+
+  const gridLines = [0, 0.5, 1].map(fraction => {
+    const value = Math.round(maxValue * fraction);
+    return `<line x1="${padding}" x2="${width - padding}" y1="${y(value)}" y2="${y(value)}" stroke="#e2e8f0" />` +
+      `<text x="${padding - 6}" y="${y(value) + 4}" font-size="10" text-anchor="end" fill="#64748b">${value}</text>`;
+  });
+
+  const lines = REPORT_CHART_METRICS.map(metric => {
+    const segments: [number, number][][] = [[]];
+    report.series.forEach((point, index) => {
+      const value = point[metric];
+      if (value === undefined) {
+        segments.push([]);
+      } else {
+        segments[segments.length - 1].push([x(index), y(value)]);
+      }
+    });
+    const color = getMetric(metric).color;
+    return segments
+      .filter(segment => segment.length > 0)
+      .map(segment => segment.length === 1
+        ? `<circle cx="${segment[0][0]}" cy="${segment[0][1]}" r="3" fill="${color}" />`
+        : `<polyline points="${segment.map(([px, py]) => `${px.toFixed(1)},${py.toFixed(1)}`).join(' ')}" fill="none" stroke="${color}" stroke-width="2" />`)
+      .join('');
+  });
+
+  const labelEvery = Math.ceil(report.series.length / 8);
+  const labels = report.series
+    .map((point, index) => index % labelEvery === 0
+      ? `<text x="${x(index)}" y="${height - 8}" font-size="10" text-anchor="middle" fill="#64748b">${escapeHtml(
+          new Date(`${point.date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+        )}</text>`
+      : '')
+    .join('');
+
+  const legend = REPORT_CHART_METRICS
+    .map(metric => `<span><i style="background:${getMetric(metric).color}"></i>${escapeHtml(getMetricLabel(metric))}</span>`)
+    .join('');
+
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" role="img" aria-label="Daily metrics">` +
+    `${gridLines.join('')}${lines.join('')}${labels}</svg><div class="legend">${legend}</div>`;
+};
+
+const renderDays = (title: string, days: ReportDay[]): string =>
+  days.length === 0
+    ? ''
+    : `<div><h3>${title}</h3><table><tbody>${days
+        .map(day => `<tr><td>${escapeHtml(formatDay(day.date))}</td><td>${day.score}/10</td></tr>`)
+        .join('')}</tbody></table></div>`;
+
+/**
+ * A standalone HTML document for a report, with inline styles and chart so it opens anywhere
+ */
+export const renderReportHtml = (report: CheckinReport): string => {
+  const title = getReportTitle(report);
+
+  const headlines = report.headlines
+    .map(headline => {
+      const change = formatHeadlineChange(headline);
+      return `<div class="stat"><div class="label">${escapeHtml(getMetricLabel(headline.metric))}</div>` +
+        `<div class="value">${escapeHtml(formatMetricValue(headline.metric, headline.meanB!))}</div>` +
+        `<div class="change" style="color:${SENTIMENT_COLORS[headline.sentiment]}">` +
+        `${change ? `${escapeHtml(change)} vs previous` : 'No earlier data'}</div></div>`;
+    })
+    .join('');
+
+  const goals = report.goals
+    .map(goal => `<tr><td>${escapeHtml(goal.description)}</td>` +
+      `<td>${goal.daysMet} of ${goal.targetDays} days</td>` +
+      `<td style="width:30%"><div class="bar"><div style="width:${formatPercent(goal.hitRate)}"></div></div></td>` +
+      `<td>${formatPercent(goal.hitRate)}</td>` +
+      `<td class="muted">${goal.previousHitRate !== null ? `was ${formatPercent(goal.previousHitRate)}` : '—'}</td></tr>`)
+    .join('');
+
+  const notes = report.notes
+    .map(note => `<div class="note"><div class="muted">${escapeHtml(formatDay(note.date))} · ${NOTE_REASON_LABELS[note.reason]}</div>` +
+      `<div>${escapeHtml(note.text).replace(/\n/g, '<br>')}</div></div>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`Momentum report – ${title}`)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<div class="muted">${escapeHtml(describeReportPeriod(report.period))} · ${report.daysLogged} of ${report.totalDays} days logged` +
+    ` (${report.previousDaysLogged} in the previous ${report.kind}) · Compared with ${escapeHtml(describeReportPeriod(report.previousPeriod))}</div>
+</header>
+${report.checkinCount === 0 ? '<p>No check-ins were logged in this period.</p>' : `
+<section><h2>Headlines</h2><div class="grid">${headlines}</div></section>
+<section><h2>Daily Trends</h2>${renderChart(report)}</section>
+<section><h2>Best &amp; Toughest Days</h2><div class="grid" style="grid-template-columns:1fr 1fr">` +
+    `${renderDays('Best days', report.bestDays)}${renderDays('Toughest days', report.worstDays)}</div></section>
+${goals ? `<section><h2>Goals</h2><table><tbody>${goals}</tbody></table></section>` : ''}
+${notes ? `<section><h2>Notes</h2>${notes}</section>` : ''}`}
+<p class="muted">Generated ${escapeHtml(new Date(report.generatedAt).toLocaleString('en-US'))}</p>
+</body>
+</html>
+`;
+};
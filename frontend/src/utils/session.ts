@@ -0,0 +1,14 @@
+// How long before expiry the session warning appears
+export const SESSION_WARNING_MINUTES = 5;
+
+/**
+ * Login route that brings the user back to the given path afterwards
+ */
+export const getLoginPath = (returnTo?: string): string =>
+  returnTo && returnTo !== '/login' ? `/login?returnTo=${encodeURIComponent(returnTo)}` : '/login';
+
+/**
+ * The returnTo value when it is a path inside the app, null otherwise so it can't redirect off-site
+ */
+export const getSafeReturnPath = (returnTo: string | null): string | null =>
+  returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : null;
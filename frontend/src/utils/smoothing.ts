@@ -0,0 +1,164 @@
+import { round } from './statistics';
+
+export type RollingWindow = 0 | 7 | 14 | 30; // Days, 0 turns the rolling average off
+
+export type OverlayKind = 'rolling' | 'smoothed' | 'trend';
+
+export interface ChartOverlays {
+  rollingWindow: RollingWindow;
+  smoothing: boolean; // Exponential smoothing
+  trendline: boolean; // Linear regression
+}
+
+export interface OverlaySeries<T> {
+  key: string; // Chart data key the overlays are derived from
+  getValue: (row: T) => number | undefined;
+}
+
+export interface Regression {
+  slope: number;
+  intercept: number;
+  r2: number;
+}
+
+export const ROLLING_WINDOWS: { value: RollingWindow; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: 7, label: '7-day' },
+  { value: 14, label: '14-day' },
+  { value: 30, label: '30-day' }
+];
+
+export const DEFAULT_CHART_OVERLAYS: ChartOverlays = {
+  rollingWindow: 0,
+  smoothing: false,
+  trendline: false
+};
+
+// Weight of the newest value in exponential smoothing
+export const SMOOTHING_ALPHA = 0.3;
+
+export const getOverlayKey = (key: string, kind: OverlayKind): string => `${key}_${kind}`;
+
+/**
+ * Mean of the values falling in the window of days ending at each point.
+ * Points must be chronological; days without a value are skipped rather than counted as zero.
+ */
+export const rollingAverage = (
+  points: { day: number; value: number | undefined }[],
+  windowDays: number
+): (number | null)[] => {
+  let start = 0;
+  let sum = 0;
+  let count = 0;
+
+  return points.map(point => {
+    if (point.value !== undefined) {
+      sum += point.value;
+      count++;
+    }
+    while (points[start].day <= point.day - windowDays) {
+      if (points[start].value !== undefined) {
+        sum -= points[start].value!;
+        count--;
+      }
+      start++;
+    }
+    return count > 0 ? sum / count : null;
+  });
+};
+
+/**
+ * Exponentially weighted moving average, carried across missing values
+ */
+export const exponentialSmoothing = (
+  values: (number | undefined)[],
+  alpha: number = SMOOTHING_ALPHA
+): (number | null)[] => {
+  let smoothed: number | null = null;
+  return values.map(value => {
+    if (value !== undefined) {
+      smoothed = smoothed === null ? value : alpha * value + (1 - alpha) * smoothed;
+    }
+    return smoothed;
+  });
+};
+
+/**
+ * Least-squares line through the points, null when x never varies
+ */
+export const linearRegression = (points: { x: number; y: number }[]): Regression | null => {
+  if (points.length < 2) return null;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  points.forEach(p => {
+    sxx += (p.x - meanX) ** 2;
+    sxy += (p.x - meanX) * (p.y - meanY);
+    syy += (p.y - meanY) ** 2;
+  });
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    r2: syy === 0 ? 1 : (sxy * sxy) / (sxx * syy)
+  };
+};
+
+/**
+ * Slope per step of the exponentially smoothed values, so one odd value cannot flip the direction
+ */
+export const smoothedSlope = (values: number[], alpha: number = SMOOTHING_ALPHA): number | null => {
+  const regression = linearRegression(
+    exponentialSmoothing(values, alpha).map((y, x) => ({ x, y: y! }))
+  );
+  return regression ? regression.slope : null;
+};
+
+/**
+ * Add rolling average, smoothed and trendline columns for each series to chronological chart rows
+ */
+export const addOverlays = <T extends object>(
+  rows: T[],
+  getDay: (row: T) => number,
+  series: OverlaySeries<T>[],
+  overlays: ChartOverlays
+): (T & Record<string, number | null>)[] => {
+  const result = rows.map(row => ({ ...row }) as T & Record<string, number | null>);
+  const columns = result as Record<string, number | null>[];
+
+  series.forEach(({ key, getValue }) => {
+    const points = rows.map(row => ({ day: getDay(row), value: getValue(row) }));
+
+    if (overlays.rollingWindow > 0) {
+      rollingAverage(points, overlays.rollingWindow).forEach((value, index) => {
+        columns[index][getOverlayKey(key, 'rolling')] = round(value, 2);
+      });
+    }
+
+    if (overlays.smoothing) {
+      exponentialSmoothing(points.map(point => point.value)).forEach((value, index) => {
+        columns[index][getOverlayKey(key, 'smoothed')] = round(value, 2);
+      });
+    }
+
+    if (overlays.trendline) {
+      const regression = linearRegression(
+        points
+          .filter(point => point.value !== undefined)
+          .map(point => ({ x: point.day, y: point.value! }))
+      );
+      points.forEach((point, index) => {
+        columns[index][getOverlayKey(key, 'trend')] = regression
+          ? round(regression.intercept + regression.slope * point.day, 2)
+          : null;
+      });
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,254 @@
+import type { CheckinResponse, NumericCheckinField } from '../types/checkin';
+import { METRIC_REGISTRY } from './metricRegistry';
+import { rollupCheckins } from './dailyRollup';
+
+// Derived metrics on top of the raw numeric fields
+export type StatMetric = NumericCheckinField | 'avgEnergy' | 'moodScore';
+
+export interface MetricSummary {
+  count: number; // Days that recorded the metric
+  mean: number | null;
+  median: number | null;
+  min: number | null;
+  max: number | null;
+  standardDeviation: number | null;
+  p25: number | null;
+  p75: number | null;
+  p90: number | null;
+}
+
+export interface CheckinStats {
+  totalCheckins: number;
+  daysWithCheckins: number;
+  averageMood: number | null;
+  averageEnergy: number | null;
+  averageSleep: number | null;
+  streakDays: number;
+  metrics: Record<StatMetric, MetricSummary>;
+}
+
+export const STAT_METRICS = Object.keys(METRIC_REGISTRY) as StatMetric[];
+
+// Mood on a 1-6 scale, covering both the form options and older free-text values
+export const MOOD_SCORES: { [key: string]: number } = {
+  'terrible': 1,
+  'low': 1,
+  'bad': 2,
+  'tired': 2,
+  'stressed': 2,
+  'okay': 3,
+  'good': 4,
+  'great': 5,
+  'excellent': 6,
+  'amazing': 6
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * "YYYY-MM-DD" to a whole day number so neighbouring dates differ by exactly 1
+ */
+export const toDayNumber = (date: string): number => {
+  const [year, month, day] = date.split('T')[0].split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+export const round = (value: number | null, decimals: number = 1): number | null => {
+  if (value === null) return null;
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const mean = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+/**
+ * Percentile (0-100) using linear interpolation between closest ranks
+ */
+export const percentile = (values: number[], p: number): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const median = (values: number[]): number | null => percentile(values, 50);
+
+/**
+ * Sample standard deviation
+ */
+export const standardDeviation = (values: number[]): number | null => {
+  if (values.length < 2) return null;
+  const average = mean(values)!;
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+// Coefficients of Acklam's rational approximation to the inverse normal CDF
+const NORMAL_A = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+const NORMAL_B = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+const NORMAL_C = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+const NORMAL_D = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+
+const polynomial = (coefficients: number[], x: number): number =>
+  coefficients.reduce((sum, coefficient) => sum * x + coefficient, 0);
+
+/**
+ * Standard normal quantile for probability p (relative error below 1.2e-9), e.g. 0.975 → 1.96
+ */
+export const inverseNormalCdf = (p: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  // Tails, where the central fit loses accuracy
+  if (p < 0.02425 || p > 0.97575) {
+    const q = Math.sqrt(-2 * Math.log(Math.min(p, 1 - p)));
+    const tail = polynomial(NORMAL_C, q) / (polynomial(NORMAL_D, q) * q + 1);
+    return p < 0.5 ? tail : -tail;
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (polynomial(NORMAL_A, r) * q) / (polynomial(NORMAL_B, r) * r + 1);
+};
+
+export const summarize = (values: number[]): MetricSummary => ({
+  count: values.length,
+  mean: mean(values),
+  median: median(values),
+  min: values.length ? Math.min(...values) : null,
+  max: values.length ? Math.max(...values) : null,
+  standardDeviation: standardDeviation(values),
+  p25: percentile(values, 25),
+  p75: percentile(values, 75),
+  p90: percentile(values, 90)
+});
+
+/**
+ * Average of the energy readings that were recorded, undefined when none were
+ */
+export const getAverageEnergy = (checkin: CheckinResponse): number | undefined => {
+  const readings = [checkin.energyMorning, checkin.energyAfternoon, checkin.energyEvening]
+    .filter((energy): energy is number => energy !== undefined && energy !== null);
+  return readings.length ? mean(readings)! : undefined;
+};
+
+export const getMoodScore = (mood?: string): number | undefined =>
+  mood ? MOOD_SCORES[mood.toLowerCase()] : undefined;
+
+/**
+ * Value of a metric for one check-in, undefined when it was not recorded
+ */
+export const getMetricValue = (checkin: CheckinResponse, metric: StatMetric): number | undefined => {
+  if (metric === 'avgEnergy') return getAverageEnergy(checkin);
+  if (metric === 'moodScore') return getMoodScore(checkin.mood);
+  const value = checkin[metric];
+  return value === null ? undefined : value;
+};
+
+/**
+ * Recorded values of a metric, skipping check-ins where it is missing
+ */
+export const getMetricValues = (checkins: CheckinResponse[], metric: StatMetric): number[] =>
+  checkins
+    .map(checkin => getMetricValue(checkin, metric))
+    .filter((value): value is number => value !== undefined);
+
+/**
+ * Metric per calendar date from the daily rollup, skipping dates where it was not recorded
+ */
+export const getDailyMetricValues = (checkins: CheckinResponse[], metric: StatMetric): Map<string, number> => {
+  const values = new Map<string, number>();
+  rollupCheckins(checkins).forEach(day => {
+    const value = getMetricValue(day, metric);
+    if (value !== undefined) values.set(day.date.split('T')[0], value);
+  });
+  return values;
+};
+
+/**
+ * Order check-ins oldest first by date, then by creation time
+ */
+export const sortChronologically = (checkins: CheckinResponse[]): CheckinResponse[] =>
+  [...checkins].sort((a, b) =>
+    a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)
+  );
+
+export const fromDayNumber = (day: number): string =>
+  new Date(day * MS_PER_DAY).toISOString().split('T')[0];
+
+/**
+ * Day of the week with Monday as 0 and Sunday as 6
+ */
+export const getWeekdayIndex = (date: string): number => {
+  // Day 0 (1970-01-01) was a Thursday
+  return (toDayNumber(date) + 3) % 7;
+};
+
+/**
+ * Monday of the week containing a date, as "YYYY-MM-DD"
+ */
+export const startOfWeek = (date: string): string =>
+  fromDayNumber(toDayNumber(date) - getWeekdayIndex(date));
+
+/**
+ * Current and longest run of consecutive days in a set of day numbers.
+ * The current run may end yesterday, so a streak is not lost before today's check-in.
+ */
+export const getStreaks = (
+  days: Set<number>,
+  today: string = new Date().toISOString().split('T')[0]
+): { current: number; longest: number } => {
+  let current = 0;
+  let day = toDayNumber(today);
+  if (!days.has(day)) day -= 1;
+  while (days.has(day)) {
+    current++;
+    day--;
+  }
+
+  let longest = 0;
+  days.forEach(start => {
+    // Only count from the first day of each run
+    if (days.has(start - 1)) return;
+    let length = 1;
+    while (days.has(start + length)) length++;
+    longest = Math.max(longest, length);
+  });
+
+  return { current, longest };
+};
+
+/**
+ * Consecutive days with at least one check-in, ending today (or yesterday)
+ */
+export const calculateStreakDays = (
+  checkins: CheckinResponse[],
+  today: string = new Date().toISOString().split('T')[0]
+): number => getStreaks(new Set(checkins.map(checkin => toDayNumber(checkin.date))), today).current;
+
+/**
+ * Totals, averages, spread and streak for a set of check-ins, with metrics summarized per day from the rollup.
+ * Missing values are ignored, never counted as 0.
+ */
+export const computeCheckinStats = (checkins: CheckinResponse[]): CheckinStats => {
+  const days = rollupCheckins(checkins);
+  const metrics = {} as Record<StatMetric, MetricSummary>;
+  STAT_METRICS.forEach(metric => {
+    metrics[metric] = summarize(getMetricValues(days, metric));
+  });
+
+  return {
+    totalCheckins: checkins.length,
+    daysWithCheckins: days.length,
+    averageMood: metrics.moodScore.mean,
+    averageEnergy: metrics.avgEnergy.mean,
+    averageSleep: metrics.sleepHours.mean,
+    streakDays: calculateStreakDays(checkins),
+    metrics
+  };
+};
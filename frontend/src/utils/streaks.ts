@@ -0,0 +1,111 @@
+import type { CheckinResponse } from '../types/checkin';
+import { fromDayNumber, getStreaks, toDayNumber } from './statistics';
+import { groupByDay } from './dailyRollup';
+
+export type HabitKey = 'checkin' | 'breakfast' | 'water' | 'exercise';
+
+export interface HabitDefinition {
+  key: HabitKey;
+  label: string;
+  icon: string;
+  isMet: (dayCheckins: CheckinResponse[]) => boolean; // All check-ins logged on one day
+}
+
+export interface HabitStreak {
+  habit: HabitDefinition;
+  current: number;
+  longest: number;
+  daysMet: number;
+}
+
+export interface CalendarDay {
+  date: string; // "YYYY-MM-DD"
+  checkins: CheckinResponse[];
+  habitMet: boolean;
+  inRange: boolean; // False for the padding days before the first week starts
+}
+
+export const WATER_GOAL_GLASSES = 8;
+
+export const HABITS: HabitDefinition[] = [
+  {
+    key: 'checkin',
+    label: 'Checked in',
+    icon: '📝',
+    isMet: dayCheckins => dayCheckins.length > 0
+  },
+  {
+    key: 'breakfast',
+    label: 'Ate breakfast',
+    icon: '🍳',
+    isMet: dayCheckins => dayCheckins.some(checkin => checkin.ateBreakfast === true)
+  },
+  {
+    key: 'water',
+    label: `≥${WATER_GOAL_GLASSES} water glasses`,
+    icon: '💧',
+    // Glasses logged across several check-ins on the same day add up
+    isMet: dayCheckins =>
+      dayCheckins.reduce((sum, checkin) => sum + (checkin.waterGlasses ?? 0), 0) >= WATER_GOAL_GLASSES
+  },
+  {
+    key: 'exercise',
+    label: 'Exercised',
+    icon: '🏃',
+    isMet: dayCheckins =>
+      dayCheckins.some(checkin => (checkin.exerciseDuration ?? 0) > 0 || !!checkin.exerciseType)
+  }
+];
+
+export const getHabit = (key: HabitKey): HabitDefinition =>
+  HABITS.find(habit => habit.key === key) || HABITS[0];
+
+/**
+ * Current and longest streak of days on which a habit was met
+ */
+export const calculateHabitStreak = (
+  checkins: CheckinResponse[],
+  habit: HabitDefinition,
+  today: string = new Date().toISOString().split('T')[0]
+): HabitStreak => {
+  const metDays = new Set<number>();
+  groupByDay(checkins).forEach((dayCheckins, date) => {
+    if (habit.isMet(dayCheckins)) metDays.add(toDayNumber(date));
+  });
+
+  return { habit, ...getStreaks(metDays, today), daysMet: metDays.size };
+};
+
+export const calculateHabitStreaks = (
+  checkins: CheckinResponse[],
+  today: string = new Date().toISOString().split('T')[0]
+): HabitStreak[] => HABITS.map(habit => calculateHabitStreak(checkins, habit, today));
+
+/**
+ * Days for a calendar heatmap ending today, laid out in whole weeks starting on Sunday
+ */
+export const buildCalendarDays = (
+  checkins: CheckinResponse[],
+  habit: HabitDefinition,
+  weeks: number = 53,
+  today: string = new Date().toISOString().split('T')[0]
+): CalendarDay[] => {
+  const byDay = groupByDay(checkins);
+  const end = toDayNumber(today);
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const firstSunday = end - weekday - (weeks - 1) * 7;
+  const rangeStart = end - 365;
+
+  const days: CalendarDay[] = [];
+  for (let day = firstSunday; day <= end; day++) {
+    const date = fromDayNumber(day);
+    const dayCheckins = byDay.get(date) || [];
+    days.push({
+      date,
+      checkins: dayCheckins,
+      habitMet: habit.isMet(dayCheckins),
+      inRange: day > rangeStart
+    });
+  }
+  return days;
+};
@@ -1,27 +1,64 @@
+import type { User } from '../types/auth';
+import { getJwtExpiry } from './jwt';
+
+const TOKEN_KEY = 'token';
+const EXPIRES_AT_KEY = 'tokenExpiresAt';
+const USER_KEY = 'user';
+
+// Keys whose changes in another tab mean the session changed there
+export const AUTH_STORAGE_KEYS = [TOKEN_KEY, EXPIRES_AT_KEY, USER_KEY];
+
 export const tokenStorage = {
   getToken: (): string | null => {
-    return localStorage.getItem('token');
+    return localStorage.getItem(TOKEN_KEY);
   },
-  
-  setToken: (token: string): void => {
-    localStorage.setItem('token', token);
+
+  // The token's own "exp" claim wins over the expiry the API reported alongside it
+  setToken: (token: string, expiresAt?: string): void => {
+    localStorage.setItem(TOKEN_KEY, token);
+    const expiry = getJwtExpiry(token) || expiresAt;
+    if (expiry) {
+      localStorage.setItem(EXPIRES_AT_KEY, expiry);
+    } else {
+      localStorage.removeItem(EXPIRES_AT_KEY);
+    }
   },
-  
+
   removeToken: (): void => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
+    tokenStorage.expireToken();
+    localStorage.removeItem(USER_KEY);
   },
-  
+
+  // Drop only the credentials, so per-user storage such as drafts keeps working until re-login
+  expireToken: (): void => {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(EXPIRES_AT_KEY);
+  },
+
+  // ISO timestamp, null when unknown
+  getExpiresAt: (): string | null => {
+    return localStorage.getItem(EXPIRES_AT_KEY);
+  },
+
+  isExpired: (): boolean => {
+    const expiresAt = tokenStorage.getExpiresAt();
+    return expiresAt !== null && new Date(expiresAt).getTime() <= Date.now();
+  },
+
   isAuthenticated: (): boolean => {
-    return !!localStorage.getItem('token');
+    return !!localStorage.getItem(TOKEN_KEY) && !tokenStorage.isExpired();
   },
-  
-  getUser: (): any | null => {
-    const user = localStorage.getItem('user');
-    return user ? JSON.parse(user) : null;
+
+  getUser: (): User | null => {
+    try {
+      const user = localStorage.getItem(USER_KEY);
+      return user ? (JSON.parse(user) as User) : null;
+    } catch {
+      return null;
+    }
   },
-  
-  setUser: (user: any): void => {
-    localStorage.setItem('user', JSON.stringify(user));
+
+  setUser: (user: User): void => {
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
   },
-};
\ No newline at end of file
+};
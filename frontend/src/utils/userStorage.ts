@@ -0,0 +1,30 @@
+import { tokenStorage } from './tokenStorage';
+
+// Browser storage is shared by everyone who logs in, so keys are scoped to the user's email
+const getUserKey = (key: string): string | null => {
+  const email = tokenStorage.getUser()?.email;
+  return email ? `momentum:${email}:${key}` : null;
+};
+
+export const userStorage = {
+  get: <T>(key: string, fallback: T): T => {
+    const userKey = getUserKey(key);
+    if (!userKey) return fallback;
+    try {
+      const value = localStorage.getItem(userKey);
+      return value ? (JSON.parse(value) as T) : fallback;
+    } catch {
+      return fallback;
+    }
+  },
+
+  set: <T>(key: string, value: T): void => {
+    const userKey = getUserKey(key);
+    if (userKey) localStorage.setItem(userKey, JSON.stringify(value));
+  },
+
+  remove: (key: string): void => {
+    const userKey = getUserKey(key);
+    if (userKey) localStorage.removeItem(userKey);
+  },
+};